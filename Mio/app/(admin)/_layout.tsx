@@ -37,6 +37,12 @@ export default function AdminLayout() {
           title: "Manage Trending Shows",
         }}
       />
+      <Stack.Screen
+        name="announcement"
+        options={{
+          title: "Send Announcement",
+        }}
+      />
     </Stack>
   );
 } 
\ No newline at end of file
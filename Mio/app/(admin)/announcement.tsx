@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  StatusBar
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { COLORS } from '../../constants/Colors';
+
+// Same limits as the sendAnnouncement function
+const TITLE_MAX_LENGTH = 65;
+const BODY_MAX_LENGTH = 240;
+
+export default function AnnouncementScreen() {
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const canSend = title.trim().length > 0 && body.trim().length > 0 && !isSending;
+
+  const sendAnnouncement = async () => {
+    setIsSending(true);
+    try {
+      const callSendAnnouncement = httpsCallable<
+        { title: string; body: string },
+        { recipients: number }
+      >(getFunctions(), 'sendAnnouncement');
+      const result = await callSendAnnouncement({ title: title.trim(), body: body.trim() });
+
+      Alert.alert('Sent', `Announcement delivered to ${result.data.recipients} users`);
+      setTitle('');
+      setBody('');
+    } catch (error) {
+      console.error('Error sending announcement:', error);
+      Alert.alert('Error', 'Failed to send announcement');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const confirmSend = () => {
+    Alert.alert(
+      'Send Announcement',
+      'This will notify every user. Are you sure?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', onPress: sendAnnouncement },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Send Announcement</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.label}>Title</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="What's new?"
+          value={title}
+          onChangeText={setTitle}
+          maxLength={TITLE_MAX_LENGTH}
+        />
+
+        <Text style={styles.label}>Message</Text>
+        <TextInput
+          style={[styles.input, styles.bodyInput]}
+          placeholder="Shown in the activity feed and as a push notification"
+          value={body}
+          onChangeText={setBody}
+          maxLength={BODY_MAX_LENGTH}
+          multiline
+        />
+        <Text style={styles.counter}>{body.length}/{BODY_MAX_LENGTH}</Text>
+
+        <TouchableOpacity
+          style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+          onPress={confirmSend}
+          disabled={!canSend}
+        >
+          {isSending ? (
+            <ActivityIndicator size="small" color="#FFF" />
+          ) : (
+            <Text style={styles.sendButtonText}>Send to all users</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEE',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  headerRight: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F2',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 16,
+  },
+  bodyInput: {
+    height: 120,
+    textAlignVertical: 'top',
+    marginBottom: 4,
+  },
+  counter: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    color: '#777',
+    marginBottom: 16,
+  },
+  sendButton: {
+    backgroundColor: COLORS.secondary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
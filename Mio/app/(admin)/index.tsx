@@ -40,6 +40,22 @@ export default function AdminPanel() {
           <Ionicons name="chevron-forward" size={20} color="#888" />
         </TouchableOpacity>
         
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => router.push("/(admin)/announcement")}
+        >
+          <View style={styles.menuIconContainer}>
+            <Ionicons name="megaphone-outline" size={24} color={COLORS.secondary} />
+          </View>
+          <View style={styles.menuTextContainer}>
+            <Text style={styles.menuTitle}>Send Announcement</Text>
+            <Text style={styles.menuDescription}>
+              Post a message to every user's activity feed and devices
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#888" />
+        </TouchableOpacity>
+        
         {/* Add more admin functions here as needed */}
       </View>
     </SafeAreaView>
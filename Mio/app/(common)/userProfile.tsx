@@ -23,6 +23,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFavorites } from '../../context/FavoritesContext';
 import { useAuth } from '../../context/AuthContext';
 import { fetchTMDB } from '../../utils/tmdbApi';
+import SharedShows from '../../components/SharedShows';
 
 const { width, height } = Dimensions.get('window');
 const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
@@ -48,7 +49,6 @@ interface ShowDisplayData {
   title: string;
   posterPath: string;
   type: 'anime' | 'kdrama';
-  isMutual: boolean;
 }
 
 export default function UserProfileScreen() {
@@ -59,35 +59,46 @@ export default function UserProfileScreen() {
       const favoriteShowIdsFromParam = useMemo(() => {
      return params.favoriteShows ? (params.favoriteShows as string).split(',') : [];
    }, [params.favoriteShows]);
-  const matchTimestamp = params.matchTimestamp ? new Date(params.matchTimestamp as string) : null;
+  // What the pair has in common, as stored on the match; missing for matches made before it was stored
+  const commonShowsParam = params.commonShows as string | undefined;
+  const sharedGenresParam = params.sharedGenres as string | undefined;
+  // Suggestions haven't been liked by both sides yet, so there's no chat to open
+  const isSuggestion = params.suggestion === 'true';
+  // Set from the match entry, where the server keeps track of whether photos have unlocked
+  const photoLockedParam = params.photoLocked as string | undefined;
   
   
   const { userFavorites } = useFavorites();
+  const { user } = useAuth();
   
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [matchedUserShows, setMatchedUserShows] = useState<ShowDisplayData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [genreNamesById, setGenreNamesById] = useState<Record<number, string>>({});
   
   const commonShowIds = useMemo(() => {
+    if (commonShowsParam !== undefined) {
+      return commonShowsParam ? commonShowsParam.split(',') : [];
+    }
     if (!userFavorites?.shows || !favoriteShowIdsFromParam) {
       return [];
     }
     const currentUserFavoritesSet = new Set(userFavorites.shows);
     return favoriteShowIdsFromParam.filter(id => currentUserFavoritesSet.has(id));
-  }, [userFavorites?.shows, favoriteShowIdsFromParam]);
-  
-  const isNewMatch = () => {
-    if (!matchTimestamp) return false;
-    
-    const now = new Date();
-    const timeDiff = now.getTime() - matchTimestamp.getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
-    
-    return hoursDiff < 24;
-  };
+  }, [commonShowsParam, userFavorites?.shows, favoriteShowIdsFromParam]);
+
+  // Shared genres are always among the other user's favorites, so their names
+  // come from the show details fetched below
+  const sharedGenreNames = useMemo(() => {
+    if (!sharedGenresParam) return [];
+    return sharedGenresParam.split(',')
+      .map(id => genreNamesById[Number(id)])
+      .filter((name): name is string => !!name);
+  }, [sharedGenresParam, genreNamesById]);
   
-  const shouldBlurImages = isNewMatch();
+  // The server decides when photos unlock; suggestions always stay blurred
+  const shouldBlurImages = isSuggestion || photoLockedParam === 'true';
   
   useEffect(() => {
     if (userId) {
@@ -101,8 +112,15 @@ export default function UserProfileScreen() {
       const userDoc = await getDoc(doc(db, 'users', userId));
       if (userDoc.exists() && userDoc.data().profile) {
         const profileData = userDoc.data().profile;
+        // The profile only holds blurred photos; the match entry gets the
+        // real ones once the pair's photos unlock
+        const matchDoc = user && !isSuggestion
+          ? await getDoc(doc(db, 'users', user.uid, 'matches', userId))
+          : null;
         setProfile({
           ...profileData,
+          profilePic: matchDoc?.data()?.profilePic || profileData.profilePic,
+          additionalPics: matchDoc?.data()?.additionalPics || profileData.additionalPics,
           favoriteShows: profileData.favoriteShows || favoriteShowIdsFromParam
         });
       } else {
@@ -124,7 +142,7 @@ export default function UserProfileScreen() {
 
     try {
       const shows: ShowDisplayData[] = [];
-      const currentUserFavoritesSet = new Set(userFavorites?.shows || []);
+      const genreNames: Record<number, string> = {};
 
       for (const showId of favoriteShowIdsFromParam) {
         try {
@@ -134,13 +152,15 @@ export default function UserProfileScreen() {
             const isAnime = data.genres?.some((genre: any) =>
               genre.name.toLowerCase().includes('animation')
             ) || data.origin_country?.includes('JP') || data.original_language === 'ja';
+            data.genres?.forEach((genre: { id: number; name: string }) => {
+              genreNames[genre.id] = genre.name;
+            });
 
             shows.push({
               id: showId,
               title: data.name,
               posterPath: data.poster_path,
-              type: isAnime ? 'anime' : 'kdrama',
-              isMutual: currentUserFavoritesSet.has(showId)
+              type: isAnime ? 'anime' : 'kdrama'
             });
           } else {
             console.error(`Failed to fetch show ${showId}: No data returned`);
@@ -151,6 +171,7 @@ export default function UserProfileScreen() {
       }
 
       setMatchedUserShows(shows);
+      setGenreNamesById(genreNames);
     } catch (error) {
       console.error('Error fetching shows:', error);
       setError(`Failed to load shows: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -271,19 +292,21 @@ export default function UserProfileScreen() {
               </View>
             </View>
             
-            <TouchableOpacity 
-              style={styles.chatButton} className='mt-8'
-              onPress={() => router.push({
-                pathname: '/(conversations)/chat',
-                params: { 
-                  matchId: userId, 
-                  fromInbox: 'false' 
-                } 
-              })}
-            >
-              <Ionicons name="chatbubble" size={18} color="#FFF" />
-              <Text style={styles.chatButtonText}>Chat</Text>
-            </TouchableOpacity>
+            {!isSuggestion && (
+              <TouchableOpacity 
+                style={styles.chatButton} className='mt-8'
+                onPress={() => router.push({
+                  pathname: '/(conversations)/chat',
+                  params: { 
+                    matchId: userId, 
+                    fromInbox: 'false' 
+                  } 
+                })}
+              >
+                <Ionicons name="chatbubble" size={18} color="#FFF" />
+                <Text style={styles.chatButtonText}>Chat</Text>
+              </TouchableOpacity>
+            )}
             
             {profile.bio && (
               <Text style={styles.profileBio} numberOfLines={3}>
@@ -325,6 +348,12 @@ export default function UserProfileScreen() {
             </View>
           </View>
           
+          {(commonShowIds.length > 0 || sharedGenreNames.length > 0) && (
+            <View style={styles.section}>
+              <SharedShows showIds={commonShowIds} genreNames={sharedGenreNames} />
+            </View>
+          )}
+          
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Ionicons name="heart" size={20} color={COLORS.secondary} />
@@ -348,7 +377,7 @@ export default function UserProfileScreen() {
                         }} 
                         style={styles.showImage} 
                       />
-                      {show.isMutual && (
+                      {commonShowIds.includes(show.id) && (
                         <View style={styles.mutualBadge}>
                           <Ionicons name="heart" size={12} color="#FFF" />
                           <Text style={styles.mutualBadgeText}>Both Like</Text>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -16,47 +16,49 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { Image as ExpoImage } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
 import { COLORS } from '../../constants/Colors';
 import { useAuth } from '../../context/AuthContext';
 import { useMatch } from '../../context/MatchContext';
+import { useActiveConversation } from '../../hooks/useActiveConversation';
+import { useUsersPresence } from '../../hooks/usePresence';
+import { useTypingIndicator } from '../../hooks/useTypingIndicator';
+import { formatPresence } from '../../utils/presence';
+import { isPhotoLocked } from '../../utils/photoUnlock';
+import { getUnreadCount, markConversationRead, openConversation } from '../../utils/conversations';
+import { uploadChatImage } from '../../config/cloudinaryConfig';
+import { Message, MessageImage, MessageType } from '../../types/message';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { 
   collection, 
   query, 
-  where, 
   orderBy, 
   onSnapshot, 
   doc, 
   getDoc, 
-  updateDoc, 
-  arrayUnion, 
   Timestamp,
   getDocs,
   limit,
-  writeBatch,
-  increment,
   startAfter,
   addDoc
 } from 'firebase/firestore';
 import { db } from '../../config/firebaseConfig';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { 
-  MESSAGE_BATCH_SIZE, 
   fetchArchivedMessages, 
   getArchiveMetadata
 } from '../../utils/messageArchive';
 
 // Constants to optimize Firestore usage
 const MESSAGES_PER_BATCH = 10; // Number of messages to fetch per pagination
-const CACHE_EXPIRY = 3600000; // Cache expiry time in milliseconds (1 hour)
+const MAX_MESSAGE_LENGTH = 2000; // Same limit as the sendMessage callable
+const PHOTO_MESSAGE_WIDTH = 220; // Photos are shown at this width, keeping their aspect ratio
 
-interface Message {
-  id?: string;
-  text: string;
-  senderId: string;
-  senderName: string;
-  timestamp: Timestamp;
-  read: boolean;
+// What the sendMessage callable returns, with the server time in milliseconds
+interface SendMessageResult {
+  success: boolean;
+  message: Omit<Message, 'timestamp'> & { timestamp: number };
 }
 
 interface MessageBatch {
@@ -83,7 +85,9 @@ interface Conversation {
     text: string;
     timestamp: Timestamp;
   };
-  unreadCount: {[uid: string]: number};
+  unreadCount?: {[uid: string]: number}; // Only on conversations from before read cursors
+  lastReadAt?: {[uid: string]: Timestamp}; // When each participant last read the conversation
+  readMessageCount?: {[uid: string]: number}; // The messageCount at that point
   currentBatchId?: string; // Track current batch for more efficient writes
   messageCount?: number; // Track total message count
   archives?: ArchiveInfo[]; // References to archived messages in Storage
@@ -241,7 +245,7 @@ function useMessages(conversation: Conversation | null, user: any) {
 
 export default function ChatScreen() {
   const { user } = useAuth();
-  const { matches, updateChattingWithStatus, unmatchUser, blockUser } = useMatch();
+  const { matches, unmatchUser, blockUser } = useMatch();
   const params = useLocalSearchParams();
   const conversationId = params.conversationId as string;
   const matchId = params.matchId as string; // User ID we want to chat with (from profile)
@@ -250,7 +254,7 @@ export default function ChatScreen() {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [messageText, setMessageText] = useState('');
-  const [otherUser, setOtherUser] = useState<{id: string, name: string, photo: string, matchTimestamp?: any}>({
+  const [otherUser, setOtherUser] = useState<{id: string, name: string, photo: string}>({
     id: '',
     name: 'User',
     photo: ''
@@ -262,6 +266,8 @@ export default function ChatScreen() {
   const [isScreenLoading, setIsScreenLoading] = useState(false);
   const [isReportModalVisible, setIsReportModalVisible] = useState(false); // State for report modal
   const [reportReason, setReportReason] = useState(''); // State for report reason text
+  const [isSendingPhoto, setIsSendingPhoto] = useState(false);
+  const [viewerImage, setViewerImage] = useState<MessageImage | null>(null); // Photo open full screen
   
   // Cache reference
   const cachedConversationId = useRef<string | null>(null);
@@ -274,6 +280,32 @@ export default function ChatScreen() {
     loadMoreMessages 
   } = useMessages(conversation, user);
   
+  // Suppress message pushes for this chat while it's on screen
+  useActiveConversation(user?.uid, conversation?.id);
+  
+  // The other person's presence and typing state for the header
+  const otherPresence = useUsersPresence(otherUser.id ? [otherUser.id] : [])[otherUser.id];
+  const { isOtherTyping, onTextChange, stopTyping } = useTypingIndicator(
+    user?.uid,
+    conversation?.id,
+    otherUser.id || undefined
+  );
+  // Our latest message the other person has read, which gets the "Seen" label
+  const otherLastReadAt = otherUser.id ? conversation?.lastReadAt?.[otherUser.id] : undefined;
+  const seenMessage = useMemo(() => {
+    if (!user || !otherLastReadAt) return null;
+    const readUntil = otherLastReadAt.toMillis();
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.senderId === user.uid && message.timestamp && message.timestamp.toMillis() <= readUntil) {
+        return message;
+      }
+    }
+    return null;
+  }, [messages, otherLastReadAt, user]);
+  
+  const headerStatus = isOtherTyping ? 'typing…' : otherPresence ? formatPresence(otherPresence) : null;
+  
   // Clean up listeners on unmount
   useEffect(() => {
     return () => {
@@ -317,121 +349,16 @@ export default function ChatScreen() {
     };
     
     initializeChat();
-    
-    // Clean up on unmount
-    return () => {
-      if (cachedConversationId.current) {
-        // Store last read time in AsyncStorage to reduce unnecessary reads
-        const lastReadKey = `lastRead_${cachedConversationId.current}_${user.uid}`;
-        AsyncStorage.setItem(lastReadKey, new Date().toISOString());
-      }
-    };
   }, [user, conversationId, matchId]);
   
-  // Find existing conversation or create a new one
+  // Open the conversation with a match, creating it and marking the match as
+  // opened if needed
   const findOrCreateConversation = async (otherUserId: string) => {
     if (!user) return null;
     
     try {
-      // Check cache first
-      const cacheKey = `conversation_${user.uid}_${otherUserId}`;
-      const cachedData = await AsyncStorage.getItem(cacheKey);
-      
-      if (cachedData) {
-        const { conversationId, timestamp } = JSON.parse(cachedData);
-        const cacheAge = Date.now() - timestamp;
-        
-        if (cacheAge < CACHE_EXPIRY) {
-          return conversationId;
-        }
-      }
-      
-      // Check if conversation already exists
-      const conversationsRef = collection(db, 'conversations');
-      const q = query(
-        conversationsRef,
-        where('participants', 'array-contains', user.uid)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      let existingConversationId: string | null = null;
-      
-      querySnapshot.forEach((docSnapshot) => {
-        const data = docSnapshot.data();
-        if (data.participants && data.participants.includes(otherUserId)) {
-          existingConversationId = docSnapshot.id;
-        }
-      });
-      
-      if (existingConversationId) {
-        // Update cache
-        await AsyncStorage.setItem(cacheKey, JSON.stringify({
-          conversationId: existingConversationId,
-          timestamp: Date.now()
-        }));
-        return existingConversationId;
-      }
-      
-      // Get user information for both participants
-      const userDoc = await getDoc(doc(db, 'users', user.uid));
-      const otherUserDoc = await getDoc(doc(db, 'users', otherUserId));
-      
-      if (!userDoc.exists() || !otherUserDoc.exists()) {
-        console.error('Could not find user information');
-        return null;
-      }
-      
-      const userData = userDoc.data().profile || {};
-      const otherUserData = otherUserDoc.data().profile || {};
-      
-      // Create batch for more efficient writes
-      const batch = writeBatch(db);
-      
-      // Create new conversation
-      const newConversationRef = doc(collection(db, 'conversations'));
-      const now = Timestamp.now();
-      const conversationData = {
-        participants: [user.uid, otherUserId],
-        participantNames: {
-          [user.uid]: userData.displayName || 'You',
-          [otherUserId]: otherUserData.displayName || 'User'
-        },
-        participantPhotos: {
-          [user.uid]: userData.profilePic || '',
-          [otherUserId]: otherUserData.profilePic || ''
-        },
-        lastMessage: {
-          text: 'Start a conversation!',
-          timestamp: now
-        },
-        lastMessageTimestamp: now,
-        createdAt: now,
-        unreadCount: {
-          [user.uid]: 0,
-          [otherUserId]: 0
-        },
-        messageCount: 0,
-        currentBatchId: null,
-        archives: [],
-        archivedMessages: 0
-      };
-      
-      // Set the conversation document
-      batch.set(newConversationRef, conversationData);
-      
-      // Commit the batch
-      await batch.commit();
-      
-      // Update chattingWith status for both users
-      await updateChattingWithStatus(otherUserId);
-      
-      // Update cache
-      await AsyncStorage.setItem(cacheKey, JSON.stringify({
-        conversationId: newConversationRef.id,
-        timestamp: Date.now()
-      }));
-      
-      return newConversationRef.id;
+      const { conversationId } = await openConversation(otherUserId);
+      return conversationId;
     } catch (error) {
       console.error('Error finding or creating conversation:', error);
       return null;
@@ -455,20 +382,15 @@ export default function ChatScreen() {
           
           // Set other user's information
           const otherParticipantId = conversationData.participants.find(p => p !== user.uid) || '';
-          // Find the correct match timestamp from the context
-          const matchInfo = matches.find(m => m.userId === otherParticipantId);
           
           setOtherUser({
             id: otherParticipantId,
             name: conversationData.participantNames[otherParticipantId] || 'User',
-            photo: conversationData.participantPhotos[otherParticipantId] || '',
-            // Use the timestamp from the match context
-            matchTimestamp: matchInfo?.matchTimestamp || conversationData.createdAt || null // Fallback to conversation creation time if match not found
+            photo: conversationData.participantPhotos[otherParticipantId] || ''
           });
           
-          // Mark messages as read if needed
-          const unreadCount = conversationData.unreadCount?.[user.uid] || 0;
-          if (unreadCount > 0) {
+          // Move our read cursor up to the latest message if needed
+          if (getUnreadCount(conversationData, user.uid) > 0) {
             markMessagesAsRead(id);
           }
         }
@@ -486,145 +408,80 @@ export default function ChatScreen() {
     }
   };
   
-  // Mark messages as read
+  // Mark messages as read. The server moves our read cursor, which is what
+  // the other person's "Seen" and our unread count in the inbox go by
   const markMessagesAsRead = async (convId: string) => {
     if (!user) return;
     
     try {
-      // Just update the unread count in conversation document
-      await updateDoc(doc(db, 'conversations', convId), {
-        [`unreadCount.${user.uid}`]: 0
-      });
-      
-      // Store last read time in AsyncStorage
-      const lastReadKey = `lastRead_${convId}_${user.uid}`;
-      await AsyncStorage.setItem(lastReadKey, new Date().toISOString());
+      await markConversationRead(convId);
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
   };
   
-  // Send a message
+  // Send a message. The server picks the batch, stamps the time and bumps the
+  // counters, so both people sending at once can't clash over a batch
+  const deliverMessage = async (payload: { type: MessageType; text: string; image?: MessageImage }) => {
+    if (!conversation) return;
+    
+    const result = await httpsCallable(getFunctions(), 'sendMessage')({
+      conversationId: conversation.id,
+      ...payload
+    });
+    const stored = (result.data as SendMessageResult).message;
+    
+    // Show the stored message right away; the conversation listener
+    // picks up the new counters
+    addMessage({
+      ...stored,
+      timestamp: Timestamp.fromMillis(stored.timestamp)
+    });
+  };
+  
   const sendMessage = async () => {
     if (!user || !conversation || !messageText.trim()) return;
     
+    const messageText_cleaned = messageText.trim();
+    setMessageText(''); // Clear input field immediately for better UX
+    stopTyping();
+    
     try {
-      const messageText_cleaned = messageText.trim();
-      setMessageText(''); // Clear input field immediately for better UX
-      
-      // Get the other participant
-      const otherParticipant = conversation.participants.find(p => p !== user.uid) || '';
-      
-      // Get or create a message batch
-      const now = Timestamp.now();
-      let currentBatchId = conversation.currentBatchId;
-      let messageCount = conversation.messageCount || 0;
-      let shouldCreateNewBatch = false;
-      
-      // Check if we need to create a new batch
-      if (!currentBatchId || messageCount % MESSAGE_BATCH_SIZE === 0) {
-        shouldCreateNewBatch = true;
-        currentBatchId = doc(collection(db, `conversations/${conversation.id}/messageBatches`)).id;
-      }
-      
-      // Create the message object
-      const newMessage: Message = {
-        senderId: user.uid,
-        senderName: conversation.participantNames[user.uid],
-        text: messageText_cleaned,
-        timestamp: now,
-        read: false
-      };
-      
-      // Create a batch write for efficiency
-      const batch = writeBatch(db);
-      
-      // Update local state first for immediate feedback - before the async Firestore operation
-      addMessage(newMessage);
-      
-      // Update local conversation state to prevent reload
-      setConversation(prev => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          currentBatchId: currentBatchId,
-          messageCount: (prev.messageCount || 0) + 1,
-          lastMessage: {
-            text: messageText_cleaned,
-            timestamp: now
-          },
-          lastMessageTimestamp: now,
-          unreadCount: {
-            ...prev.unreadCount,
-            [otherParticipant]: (prev.unreadCount?.[otherParticipant] || 0) + 1
-          }
-        };
-      });
-      
-      if (shouldCreateNewBatch) {
-        // Create a new message batch
-        const batchRef = doc(db, `conversations/${conversation.id}/messageBatches`, currentBatchId);
-        batch.set(batchRef, {
-          messages: [newMessage],
-          startTime: now,
-          endTime: now
-        });
-        
-        // Update conversation with new batch ID
-        batch.update(doc(db, 'conversations', conversation.id), {
-          currentBatchId: currentBatchId,
-          messageCount: increment(1),
-          lastMessage: {
-            text: messageText_cleaned,
-            timestamp: now
-          },
-          lastMessageTimestamp: now,
-          [`unreadCount.${otherParticipant}`]: increment(1)
-        });
-      } else {
-        // Update existing batch
-        const batchRef = doc(db, `conversations/${conversation.id}/messageBatches`, currentBatchId);
-        batch.update(batchRef, {
-          messages: arrayUnion(newMessage),
-          endTime: now
-        });
-        
-        // Update conversation
-        batch.update(doc(db, 'conversations', conversation.id), {
-          messageCount: increment(1),
-          lastMessage: {
-            text: messageText_cleaned,
-            timestamp: now
-          },
-          lastMessageTimestamp: now,
-          [`unreadCount.${otherParticipant}`]: increment(1)
-        });
-      }
-      
-      // Commit the batch in the background
-      await batch.commit();
-    } catch (error) {
+      await deliverMessage({ type: 'text', text: messageText_cleaned });
+    } catch (error: any) {
       console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message. Please try again.');
+      setMessageText(messageText_cleaned); // Give the text back so it can be resent
+      Alert.alert('Error', error?.message || 'Failed to send message. Please try again.');
     }
   };
   
-  // Check if match is less than 24 hours old
-  const isNewMatch = () => {
-    if (!otherUser?.matchTimestamp) return false;
+  // Pick a photo, upload it to the conversation's folder and send it
+  const sendPhoto = async () => {
+    if (!user || !conversation || isSendingPhoto) return;
     
-    // Convert Firestore timestamp to Date if necessary
-    const matchDate = otherUser.matchTimestamp.toDate ? 
-      otherUser.matchTimestamp.toDate() : 
-      new Date(otherUser.matchTimestamp);
-    
-    const now = new Date();
-    const timeDiff = now.getTime() - matchDate.getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
-    
-    return hoursDiff < 24;
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets?.[0]?.uri) return;
+      
+      setIsSendingPhoto(true);
+      const image = await uploadChatImage(result.assets[0].uri, conversation.id);
+      await deliverMessage({ type: 'image', text: '', image });
+    } catch (error: any) {
+      console.error('Error sending photo:', error);
+      Alert.alert('Error', error?.message || 'Failed to send photo. Please try again.');
+    } finally {
+      setIsSendingPhoto(false);
+    }
   };
   
+  // Photos unlock on the server, possibly while the chat is open, so read the
+  // live match entry; while locked it only holds a blurred photo
+  const otherUserMatch = matches.find(match => match.userId === otherUser.id);
+  const isOtherPhotoLocked = isPhotoLocked(otherUserMatch);
+  
   // Format message timestamp
   const formatMessageTime = (timestamp: Timestamp) => {
     const date = timestamp.toDate();
@@ -655,6 +512,7 @@ export default function ChatScreen() {
     // Ensure we're only rendering string text
     const messageText = typeof item.text === 'string' ? item.text : 'Message unavailable';
     const timeString = item.timestamp ? formatMessageTime(item.timestamp) : '';
+    const image = item.type === 'image' ? item.image : undefined;
     
     return (
       <View style={[
@@ -663,20 +521,35 @@ export default function ChatScreen() {
       ]}>
         <View style={[
           styles.messageBubble,
-          isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble
+          isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble,
+          image && styles.photoMessageBubble
         ]}>
-          <Text style={[
-            styles.messageText,
-            isOwnMessage ? styles.ownMessageText : styles.otherMessageText
-          ]}>
-            {messageText}
-          </Text>
+          {image && (
+            <TouchableOpacity onPress={() => setViewerImage(image)} activeOpacity={0.9}>
+              <ExpoImage
+                source={{ uri: image.url }}
+                placeholder={image.blurhash ? { blurhash: image.blurhash } : undefined}
+                style={[styles.photoMessage, { aspectRatio: image.width / image.height }]}
+                contentFit="cover"
+                transition={200}
+              />
+            </TouchableOpacity>
+          )}
+          {(!image || messageText !== '') && (
+            <Text style={[
+              styles.messageText,
+              isOwnMessage ? styles.ownMessageText : styles.otherMessageText,
+              image && styles.photoCaption
+            ]}>
+              {messageText}
+            </Text>
+          )}
         </View>
         <Text style={[
           styles.messageTime,
           !isOwnMessage && styles.otherMessageTime // Apply left alignment for other user's time
         ]}>
-          {timeString}
+          {item === seenMessage ? `${timeString} · Seen` : timeString}
         </Text>
       </View>
     );
@@ -841,6 +714,11 @@ export default function ChatScreen() {
                     userId: otherUser.id,
                     matchLevel: matchData.matchLevel,
                     favoriteShows: matchData.favoriteShowIds ? matchData.favoriteShowIds.join(',') : '',
+                    photoLocked: isPhotoLocked(matchData) ? 'true' : 'false',
+                    ...(matchData.commonShowIds && {
+                      commonShows: matchData.commonShowIds.join(','),
+                      sharedGenres: (matchData.sharedGenreIds || []).join(',')
+                    }),
                     matchTimestamp: matchData.matchTimestamp ? 
                       matchData.matchTimestamp.toDate ? 
                       matchData.matchTimestamp.toDate().toISOString() : 
@@ -853,33 +731,34 @@ export default function ChatScreen() {
                   try {
                     if (!user) return;
                     
-                    const userDoc = await getDoc(doc(db, 'users', user.uid));
-                    if (userDoc.exists()) {
-                      const userMatches = userDoc.data().matches || [];
-                      // Find the match with otherUser.id, including those with chattingWith=true
-                      const userData = userMatches.find((m: any) => m.userId === otherUser.id);
-                      
-                      if (userData) {
-                        router.push({
-                          pathname: '/(common)/userProfile',
-                          params: { 
-                            userId: otherUser.id,
-                            matchLevel: userData.matchLevel,
+                    // The match may be older than the page loaded into context
+                    const matchDoc = await getDoc(doc(db, 'users', user.uid, 'matches', otherUser.id));
+                    const userData = matchDoc.exists() ? matchDoc.data() : null;
+                    
+                    if (userData) {
+                      router.push({
+                        pathname: '/(common)/userProfile',
+                        params: { 
+                          userId: otherUser.id,
+                          matchLevel: userData.matchLevel,
+                          ...(userData.commonShowIds && {
                             commonShows: userData.commonShowIds.join(','),
-                            favoriteShows: userData.favoriteShowIds ? userData.favoriteShowIds.join(',') : '',
-                            matchTimestamp: userData.matchTimestamp ? 
-                              userData.matchTimestamp.toDate ? 
-                              userData.matchTimestamp.toDate().toISOString() : 
-                              userData.matchTimestamp.toString() : ''
-                          }
-                        });
-                      } else {
-                        // Fallback if no match data found at all
-                        router.push({
-                          pathname: '/(common)/userProfile',
-                          params: { userId: otherUser.id }
-                        });
-                      }
+                            sharedGenres: (userData.sharedGenreIds || []).join(',')
+                          }),
+                          favoriteShows: userData.favoriteShowIds ? userData.favoriteShowIds.join(',') : '',
+                          photoLocked: userData.photoUnlocked === false ? 'true' : 'false',
+                          matchTimestamp: userData.matchTimestamp ? 
+                            userData.matchTimestamp.toDate ? 
+                            userData.matchTimestamp.toDate().toISOString() : 
+                            userData.matchTimestamp.toString() : ''
+                        }
+                      });
+                    } else {
+                      // Fallback if no match data found at all
+                      router.push({
+                        pathname: '/(common)/userProfile',
+                        params: { userId: otherUser.id }
+                      });
                     }
                   } catch (error) {
                     console.error('Error fetching match data:', error);
@@ -896,15 +775,15 @@ export default function ChatScreen() {
           }}
         >
           <View style={styles.avatarContainer}>
-            {isNewMatch() ? (
+            {isOtherPhotoLocked ? (
               <View style={styles.avatarBlurContainer}>
                 <Image 
-                  source={{ uri: otherUser.photo || 'https://via.placeholder.com/40' }} 
+                  source={{ uri: otherUserMatch?.profilePic || 'https://via.placeholder.com/40' }} 
                   style={[styles.avatar,]}
                   blurRadius={40}
                 />
                 <View style={styles.blurBadgeContainer}>
-                  <Text style={styles.blurBadgeText}>24h</Text>
+                  <Ionicons name="lock-closed" size={10} color="#FFF" />
                 </View>
               </View>
             ) : (
@@ -914,7 +793,14 @@ export default function ChatScreen() {
               />
             )}
           </View>
-          <Text style={styles.userName}>{otherUser.name}</Text>
+          <View style={styles.userNameContainer}>
+            <Text style={styles.userName}>{otherUser.name}</Text>
+            {headerStatus && (
+              <Text style={[styles.userStatus, isOtherTyping && styles.userStatusTyping]}>
+                {headerStatus}
+              </Text>
+            )}
+          </View>
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -944,11 +830,26 @@ export default function ChatScreen() {
         
         {/* Message input */}
         <View style={styles.inputContainer}>
+          <TouchableOpacity 
+            style={styles.photoButton}
+            onPress={sendPhoto}
+            disabled={isSendingPhoto}
+          >
+            {isSendingPhoto ? (
+              <ActivityIndicator size="small" color={COLORS.secondary} />
+            ) : (
+              <Ionicons name="image-outline" size={24} color={COLORS.secondary} />
+            )}
+          </TouchableOpacity>
           <TextInput
             style={styles.input}
             placeholder="Type a message..."
             value={messageText}
-            onChangeText={setMessageText}
+            onChangeText={(text) => {
+              setMessageText(text);
+              onTextChange(text);
+            }}
+            maxLength={MAX_MESSAGE_LENGTH}
             multiline
           />
           <TouchableOpacity 
@@ -1062,6 +963,30 @@ export default function ChatScreen() {
           </View>
         </KeyboardAvoidingView>
       </Modal>
+
+      {/* Full Screen Photo Viewer */}
+      <Modal
+        animationType="fade"
+        visible={viewerImage !== null}
+        onRequestClose={() => setViewerImage(null)}
+      >
+        <View style={styles.photoViewerOverlay}>
+          {viewerImage && (
+            <ExpoImage
+              source={{ uri: viewerImage.url }}
+              placeholder={viewerImage.blurhash ? { blurhash: viewerImage.blurhash } : undefined}
+              style={styles.photoViewerImage}
+              contentFit="contain"
+            />
+          )}
+          <TouchableOpacity 
+            style={styles.photoViewerCloseButton}
+            onPress={() => setViewerImage(null)}
+          >
+            <Ionicons name="close" size={30} color="#FFF" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -1136,17 +1061,23 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     backgroundColor: 'rgba(0,0,0,0.7)',
   },
-  blurBadgeText: {
-    fontSize: 12,
-    fontWeight: 'bold',
-    color: '#fff',
+  userNameContainer: {
+    marginLeft: 12,
   },
   userName: {
     fontSize: 18,
     fontWeight: '600',
-    marginLeft: 12,
     color: '#333',
   },
+  userStatus: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 1,
+  },
+  userStatusTyping: {
+    color: COLORS.secondary,
+    fontStyle: 'italic',
+  },
   optionsButton: {
     padding: 8,
     marginLeft: 10,
@@ -1225,6 +1156,41 @@ const styles = StyleSheet.create({
   disabledSendButton: {
     opacity: 0.5,
   },
+  photoButton: {
+    width: 36,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  photoMessageBubble: {
+    padding: 4,
+    overflow: 'hidden',
+  },
+  photoMessage: {
+    width: PHOTO_MESSAGE_WIDTH,
+    maxHeight: PHOTO_MESSAGE_WIDTH * 1.5,
+    borderRadius: 14,
+  },
+  photoCaption: {
+    paddingHorizontal: 8,
+    paddingTop: 6,
+    paddingBottom: 4,
+    maxWidth: PHOTO_MESSAGE_WIDTH,
+  },
+  photoViewerOverlay: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  photoViewerImage: {
+    flex: 1,
+  },
+  photoViewerCloseButton: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 60 : 30,
+    right: 20,
+    padding: 8,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.4)',
@@ -24,8 +24,17 @@ import { COLORS } from '../../constants/Colors';
 import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
 import { uploadImage } from '../../config/cloudinaryConfig';
+import { getProfilePhotos, ProfilePhotos, saveProfilePhotos } from '../../utils/photoUnlock';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import Toast from 'react-native-toast-message';
+import {
+  CoarseLocation,
+  DEFAULT_MATCH_DISTANCE_KM,
+  MATCH_DISTANCE_OPTIONS_KM,
+  getCoarseDeviceLocation,
+  parseAgeLimit,
+  validateAgeRange,
+} from '../../utils/matchPreferences';
 
 // Define interface for function result data
 interface DeleteAccountResult {
@@ -43,6 +52,10 @@ interface ProfileFormData {
   gender: string;
   matchWith: string;
   matchLocation: string;
+  matchAgeMin: string;
+  matchAgeMax: string;
+  matchDistanceKm: number;
+  coarseLocation: CoarseLocation | null;
   relationshipStatus: string;
   bio?: string;
   profilePic: string;
@@ -64,6 +77,10 @@ export default function EditProfileScreen() {
     gender: 'male',
     matchWith: 'everyone',
     matchLocation: 'local',
+    matchAgeMin: '',
+    matchAgeMax: '',
+    matchDistanceKm: DEFAULT_MATCH_DISTANCE_KM,
+    coarseLocation: null,
     relationshipStatus: 'single',
     bio: '',
     profilePic: '',
@@ -76,6 +93,8 @@ export default function EditProfileScreen() {
   
   // For profile picture upload
   const [profilePicUrl, setProfilePicUrl] = useState<string | null>(null);
+  // The real photos as stored in the private doc, null until they've been moved there
+  const [savedPhotos, setSavedPhotos] = useState<ProfilePhotos | null>(null);
   const [additionalPics, setAdditionalPics] = useState<string[]>([]);
   
   // For Delete Account Modal
@@ -83,6 +102,9 @@ export default function EditProfileScreen() {
   const [deleteConfirmationText, setDeleteConfirmationText] = useState('');
   const [isDeleting, setIsDeleting] = useState(false); // Separate loading state for deletion
   
+  // For sharing approximate location
+  const [isLocating, setIsLocating] = useState(false);
+  
   
   // Fetch current profile data
   useEffect(() => {
@@ -95,6 +117,12 @@ export default function EditProfileScreen() {
         
         if (userDoc.exists() && userDoc.data().profile) {
           const profile = userDoc.data().profile;
+          // The profile only holds blurred copies once the photos are private
+          const privatePhotos = await getProfilePhotos(user.uid);
+          const profilePic = privatePhotos ? privatePhotos.profilePic : profile.profilePic || '';
+          const existingAdditionalPics: string[] = privatePhotos
+            ? privatePhotos.additionalPics
+            : profile.additionalPics || [];
           
           setProfileData({
             displayName: profile.displayName || '',
@@ -103,18 +131,23 @@ export default function EditProfileScreen() {
             gender: profile.gender || 'male',
             matchWith: profile.matchWith || 'everyone',
             matchLocation: profile.matchLocation || 'local',
+            matchAgeMin: profile.matchAgeMin ? String(profile.matchAgeMin) : '',
+            matchAgeMax: profile.matchAgeMax ? String(profile.matchAgeMax) : '',
+            matchDistanceKm: profile.matchDistanceKm || DEFAULT_MATCH_DISTANCE_KM,
+            coarseLocation: profile.coarseLocation || null,
             relationshipStatus: profile.relationshipStatus || 'single',
             bio: profile.bio || '',
-            profilePic: profile.profilePic || '',
-            additionalPics: profile.additionalPics || [],
+            profilePic,
+            additionalPics: existingAdditionalPics,
             favoriteMovie: profile.favoriteMovie || '',
             favoriteBand: profile.favoriteBand || '',
             favoriteAnime: profile.favoriteAnime || '',
             favoriteKdrama: profile.favoriteKdrama || ''
           });
           
-          setProfilePicUrl(profile.profilePic);
-          setAdditionalPics(profile.additionalPics || []);
+          setProfilePicUrl(profilePic || null);
+          setSavedPhotos(privatePhotos);
+          setAdditionalPics(existingAdditionalPics);
         }
       } catch (error) {
         console.error('Error fetching profile data:', error);
@@ -242,6 +275,42 @@ export default function EditProfileScreen() {
     Haptics.selectionAsync();
   };
   
+  // Handle matching radius selection
+  const handleDistanceSelect = (distanceKm: number) => {
+    setProfileData(prev => ({
+      ...prev,
+      matchDistanceKm: distanceKm
+    }));
+    
+    Haptics.selectionAsync();
+  };
+  
+  // Handle sharing or clearing the approximate location used for local matches
+  const handleToggleCoarseLocation = async () => {
+    if (profileData.coarseLocation) {
+      setProfileData(prev => ({ ...prev, coarseLocation: null }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+    
+    setIsLocating(true);
+    try {
+      const coarseLocation = await getCoarseDeviceLocation();
+      if (!coarseLocation) {
+        Alert.alert('Location Unavailable', 'Allow location access to match with people near you.');
+        return;
+      }
+      
+      setProfileData(prev => ({ ...prev, coarseLocation }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error getting location:', error);
+      Alert.alert('Error', 'Failed to get your location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+  
   // Handle text input changes
   const handleInputChange = (field: string, value: string) => {
     setProfileData(prev => ({
@@ -275,6 +344,12 @@ export default function EditProfileScreen() {
       return;
     }
     
+    const ageRangeError = validateAgeRange(profileData.matchAgeMin, profileData.matchAgeMax);
+    if (ageRangeError) {
+      Alert.alert('Error', ageRangeError);
+      return;
+    }
+    
     setIsSaving(true);
     
     try {
@@ -287,16 +362,41 @@ export default function EditProfileScreen() {
         userDoc.data().profile.favoriteShows
           ? userDoc.data().profile.favoriteShows
           : [];
+      // Notification settings are edited on their own screen
+      const existingNotificationSettings = userDoc.exists()
+        ? userDoc.data().profile?.notificationSettings
+        : undefined;
+      // The profile's photos are the blurred copies the server keeps in sync
+      const existingProfilePic = userDoc.exists()
+        ? userDoc.data().profile?.profilePic || ''
+        : '';
+      const existingAdditionalPics = userDoc.exists()
+        ? userDoc.data().profile?.additionalPics || []
+        : [];
       
       // Update profile data in Firestore
       await updateDoc(userRef, {
         profile: {
           ...profileData,
+          profilePic: existingProfilePic,
+          additionalPics: existingAdditionalPics,
+          matchAgeMin: parseAgeLimit(profileData.matchAgeMin),
+          matchAgeMax: parseAgeLimit(profileData.matchAgeMax),
           favoriteShows: existingFavoriteShows,
+          ...(existingNotificationSettings && { notificationSettings: existingNotificationSettings }),
         },
         updatedAt: Timestamp.now(),
         profileCompleted: true
       });
+      const photos = { profilePic: profileData.profilePic, additionalPics: profileData.additionalPics };
+      if (
+        !savedPhotos ||
+        photos.profilePic !== savedPhotos.profilePic ||
+        photos.additionalPics.join() !== savedPhotos.additionalPics.join()
+      ) {
+        await saveProfilePhotos(user.uid, photos);
+        setSavedPhotos(photos);
+      }
       
       // Navigate back to profile screen
       Alert.alert('Success', 'Profile updated successfully', [
@@ -587,6 +687,30 @@ export default function EditProfileScreen() {
             </View>
           </View>
           
+          {/* Age Range Selection */}
+          <View style={styles.optionContainer}>
+            <Text style={styles.optionLabel}>Age Range</Text>
+            <View style={styles.ageRangeContainer}>
+              <TextInput
+                style={[styles.textInput, styles.ageRangeInput]}
+                value={profileData.matchAgeMin}
+                onChangeText={(text) => handleInputChange('matchAgeMin', text)}
+                placeholder="From (any)"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+              />
+              <Text style={styles.ageRangeSeparator}>to</Text>
+              <TextInput
+                style={[styles.textInput, styles.ageRangeInput]}
+                value={profileData.matchAgeMax}
+                onChangeText={(text) => handleInputChange('matchAgeMax', text)}
+                placeholder="To (any)"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+          
           {/* Match Location Selection */}
           <View style={styles.optionContainer}>
             <Text style={styles.optionLabel}>Match Preference</Text>
@@ -627,6 +751,62 @@ export default function EditProfileScreen() {
             </View>
           </View>
           
+          {/* Local Match Radius */}
+          {profileData.matchLocation === 'local' && (
+            <View style={styles.optionContainer}>
+              <Text style={styles.optionLabel}>Distance</Text>
+              <View style={styles.optionButtonsContainer}>
+                {MATCH_DISTANCE_OPTIONS_KM.map((distanceKm) => (
+                  <TouchableOpacity
+                    key={distanceKm}
+                    style={[
+                      styles.optionButton,
+                      profileData.matchDistanceKm === distanceKm && styles.optionButtonSelected
+                    ]}
+                    onPress={() => handleDistanceSelect(distanceKm)}
+                  >
+                    <Text 
+                      style={[
+                        styles.optionButtonText,
+                        profileData.matchDistanceKm === distanceKm && styles.optionButtonTextSelected
+                      ]}
+                    >
+                      {distanceKm} km
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <TouchableOpacity
+                style={[
+                  styles.optionButton,
+                  styles.locationButton,
+                  profileData.coarseLocation && styles.optionButtonSelected
+                ]}
+                onPress={handleToggleCoarseLocation}
+                disabled={isLocating}
+              >
+                {isLocating ? (
+                  <ActivityIndicator size="small" color={COLORS.secondary} />
+                ) : (
+                  <Text 
+                    style={[
+                      styles.optionButtonText,
+                      profileData.coarseLocation && styles.optionButtonTextSelected
+                    ]}
+                  >
+                    {profileData.coarseLocation ? 'Approximate location shared' : 'Share approximate location'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+              <Text style={styles.optionHint}>
+                {profileData.coarseLocation
+                  ? 'Tap to stop sharing. Only a rough area is saved, never your exact position.'
+                  : 'Without a location, local matches are limited to your country.'}
+              </Text>
+            </View>
+          )}
+          
           {/* Relationship Status Selection */}
           <View style={styles.optionContainer}>
             <Text style={styles.optionLabel}>Relationship Status</Text>
@@ -1013,6 +1193,26 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     flexWrap: 'wrap',
   },
+  ageRangeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  locationButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  optionHint: {
+    fontSize: 12,
+    color: '#888',
+  },
+  ageRangeInput: {
+    flex: 1,
+  },
+  ageRangeSeparator: {
+    marginHorizontal: 10,
+    fontSize: 14,
+    color: '#666',
+  },
   optionButton: {
     paddingHorizontal: 16,
     paddingVertical: 10,
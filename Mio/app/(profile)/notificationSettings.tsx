@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  StatusBar
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { doc, getDoc } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { useAuth } from '../../context/AuthContext';
+import { db } from '../../config/firebaseConfig';
+import { COLORS } from '../../constants/Colors';
+import {
+  NotificationSettings,
+  NotificationToggle,
+  formatQuietHour,
+  getDeviceTimeZone,
+  normalizeNotificationSettings,
+  shiftQuietHour,
+} from '../../utils/notificationSettings';
+
+const CATEGORY_TOGGLES: { field: NotificationToggle; title: string; description: string }[] = [
+  { field: 'matchNotifications', title: 'New matches', description: 'When you match with someone' },
+  { field: 'superMatchNotifications', title: 'Super matches', description: 'When you have a lot in common with a new match' },
+  { field: 'messageNotifications', title: 'Messages', description: 'When someone sends you a message' },
+  { field: 'matchExpiryNotifications', title: 'Expiring matches', description: 'A day before an unopened match expires' },
+  { field: 'announcementNotifications', title: 'Announcements', description: 'News and updates from the Mio team' },
+];
+
+export default function NotificationSettingsScreen() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the saved settings, falling back to the defaults
+  useEffect(() => {
+    if (!user) return;
+
+    getDoc(doc(db, 'users', user.uid))
+      .then(userDoc => {
+        setSettings(normalizeNotificationSettings(userDoc.data()?.profile?.notificationSettings));
+      })
+      .catch(error => {
+        console.error('Error loading notification settings:', error);
+        setSettings(normalizeNotificationSettings(undefined));
+      });
+  }, [user]);
+
+  // Save right away, going back to the previous settings if that fails
+  const saveSettings = async (updated: NotificationSettings) => {
+    const previous = settings;
+    const withTimeZone = {
+      ...updated,
+      quietHours: { ...updated.quietHours, timeZone: getDeviceTimeZone() },
+    };
+    setSettings(withTimeZone);
+    setIsSaving(true);
+
+    try {
+      const callUpdateSettings = httpsCallable(getFunctions(), 'updateNotificationSettings');
+      await callUpdateSettings(withTimeZone);
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setSettings(previous);
+      Alert.alert('Error', 'Failed to save notification settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleCategory = (field: NotificationToggle, value: boolean) => {
+    if (!settings) return;
+    saveSettings({ ...settings, [field]: value });
+  };
+
+  const updateQuietHours = (changes: Partial<NotificationSettings['quietHours']>) => {
+    if (!settings) return;
+    saveSettings({ ...settings, quietHours: { ...settings.quietHours, ...changes } });
+  };
+
+  // Boundaries move an hour at a time and can't land on the other boundary
+  const shiftBoundary = (boundary: 'start' | 'end', hours: number) => {
+    if (!settings) return;
+    const other = boundary === 'start' ? settings.quietHours.end : settings.quietHours.start;
+    let shifted = shiftQuietHour(settings.quietHours[boundary], hours);
+    if (shifted === other) {
+      shifted = shiftQuietHour(shifted, hours);
+    }
+    updateQuietHours({ [boundary]: shifted });
+  };
+
+  const renderBoundary = (boundary: 'start' | 'end', label: string, time: string) => (
+    <View style={styles.timeRow}>
+      <Text style={styles.timeLabel}>{label}</Text>
+      <View style={styles.timeStepper}>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => shiftBoundary(boundary, -1)}
+          disabled={isSaving}
+        >
+          <Ionicons name="chevron-back" size={20} color={COLORS.secondary} />
+        </TouchableOpacity>
+        <Text style={styles.timeValue}>{formatQuietHour(time)}</Text>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => shiftBoundary(boundary, 1)}
+          disabled={isSaving}
+        >
+          <Ionicons name="chevron-forward" size={20} color={COLORS.secondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        <View style={styles.headerRight}>
+          {isSaving && <ActivityIndicator size="small" color={COLORS.secondary} />}
+        </View>
+      </View>
+
+      {!settings ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Push Notifications</Text>
+          <Text style={styles.sectionSubtitle}>Everything still shows up in your activity feed</Text>
+          {CATEGORY_TOGGLES.map(({ field, title, description }) => (
+            <View key={field} style={styles.settingRow}>
+              <View style={styles.settingText}>
+                <Text style={styles.settingTitle}>{title}</Text>
+                <Text style={styles.settingDescription}>{description}</Text>
+              </View>
+              <Switch
+                value={settings[field]}
+                onValueChange={(value) => toggleCategory(field, value)}
+                trackColor={{ false: '#DDD', true: COLORS.secondary }}
+                disabled={isSaving}
+              />
+            </View>
+          ))}
+
+          <Text style={[styles.sectionTitle, styles.quietHoursTitle]}>Quiet Hours</Text>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingTitle}>Pause notifications</Text>
+              <Text style={styles.settingDescription}>
+                Notifications wait until quiet hours end. Message notifications are skipped
+              </Text>
+            </View>
+            <Switch
+              value={settings.quietHours.enabled}
+              onValueChange={(enabled) => updateQuietHours({ enabled })}
+              trackColor={{ false: '#DDD', true: COLORS.secondary }}
+              disabled={isSaving}
+            />
+          </View>
+
+          {settings.quietHours.enabled && (
+            <>
+              {renderBoundary('start', 'From', settings.quietHours.start)}
+              {renderBoundary('end', 'Until', settings.quietHours.end)}
+              <Text style={styles.timeZoneText}>Times are in your time zone ({getDeviceTimeZone()})</Text>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    height: 56,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.secondary,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.secondary,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  quietHoursTitle: {
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  timeLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  timeStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepButton: {
+    padding: 8,
+  },
+  timeValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 80,
+    textAlign: 'center',
+  },
+  timeZoneText: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 4,
+  },
+});
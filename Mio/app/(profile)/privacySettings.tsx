@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  StatusBar
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { doc, getDoc } from 'firebase/firestore';
+import { useAuth } from '../../context/AuthContext';
+import { db } from '../../config/firebaseConfig';
+import { COLORS } from '../../constants/Colors';
+import { setHideLastSeen } from '../../utils/presence';
+
+export default function PrivacySettingsScreen() {
+  const { user } = useAuth();
+  const [hideLastSeen, setHideLastSeenState] = useState<boolean | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the saved setting; last seen is shown unless hidden
+  useEffect(() => {
+    if (!user) return;
+
+    getDoc(doc(db, 'presence', user.uid))
+      .then(presenceDoc => setHideLastSeenState(!!presenceDoc.data()?.hideLastSeen))
+      .catch(error => {
+        console.error('Error loading privacy settings:', error);
+        setHideLastSeenState(false);
+      });
+  }, [user]);
+
+  // Save right away, going back to the previous setting if that fails
+  const toggleHideLastSeen = async (value: boolean) => {
+    if (!user) return;
+    const previous = hideLastSeen;
+    setHideLastSeenState(value);
+    setIsSaving(true);
+
+    try {
+      await setHideLastSeen(user.uid, value);
+    } catch (error) {
+      console.error('Error saving privacy settings:', error);
+      setHideLastSeenState(previous);
+      Alert.alert('Error', 'Failed to save privacy settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFF" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Privacy</Text>
+        <View style={styles.headerRight}>
+          {isSaving && <ActivityIndicator size="small" color={COLORS.secondary} />}
+        </View>
+      </View>
+
+      {hideLastSeen === null ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Activity Status</Text>
+          <Text style={styles.sectionSubtitle}>Typing indicators are shown either way</Text>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingTitle}>Hide last seen</Text>
+              <Text style={styles.settingDescription}>
+                Your matches won't see when you're online or when you were last active
+              </Text>
+            </View>
+            <Switch
+              value={hideLastSeen}
+              onValueChange={toggleHideLastSeen}
+              trackColor={{ false: '#DDD', true: COLORS.secondary }}
+              disabled={isSaving}
+            />
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    height: 56,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.secondary,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.secondary,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+});
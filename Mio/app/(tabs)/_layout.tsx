@@ -2,13 +2,15 @@ import { View, Text, Image } from 'react-native'
 import React from 'react'
 import { Tabs } from 'expo-router'
 import { ImageSourcePropType } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
 
 // Import from constants
 import { icons } from '../../constants'
 import { COLORS } from '../../constants/Colors'
+import { useActivity } from '../../context/ActivityContext'
 
 interface TabIconProps {
-  icon: ImageSourcePropType;
+  icon: ImageSourcePropType | keyof typeof Ionicons.glyphMap; // Image asset or Ionicons name
   color: string;
   name: string;
   focused: boolean;
@@ -18,15 +20,19 @@ const TabIcon = ({ icon, color, name, focused }: TabIconProps) => {
   return (
     <View className={`items-center justify-center ${focused ? 'opacity-100' : 'opacity-70'}`} style={{ minWidth: 60 }}>
       <View style={{ height: 24, width: 24, alignItems: 'center', justifyContent: 'center' }}>
-        <Image 
-          source={icon}
-          style={{ 
-            width: 20, 
-            height: 20, 
-            tintColor: color 
-          }}
-          resizeMode="contain"
-        />
+        {typeof icon === 'string' ? (
+          <Ionicons name={icon} size={20} color={color} />
+        ) : (
+          <Image 
+            source={icon}
+            style={{ 
+              width: 20, 
+              height: 20, 
+              tintColor: color 
+            }}
+            resizeMode="contain"
+          />
+        )}
       </View>
       <Text 
         numberOfLines={1} 
@@ -40,6 +46,8 @@ const TabIcon = ({ icon, color, name, focused }: TabIconProps) => {
 }
 
 const TabsLayout = () => {
+  const { unreadCount } = useActivity();
+
   return (
     <Tabs
       initialRouteName="home"
@@ -68,6 +76,15 @@ const TabsLayout = () => {
           <TabIcon icon={icons.matched} color={color} name="Match" focused={focused} />
         )
       }} />
+      <Tabs.Screen name="activity" options={{
+        title: 'Activity',
+        headerShown: false,
+        tabBarBadge: unreadCount > 99 ? '99+' : unreadCount || undefined,
+        tabBarBadgeStyle: { backgroundColor: COLORS.secondary },
+        tabBarIcon: ({ color, focused }) => (
+          <TabIcon icon="notifications-outline" color={color} name="Activity" focused={focused} />
+        )
+      }} />
       <Tabs.Screen name="inbox" options={{
         title: 'Inbox',
         headerShown: false,
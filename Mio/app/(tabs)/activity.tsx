@@ -0,0 +1,247 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Timestamp } from 'firebase/firestore';
+import { COLORS } from '../../constants/Colors';
+import { useActivity } from '../../context/ActivityContext';
+import { ActivityItem, ActivityType } from '../../types/activity';
+import { getNotificationHref } from '../../utils/notificationRoutes';
+
+const ACTIVITY_ICONS: Record<ActivityType, keyof typeof Ionicons.glyphMap> = {
+  match: 'heart',
+  matchExpiring: 'hourglass-outline',
+  message: 'chatbubble-ellipses',
+  announcement: 'megaphone-outline',
+};
+
+// Format when an entry was created, like the chat timestamps
+const formatActivityTime = (timestamp?: Timestamp) => {
+  if (!timestamp) return '';
+
+  const date = timestamp.toDate();
+  const diffDays = Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (diffDays === 0) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true });
+  } else if (diffDays === 1) {
+    return 'Yesterday';
+  } else if (diffDays < 7) {
+    return date.toLocaleDateString([], { weekday: 'short' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export default function ActivityScreen() {
+  const router = useRouter();
+  const {
+    notifications,
+    unreadCount,
+    hasMoreNotifications,
+    isLoading,
+    loadMoreNotifications,
+    markAsRead,
+    markAllAsRead
+  } = useActivity();
+
+  const openActivity = (item: ActivityItem) => {
+    if (!item.read) {
+      markAsRead(item.id);
+    }
+
+    const href = getNotificationHref(item.data);
+    if (href) {
+      router.push(href);
+    }
+  };
+
+  const renderActivityItem = ({ item }: { item: ActivityItem }) => (
+    <TouchableOpacity
+      style={[styles.activityItem, !item.read && styles.unreadItem]}
+      onPress={() => openActivity(item)}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name={ACTIVITY_ICONS[item.type] || 'notifications-outline'} size={22} color={COLORS.secondary} />
+      </View>
+      <View style={styles.activityContent}>
+        <View style={styles.activityHeader}>
+          <Text style={[styles.activityTitle, !item.read && styles.unreadText]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.activityTime}>{formatActivityTime(item.createdAt)}</Text>
+        </View>
+        <Text style={styles.activityBody} numberOfLines={2}>{item.body}</Text>
+      </View>
+      {!item.read && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  const renderEmptyActivity = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="notifications-outline" size={80} color={COLORS.secondary} />
+      <Text style={styles.emptyTitle}>No Activity Yet</Text>
+      <Text style={styles.emptyText}>
+        New matches, messages and announcements will show up here.
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer} edges={['top', 'bottom']}>
+        <ActivityIndicator size="large" color={COLORS.secondary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Activity</Text>
+        {unreadCount > 0 && (
+          <TouchableOpacity style={styles.markAllButton} onPress={markAllAsRead}>
+            <Text style={styles.markAllButtonText}>Mark all as read</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={notifications}
+        keyExtractor={(item) => item.id}
+        renderItem={renderActivityItem}
+        contentContainerStyle={styles.activityList}
+        ListEmptyComponent={renderEmptyActivity}
+        onEndReached={hasMoreNotifications ? loadMoreNotifications : undefined}
+        onEndReachedThreshold={0.5}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f8f8',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+    backgroundColor: '#fff',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: COLORS.darkestMaroon,
+  },
+  markAllButton: {
+    padding: 5,
+  },
+  markAllButtonText: {
+    color: COLORS.secondary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  activityList: {
+    padding: 15,
+    flexGrow: 1,
+  },
+  activityItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  unreadItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.secondary,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F0F0F0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  activityContent: {
+    flex: 1,
+  },
+  activityHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  activityTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.darkestMaroon,
+    marginRight: 8,
+  },
+  unreadText: {
+    fontWeight: 'bold',
+  },
+  activityTime: {
+    fontSize: 12,
+    color: '#888',
+  },
+  activityBody: {
+    fontSize: 14,
+    color: '#666',
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.secondary,
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    marginTop: 50,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.secondary,
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
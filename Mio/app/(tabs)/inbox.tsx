@@ -27,11 +27,11 @@ import {
   doc,
   getDoc,
   updateDoc,
-  Timestamp,
-  setDoc,
-  getDocs
+  Timestamp
 } from 'firebase/firestore';
 import { db } from '../../config/firebaseConfig';
+import { getUnreadCount, openConversation } from '../../utils/conversations';
+import { useUsersPresence } from '../../hooks/usePresence';
 
 interface Conversation {
   id: string;
@@ -42,7 +42,7 @@ interface Conversation {
     text: string;
     timestamp: Timestamp;
   };
-  unreadCount: {[uid: string]: number};
+  unreadCount: number; // The current user's, from their read cursor
   createdAt?: Timestamp;
 }
 
@@ -55,7 +55,7 @@ interface BlockedUserInfo {
 
 export default function InboxScreen() {
   const { user } = useAuth();
-  const { matches: contextMatches, updateChattingWithStatus, blockedUsers, unblockUser } = useMatch();
+  const { matches: contextMatches, blockedUsers, unblockUser } = useMatch();
   const router = useRouter();
   
   
@@ -69,6 +69,12 @@ export default function InboxScreen() {
   const [isLoadingBlockList, setIsLoadingBlockList] = useState(false); // <-- Loading state for block list details
   const [isUnblocking, setIsUnblocking] = useState<string | null>(null); // <-- Track which user is being unblocked
   
+  // Presence of everyone the user has a conversation with, for the online dots
+  const conversationPartnerIds = useMemo(() => {
+    return conversations.map(conversation => conversation.participants.find(p => p !== user?.uid) || '');
+  }, [conversations, user]);
+  const partnerPresence = useUsersPresence(conversationPartnerIds);
+  
   // Filter available matches from the context
   const availableMatches = useMemo(() => {
     return contextMatches.filter((match: ContextMatchData) => !match.chattingWith);
@@ -102,7 +108,6 @@ export default function InboxScreen() {
             // Safely extract and normalize necessary data
             const participantNames = data.participantNames || {};
             const participantPhotos = data.participantPhotos || {};
-            const unreadCount = data.unreadCount || {};
             
             // Handle lastMessage carefully
             let lastMessageObj: { text: string; timestamp: Timestamp } | undefined;
@@ -156,7 +161,7 @@ export default function InboxScreen() {
               participantNames: participantNames,
               participantPhotos: participantPhotos,
               lastMessage: lastMessageObj,
-              unreadCount: unreadCount,
+              unreadCount: getUnreadCount(data, user.uid),
               createdAt: data.createdAt
             });
           }
@@ -188,86 +193,22 @@ export default function InboxScreen() {
     if (!user) return;
     
     try {
-      // Check if conversation already exists
-      const conversationsRef = collection(db, 'conversations');
-      const q = query(
-        conversationsRef,
-        where('participants', 'array-contains', user.uid)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      let existingConversationId = null;
+      // Opens the pair's conversation, creating it and marking the match as
+      // opened if needed
+      const { conversationId } = await openConversation(match.userId);
       
-      querySnapshot.forEach((docSnapshot) => {
-        const data = docSnapshot.data();
-        if (data.participants.includes(match.userId)) {
-          existingConversationId = docSnapshot.id;
+      router.push({
+        pathname: '/(conversations)/chat',
+        params: { 
+          conversationId,
+          fromInbox: 'true'
         }
       });
-      
-      // Navigate to existing or new chat screen
-      const conversationIdToNavigate = existingConversationId || await createNewConversationDocument(match);
-      
-      if (conversationIdToNavigate) {
-        router.push({
-          pathname: '/(conversations)/chat',
-          params: { 
-            conversationId: conversationIdToNavigate,
-            fromInbox: 'true'
-          }
-        });
-      }
-
     } catch (error) {
       console.error('Error finding or creating conversation:', error);
     }
   };
   
-  const createNewConversationDocument = async (match: ContextMatchData): Promise<string | null> => {
-    if (!user) return null;
-
-    try {
-      // Get current user's profile data
-      const userDoc = await getDoc(doc(db, 'users', user.uid));
-      const userProfile = userDoc.data()?.profile || {};
-      
-        // Create new conversation document
-      const newConversationRef = doc(collection(db, 'conversations'));
-      await setDoc(newConversationRef, {
-        participants: [user.uid, match.userId],
-        participantNames: {
-          [user.uid]: userProfile.displayName || 'You',
-          [match.userId]: match.displayName
-        },
-        participantPhotos: {
-          [user.uid]: userProfile.profilePic || '',
-          [match.userId]: match.profilePic
-        },
-        lastMessage: {
-          text: 'Start a conversation!',
-          timestamp: Timestamp.now()
-        },
-        lastMessageTimestamp: Timestamp.now(),
-        createdAt: Timestamp.now(),
-        unreadCount: {
-          [user.uid]: 0,
-          [match.userId]: 0
-        }
-          // Add messageCount, currentBatchId etc. if needed by chat.tsx creation logic
-      });
-      
-        // Update chattingWith status for both users
-      await updateChattingWithStatus(match.userId);
-      
-        return newConversationRef.id;
-    } catch (error) {
-        console.error('Error creating new conversation document:', error);
-        return null;
-    }
-  };
-  
-  
-  
   // Function to truncate long messages
   const truncateText = (text: string, maxLength: number = 30): string => {
     if (!text) return '';
@@ -322,20 +263,23 @@ export default function InboxScreen() {
           });
         }}
       >
-        {shouldBlurImage ? (
-          <View style={styles.conversationBlurContainer}>
+        <View>
+          {shouldBlurImage ? (
+            <View style={styles.conversationBlurContainer}>
+              <Image 
+                source={{ uri: otherParticipantPhoto || 'https://via.placeholder.com/60' }} 
+                style={[styles.avatar, ]} 
+                blurRadius={40}
+              />
+            </View>
+          ) : (
             <Image 
               source={{ uri: otherParticipantPhoto || 'https://via.placeholder.com/60' }} 
-              style={[styles.avatar, ]} 
-              blurRadius={40}
+              style={styles.avatar} 
             />
-          </View>
-        ) : (
-          <Image 
-            source={{ uri: otherParticipantPhoto || 'https://via.placeholder.com/60' }} 
-            style={styles.avatar} 
-          />
-        )}
+          )}
+          {partnerPresence[otherParticipantId]?.online && <View style={styles.presenceDot} />}
+        </View>
         
         <View style={styles.conversationContent}>
           <View style={styles.conversationHeader}>
@@ -346,17 +290,17 @@ export default function InboxScreen() {
             <Text 
               style={[
                 styles.lastMessage,
-                item.unreadCount && item.unreadCount[user?.uid || ''] > 0 && styles.unreadMessage
+                item.unreadCount > 0 && styles.unreadMessage
               ]}
               numberOfLines={1}
             >
               {lastMessageText}
             </Text>
             
-            {item.unreadCount && item.unreadCount[user?.uid || ''] > 0 && (
+            {item.unreadCount > 0 && (
               <View style={styles.unreadBadge}>
                 <Text style={styles.unreadCount}>
-                  {item.unreadCount[user?.uid || '']}
+                  {item.unreadCount > 99 ? '99+' : item.unreadCount}
                 </Text>
               </View>
             )}
@@ -819,6 +763,17 @@ const styles = StyleSheet.create({
     borderRadius: 25,
     overflow: 'hidden',
   },
+  presenceDot: {
+    position: 'absolute',
+    right: 1,
+    bottom: 1,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#34C759',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
   // Styles for Block List Modal
   modalOverlay: {
       flex: 1,
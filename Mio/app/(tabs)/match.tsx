@@ -20,7 +20,9 @@ import { useFavorites } from '../../context/FavoritesContext';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { COLORS } from '../../constants/Colors';
 import { LinearGradient } from 'expo-linear-gradient';
-import { MatchData } from '../../types/match';
+import { CandidateDecision, MatchCandidate, MatchData } from '../../types/match';
+import SharedShows from '../../components/SharedShows';
+import { getPhotoUnlockLabel, isPhotoLocked } from '../../utils/photoUnlock';
 
 
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -29,20 +31,30 @@ const { width } = Dimensions.get('window');
 const CARD_WIDTH = width * 0.85;
 const CARD_HEIGHT = CARD_WIDTH * 1.3;
 
-interface MatchCardProps {
-  match: MatchData;
-  onPress: () => void;
-  onUnmatch: (userId: string) => Promise<boolean>;
-}
+type MatchCardProps =
+  | {
+      match: MatchData;
+      onPress: () => void;
+      onUnmatch: (userId: string) => Promise<boolean>;
+      onRevealPhotos: (userId: string) => Promise<void>;
+    }
+  // Suggestions are reviewed with like and pass buttons instead of being unmatched
+  | { match: MatchCandidate; onPress: () => void; onRespond: (userId: string, decision: CandidateDecision) => Promise<void> };
 
-const MatchCard: React.FC<MatchCardProps> = ({ match, onPress, onUnmatch }) => {
+const MatchCard: React.FC<MatchCardProps> = (props) => {
+  const { match, onPress } = props;
   const [isUnmatching, setIsUnmatching] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<CandidateDecision | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const isCandidate = 'onRespond' in props;
   
   // Import styles from the parent component
   const { matchCard, imageContainer, blurContainer, matchImage, matchGradient, 
           matchBadge, superMatchBadge, regularMatchBadge, matchBadgeText, 
           unlockTimerContainer, unlockTimerText, unmatchButton, unmatchButtonDisabled,
-          matchInfoContainer, matchName, matchLocation } = styles;
+          matchInfoContainer, matchName, matchLocation,
+          candidateActions, candidateActionButton, passButton, likeButton,
+          revealButton, revealButtonText } = styles;
   
   // Add debugging
 
@@ -59,8 +71,9 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress, onUnmatch }) => {
         { 
           text: "Unmatch", 
           onPress: () => {
+            if (isCandidate) return;
             setIsUnmatching(true);
-            onUnmatch(match.userId)
+            props.onUnmatch(match.userId)
               .catch(err => console.error("Error in unmatch:", err))
               .finally(() => setIsUnmatching(false));
           },
@@ -70,20 +83,24 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress, onUnmatch }) => {
     );
   };
 
-  // Check if match is less than 24 hours old
-  const isNewMatch = () => {
-    if (!match.matchTimestamp) return false;
-    
-    const matchDate = match.matchTimestamp.toDate();
-    
-    const now = new Date();
-    const timeDiff = now.getTime() - matchDate.getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
-    
-    return hoursDiff < 24;
+  const respond = (decision: CandidateDecision) => {
+    if (!isCandidate) return;
+    setPendingDecision(decision);
+    props.onRespond(match.userId, decision)
+      .catch(err => console.error("Error responding to suggestion:", err))
+      .finally(() => setPendingDecision(null));
   };
 
-  const shouldBlurImage = isNewMatch();
+  const revealPhotos = () => {
+    if (isCandidate) return;
+    setIsRevealing(true);
+    props.onRevealPhotos(match.userId)
+      .catch(err => console.error("Error requesting photo reveal:", err))
+      .finally(() => setIsRevealing(false));
+  };
+
+  // The server decides when photos unlock; suggestions always stay blurred
+  const shouldBlurImage = isCandidate || isPhotoLocked(props.match);
 
   return (
     <TouchableOpacity
@@ -132,22 +149,26 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress, onUnmatch }) => {
       {/* Unlock timer text */}
       {shouldBlurImage && (
         <View style={unlockTimerContainer}>
-          <Text style={unlockTimerText}>Unlocks after 24h of matching</Text>
+          <Text style={unlockTimerText}>
+            {isCandidate ? 'Unlocks once you both like each other' : getPhotoUnlockLabel(props.match)}
+          </Text>
         </View>
       )}
       
       {/* Unmatch Button */}
-      <TouchableOpacity 
-        style={[unmatchButton, isUnmatching && unmatchButtonDisabled]}
-        onPress={confirmUnmatch}
-        disabled={isUnmatching}
-      >
-        {isUnmatching ? (
-          <ActivityIndicator size="small" color="#FFF" />
-        ) : (
-          <Ionicons name="close-circle" size={24} color="#FFF" />
-        )}
-      </TouchableOpacity>
+      {!isCandidate && (
+        <TouchableOpacity 
+          style={[unmatchButton, isUnmatching && unmatchButtonDisabled]}
+          onPress={confirmUnmatch}
+          disabled={isUnmatching}
+        >
+          {isUnmatching ? (
+            <ActivityIndicator size="small" color="#FFF" />
+          ) : (
+            <Ionicons name="close-circle" size={24} color="#FFF" />
+          )}
+        </TouchableOpacity>
+      )}
       
       <View style={matchInfoContainer}>
         <Text style={matchName}>
@@ -157,6 +178,60 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress, onUnmatch }) => {
         <Text style={matchLocation}>
           {String(match.location || 'Unknown location')}
         </Text>
+
+        {/* Reveal photos early, once both sides ask */}
+        {!isCandidate && shouldBlurImage && (
+          <TouchableOpacity
+            style={[revealButton, (isRevealing || props.match.revealRequested) && unmatchButtonDisabled]}
+            onPress={revealPhotos}
+            disabled={isRevealing || !!props.match.revealRequested}
+          >
+            {isRevealing ? (
+              <ActivityIndicator size="small" color="#FFF" />
+            ) : (
+              <Text style={revealButtonText}>
+                {props.match.revealRequested
+                  ? 'Reveal requested'
+                  : props.match.otherRequestedReveal
+                    ? `${match.displayName} wants to reveal. Reveal too?`
+                    : 'Reveal photos'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Why they matched */}
+        {match.commonShowIds && match.commonShowIds.length > 0 && (
+          <SharedShows showIds={match.commonShowIds} variant="card" maxShows={4} />
+        )}
+
+        {/* Like / Pass Buttons */}
+        {isCandidate && (
+          <View style={candidateActions}>
+            <TouchableOpacity
+              style={[candidateActionButton, passButton, !!pendingDecision && unmatchButtonDisabled]}
+              onPress={() => respond('pass')}
+              disabled={!!pendingDecision}
+            >
+              {pendingDecision === 'pass' ? (
+                <ActivityIndicator size="small" color={COLORS.darkestMaroon} />
+              ) : (
+                <Ionicons name="close" size={28} color={COLORS.darkestMaroon} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[candidateActionButton, likeButton, !!pendingDecision && unmatchButtonDisabled]}
+              onPress={() => respond('like')}
+              disabled={!!pendingDecision}
+            >
+              {pendingDecision === 'like' ? (
+                <ActivityIndicator size="small" color="#FFF" />
+              ) : (
+                <Ionicons name="heart" size={28} color="#FFF" />
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -166,23 +241,27 @@ export default function MatchScreen() {
   const { 
     matches, 
     isSearching, 
-    cooldownEndTime, 
+    canSearch,
+    remainingSearches,
+    nextSearchAt,
     searchMatches, 
     remainingTimeString,
     isLoading,
     error,
     unmatchUser,
+    hasMoreMatches,
+    loadMoreMatches,
+    candidates,
+    respondToCandidate,
+    requestPhotoReveal,
   } = useMatch();
   
-  // Log cooldown state changes whenever they happen
-  
-  
   const { userFavorites } = useFavorites();
   const [noFavorites, setNoFavorites] = useState(false);
   const [isFirstLoad, setIsFirstLoad] = useState(true);
-  const [newMatchCount, setNewMatchCount] = useState(0);
+  const [newSuggestionCount, setNewSuggestionCount] = useState(0);
   const [showResultModal, setShowResultModal] = useState(false);
-  const [matchesBeforeSearch, setMatchesBeforeSearch] = useState(0);
+  const [viewMode, setViewMode] = useState<'suggestions' | 'matches'>('suggestions');
   
   // Animation values - ENSURE PROPER INITIALIZATION
   // Use direct creation instead of useState to ensure stable references
@@ -198,6 +277,13 @@ export default function MatchScreen() {
     }
   }, [userFavorites]);
   
+  // Keep paging while every loaded match is already in a chat, so older unopened ones still show up
+  useEffect(() => {
+    if (hasMoreMatches && matches.length > 0 && matches.every(match => match.chattingWith)) {
+      loadMoreMatches();
+    }
+  }, [matches, hasMoreMatches, loadMoreMatches]);
+  
   useEffect(() => {
     if (isFirstLoad && matches && matches.length > 0) {
       setIsFirstLoad(false);
@@ -233,35 +319,81 @@ export default function MatchScreen() {
     fadeAnim.setValue(0.5);
     scaleAnim.setValue(0.95);
     
-    // Store the current match count to calculate new matches later
-    const currentMatchCount = matches.length;
-    setMatchesBeforeSearch(currentMatchCount);
-    
     try {
-      // Search for matches - the useEffect will handle showing notifications
-      const newMatchesCount = await searchMatches();
+      // New results are suggestions to review before anyone is matched
+      const newCandidateCount = await searchMatches();
+      setNewSuggestionCount(newCandidateCount);
+      if (newCandidateCount > 0) {
+        setViewMode('suggestions');
+      }
 
-      
-      // Force check cooldown again after a small delay to ensure context has updated
+      setShowResultModal(true);
       setTimeout(() => {
-        
-      }, 500);
+        setShowResultModal(false);
+      }, 5000);
     } catch (error) {
-      console.error('[COOLDOWN] Error in handleSearch:', error);
+      console.error('Error in handleSearch:', error);
     }
   };
   
-  const navigateToUserProfile = (match: MatchData) => {
+  const navigateToUserProfile = (match: MatchData | MatchCandidate) => {
+    const isMatch = 'matchTimestamp' in match;
     router.push({
       pathname: '/(common)/userProfile',
       params: {
         userId: match.userId,
         matchLevel: match.matchLevel,
         favoriteShows: match.favoriteShowIds ? match.favoriteShowIds.join(',') : '',
-        matchTimestamp: match.matchTimestamp ? match.matchTimestamp.toDate().toISOString() : ''
+        ...(match.commonShowIds && {
+          commonShows: match.commonShowIds.join(','),
+          sharedGenres: (match.sharedGenreIds || []).join(',')
+        }),
+        matchTimestamp: isMatch && match.matchTimestamp ? match.matchTimestamp.toDate().toISOString() : '',
+        suggestion: isMatch ? 'false' : 'true',
+        photoLocked: !isMatch || isPhotoLocked(match) ? 'true' : 'false'
       }
     });
   };
+
+  const handleRevealPhotos = async (userId: string) => {
+    try {
+      const unlocked = await requestPhotoReveal(userId);
+      if (unlocked) {
+        Alert.alert("Photos Revealed", "You both agreed to reveal your photos.", [{ text: "OK" }]);
+      }
+    } catch (error) {
+      console.error('Error in handleRevealPhotos:', error);
+      Alert.alert(
+        "Reveal Failed",
+        "We couldn't send your reveal request. Please try again later.",
+        [{ text: "OK" }]
+      );
+    }
+  };
+
+  const handleRespond = async (userId: string, decision: CandidateDecision) => {
+    try {
+      const outcome = await respondToCandidate(userId, decision);
+      if (outcome === 'match') {
+        Alert.alert(
+          "It's a match!",
+          "You both liked each other. Say hi!",
+          [
+            { text: "Keep Browsing", style: "cancel" },
+            { text: "View Matches", onPress: () => setViewMode('matches') }
+          ]
+        );
+      } else if (outcome === 'unavailable') {
+        Alert.alert("No Longer Available", "This user is no longer on Mio.", [{ text: "OK" }]);
+      }
+    } catch (error) {
+      Alert.alert(
+        "Something Went Wrong",
+        "We couldn't save your answer. Please try again later.",
+        [{ text: "OK" }]
+      );
+    }
+  };
   
   const handleUnmatch = async (userId: string) => {
     try {
@@ -279,27 +411,6 @@ export default function MatchScreen() {
     }
   };
   
-  // Add a useEffect to update newMatchCount when matches change after search
-  useEffect(() => {
-    if (isSearching === false && matchesBeforeSearch > 0) {
-      // Calculate new matches after search completes
-      const newMatches = matches.length - matchesBeforeSearch;
-      
-      if (newMatches !== newMatchCount) {
-        setNewMatchCount(newMatches);
-        
-        // Show result modal if we have any result (positive or zero)
-        setShowResultModal(true);
-        setTimeout(() => {
-          setShowResultModal(false);
-        }, 5000);
-      }
-      
-      // Reset matchesBeforeSearch after processing
-      setMatchesBeforeSearch(0);
-    }
-  }, [matches, isSearching, matchesBeforeSearch, newMatchCount]);
-  
   // Render loading modal
   const renderLoadingModal = () => {
     return (
@@ -329,26 +440,27 @@ export default function MatchScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <Ionicons 
-              name={newMatchCount > 0 ? "heart" : "search"} 
+              name={newSuggestionCount > 0 ? "heart" : "search"} 
               size={50} 
-              color={newMatchCount > 0 ? COLORS.secondary : "#666"} 
+              color={newSuggestionCount > 0 ? COLORS.secondary : "#666"} 
             />
             <Text style={styles.modalTitle}>
-              {newMatchCount > 0 ? "Success!" : "Search Complete"}
+              {newSuggestionCount > 0 ? "Success!" : "Search Complete"}
             </Text>
             <Text style={styles.modalText}>
-              {newMatchCount > 0 
-                ? `Found ${newMatchCount} new ${newMatchCount === 1 ? 'match' : 'matches'}!` 
-                : "No new matches found this time."}
+              {newSuggestionCount > 0 
+                ? `Found ${newSuggestionCount} new ${newSuggestionCount === 1 ? 'suggestion' : 'suggestions'}!` 
+                : "No new suggestions found this time."}
             </Text>
-            {newMatchCount > 0 && (
+            {newSuggestionCount > 0 && (
               <TouchableOpacity 
                 style={styles.viewMatchesButton}
                 onPress={() => {
+                  setViewMode('suggestions');
                   setShowResultModal(false);
                 }}
               >
-                <Text style={styles.viewMatchesButtonText}>View Matches</Text>
+                <Text style={styles.viewMatchesButtonText}>Review Suggestions</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -380,7 +492,7 @@ export default function MatchScreen() {
           <TouchableOpacity
             style={styles.searchButton}
             onPress={handleSearch}
-            disabled={isSearching || !!cooldownEndTime}
+            disabled={isSearching || !canSearch}
           >
             <Text style={styles.searchButtonText}>Try Again</Text>
           </TouchableOpacity>
@@ -427,10 +539,10 @@ export default function MatchScreen() {
         <TouchableOpacity
           style={[
             styles.searchButton,
-            (isSearching || !!cooldownEndTime || noFavorites) && styles.searchButtonDisabled
+            (isSearching || !canSearch || noFavorites) && styles.searchButtonDisabled
           ]}
           onPress={handleSearch}
-          disabled={isSearching || !!cooldownEndTime || noFavorites}
+          disabled={isSearching || !canSearch || noFavorites}
         >
           <Text style={styles.searchButtonText}>Search Matches</Text>
         </TouchableOpacity>
@@ -438,26 +550,80 @@ export default function MatchScreen() {
     );
   };
   
-  const renderCooldownTimer = () => {
-    if (!cooldownEndTime) {
-      
+  const renderSearchQuota = () => {
+    if (nextSearchAt && remainingTimeString) {
+      return (
+        <View style={styles.cooldownContainer}>
+          <Ionicons name="time-outline" size={20} color={COLORS.secondary} />
+          <Text style={styles.cooldownText}>
+            Next search available in: {remainingTimeString}
+          </Text>
+        </View>
+      );
+    }
+
+    if (remainingSearches === null) {
       return null;
     }
-    
-    
+
     return (
       <View style={styles.cooldownContainer}>
-        <Ionicons name="time-outline" size={20} color={COLORS.secondary} />
+        <Ionicons name="search-outline" size={20} color={COLORS.secondary} />
         <Text style={styles.cooldownText}>
-          Next search available in: {remainingTimeString}
+          {remainingSearches} {remainingSearches === 1 ? 'search' : 'searches'} left today
         </Text>
       </View>
     );
   };
   
+  const renderViewToggle = () => {
+    return (
+      <View style={styles.viewToggle}>
+        {(['suggestions', 'matches'] as const).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.viewToggleOption, viewMode === mode && styles.viewToggleOptionActive]}
+            onPress={() => setViewMode(mode)}
+          >
+            <Text style={[styles.viewToggleText, viewMode === mode && styles.viewToggleTextActive]}>
+              {mode === 'suggestions'
+                ? `Suggestions${candidates.length > 0 ? ` (${candidates.length})` : ''}`
+                : 'Matches'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderCandidateList = () => {
+    if (candidates.length === 0) {
+      return renderEmptyState();
+    }
+
+    return (
+      <ScrollView 
+        contentContainerStyle={{padding: 20}}
+        showsVerticalScrollIndicator={true}
+      >
+        {candidates.map(item => (
+          <MatchCard
+            key={item.userId}
+            match={item}
+            onPress={() => navigateToUserProfile(item)}
+            onRespond={handleRespond}
+          />
+        ))}
+        <View style={{height: 40}} />
+      </ScrollView>
+    );
+  };
+
   const renderMatchList = () => {
-    // Filter out matches that have chattingWith set to true
-    const availableMatches = matches.filter(match => !match.chattingWith);
+    // Filter out matches that have chattingWith set to true, most compatible first
+    const availableMatches = matches
+      .filter(match => !match.chattingWith)
+      .sort((a, b) => (b.compatibilityScore || 0) - (a.compatibilityScore || 0));
     
     // If no matches are available to display (either none exist or all are chatting),
     // show the consolidated empty state.
@@ -474,6 +640,7 @@ export default function MatchScreen() {
           match={item} 
           onPress={() => navigateToUserProfile(item)}
           onUnmatch={handleUnmatch}
+          onRevealPhotos={handleRevealPhotos}
         />
       ));
       
@@ -483,6 +650,11 @@ export default function MatchScreen() {
           showsVerticalScrollIndicator={true}
         >
           {matchCards}
+          {hasMoreMatches && (
+            <TouchableOpacity style={styles.loadMoreButton} onPress={loadMoreMatches}>
+              <Text style={styles.loadMoreButtonText}>Load more matches</Text>
+            </TouchableOpacity>
+          )}
           <View style={{height: 40}} />
         </ScrollView>
       );
@@ -502,10 +674,10 @@ export default function MatchScreen() {
         <TouchableOpacity
           style={[
             styles.searchButtonSmall,
-            (isSearching || cooldownEndTime || noFavorites) && styles.searchButtonDisabled
+            (isSearching || !canSearch || noFavorites) && styles.searchButtonDisabled
           ]}
           onPress={handleSearch}
-          disabled={isSearching || !!cooldownEndTime || noFavorites}
+          disabled={isSearching || !canSearch || noFavorites}
         >
           {isSearching ? (
             <ActivityIndicator color="#FFF" size="small" />
@@ -518,11 +690,12 @@ export default function MatchScreen() {
         </TouchableOpacity>
       </View>
       
-      {renderCooldownTimer()}
+      {renderSearchQuota()}
+      {renderViewToggle()}
       
       <View style={styles.contentContainer}>
         <View style={{ flex: 1, backgroundColor: "#f8f8f8" }}>
-          {renderMatchList()}
+          {viewMode === 'suggestions' ? renderCandidateList() : renderMatchList()}
         </View>
       </View>
     </SafeAreaView>
@@ -702,6 +875,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  loadMoreButton: {
+    alignSelf: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.secondary,
+  },
+  loadMoreButtonText: {
+    color: COLORS.secondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   exploreButton: {
     backgroundColor: COLORS.primary,
     paddingVertical: 14,
@@ -729,6 +915,63 @@ const styles = StyleSheet.create({
   unmatchButtonDisabled: {
     opacity: 0.5,
   },
+  candidateActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 6,
+  },
+  candidateActionButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 16,
+  },
+  passButton: {
+    backgroundColor: '#FFF',
+  },
+  likeButton: {
+    backgroundColor: COLORS.secondary,
+  },
+  revealButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    marginBottom: 10,
+  },
+  revealButtonText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginTop: 10,
+    borderRadius: 20,
+    backgroundColor: '#eee',
+    padding: 4,
+  },
+  viewToggleOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  viewToggleOptionActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  viewToggleTextActive: {
+    color: '#FFF',
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
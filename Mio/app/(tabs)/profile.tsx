@@ -18,7 +18,7 @@ import {
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../../context/AuthContext';
-import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../../config/firebaseConfig';
 import { COLORS } from '../../constants/Colors';
 import { router } from 'expo-router';
@@ -29,6 +29,8 @@ import * as WebBrowser from 'expo-web-browser';
 
 import { useFavorites } from '../../context/FavoritesContext';
 import { tmdbApi } from '../../utils/tmdbApi';
+import { CoarseLocation, DEFAULT_MATCH_DISTANCE_KM, formatAgeRange } from '../../utils/matchPreferences';
+import { getProfilePhotos } from '../../utils/photoUnlock';
 
 // --- Policy URLs ---
 const TERMS_CONDITIONS_URL = 'https://docs.google.com/document/d/1uivocBIPTs2IFSZ9JDDsVx8G80iPynbCuocj_U0b_yk/edit?usp=sharing';
@@ -39,7 +41,6 @@ const { width, height } = Dimensions.get('window');
 
 const MAX_FAVORITES = 10;
 const MAX_WEEKLY_REMOVALS = 5;
-const COOLDOWN_MINUTES = 60*24*3;
 
 type FavoriteType = 'anime' | 'kdrama';
 
@@ -50,6 +51,10 @@ interface ProfileData {
   gender: string;
   matchWith: string;
   matchLocation: string;
+  matchAgeMin?: number | null;
+  matchAgeMax?: number | null;
+  matchDistanceKm?: number;
+  coarseLocation?: CoarseLocation | null;
   relationshipStatus?: string;
   favoriteShows?: string[];
   favoriteMovie?: string;
@@ -58,8 +63,6 @@ interface ProfileData {
   favoriteKdrama?: string;
   profilePic: string;
   additionalPics?: string[];
-  lastRemovalTime?: Timestamp;
-  weeklyRemovals?: number;
   bio?: string;
 }
 
@@ -186,7 +189,9 @@ export default function ProfileScreen() {
         const userDoc = await getDoc(doc(db, 'users', user.uid));
         if (userDoc.exists() && userDoc.data().profile) {
           const profileData = userDoc.data().profile;
-          setProfile(profileData);
+          // The profile only holds blurred copies once the photos are private
+          const privatePhotos = await getProfilePhotos(user.uid);
+          setProfile(privatePhotos ? { ...profileData, ...privatePhotos } : profileData);
           
           // Get latest counts from context
           setProfileMetrics({
@@ -511,12 +516,23 @@ const handleLogout = async () => {
                 </View>
               </View>
               
+              <View style={styles.infoItem}>
+                <Ionicons name="calendar" size={20} color={COLORS.secondary} />
+                <View style={styles.infoTextContainer}>
+                  <Text style={styles.infoLabel}>Age Range</Text>
+                  <Text style={styles.infoValue}>
+                    {formatAgeRange(profile.matchAgeMin, profile.matchAgeMax)}
+                  </Text>
+                </View>
+              </View>
+              
               <View style={styles.infoItem}>
                 <Ionicons name="locate" size={20} color={COLORS.secondary} />
                 <View style={styles.infoTextContainer}>
                   <Text style={styles.infoLabel}>Match Preference</Text>
                   <Text style={styles.infoValue}>
-                    {profile.matchLocation === 'local' ? 'Local' : 'Worldwide'}
+                    {profile.matchLocation !== 'local' ? 'Worldwide' :
+                     profile.coarseLocation ? `Within ${profile.matchDistanceKm || DEFAULT_MATCH_DISTANCE_KM} km` : 'Local'}
                   </Text>
                 </View>
               </View>
@@ -733,6 +749,24 @@ const handleLogout = async () => {
           )}
           
           {/* Action Buttons */}
+          <View style={[styles.buttonContainer, styles.settingsButtonContainer]}>
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.settingsButton]}
+              onPress={() => router.push('/(profile)/notificationSettings')}
+            >
+              <Ionicons name="notifications-outline" size={22} color="#FFF" />
+              <Text style={styles.actionButtonText}>Notifications</Text>
+            </TouchableOpacity>
+            
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.settingsButton]}
+              onPress={() => router.push('/(profile)/privacySettings')}
+            >
+              <Ionicons name="eye-off-outline" size={22} color="#FFF" />
+              <Text style={styles.actionButtonText}>Privacy</Text>
+            </TouchableOpacity>
+          </View>
+          
           <View style={styles.buttonContainer}>
             <TouchableOpacity 
               style={styles.actionButton}
@@ -1245,6 +1279,12 @@ const styles = StyleSheet.create({
   logoutButton: {
     backgroundColor: '#a60c0c',
   },
+  settingsButtonContainer: {
+    marginBottom: 4,
+  },
+  settingsButton: {
+    backgroundColor: COLORS.secondary,
+  },
   actionButtonText: {
     color: '#FFF',
     fontSize: 16,
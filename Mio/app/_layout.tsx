@@ -13,10 +13,13 @@ import { AuthProvider, useAuth } from '../context/AuthContext';
 import { FavoritesProvider } from '../context/FavoritesContext';
 import { RegistrationProvider } from '../context/RegistrationContext';
 import { MatchContextProvider } from '../context/MatchContext';
+import { ActivityProvider } from '../context/ActivityContext';
 import Toast from 'react-native-toast-message';
 import { toastConfig } from '../components';
 import { useColorScheme } from '../hooks/useColorScheme';
+import { usePresence } from '../hooks/usePresence';
 import { initializeNotifications, setNotificationResponseHandler, setForegroundNotificationHandler } from '../utils/notificationHandler';
+import { getNotificationHref } from '../utils/notificationRoutes';
 import * as Notifications from 'expo-notifications';
 import * as Application from 'expo-application';
 import { doc, onSnapshot } from 'firebase/firestore';
@@ -36,6 +39,9 @@ const AuthNavigationHandler = ({ children }: { children: React.ReactNode }) => {
   const segments = useSegments();
   const notificationReceivedRef = useRef(false);
 
+  // Show the signed-in user as online while the app is open
+  usePresence(user?.uid);
+
   // Initialize Firebase and notifications on component mount
   useEffect(() => {
     // Ensure notifications are initialized after Firebase
@@ -61,15 +67,10 @@ const AuthNavigationHandler = ({ children }: { children: React.ReactNode }) => {
 
     // Set up notification response handler (when user taps notification)
     const unsubscribe = setNotificationResponseHandler((data) => {
-      // Handle notification based on type
-      if (data?.type === 'match') {
-        const matchId = data.matchId;
-        
-        
-        // Navigate to match tab
-        if (matchId) {
-          router.navigate({ pathname: '/(tabs)/match' });
-        }
+      // Navigate based on the notification type
+      const href = getNotificationHref(data);
+      if (href) {
+        router.navigate(href);
       }
     });
 
@@ -77,12 +78,12 @@ const AuthNavigationHandler = ({ children }: { children: React.ReactNode }) => {
     const foregroundUnsubscribe = setForegroundNotificationHandler((notification) => {
       const data = notification.request.content.data;
       
-      // Avoid showing toast multiple times for same notification
-      if (notificationReceivedRef.current) return;
-      notificationReceivedRef.current = true;
-      
       // Show toast for new match
       if (data?.type === 'match') {
+        // Avoid showing toast multiple times for same notification
+        if (notificationReceivedRef.current) return;
+        notificationReceivedRef.current = true;
+        
         Toast.show({
           type: 'success',
           text1: notification.request.content.title || 'New Match!',
@@ -184,42 +185,44 @@ const RootLayout = () => {
           <RegistrationProvider>
             <FavoritesProvider>
               <MatchContextProvider>
-                <ThemeProvider value={colorScheme === 'dark' ? DefaultTheme : DefaultTheme}>
-                  <Slot />
-                  <StatusBar backgroundColor="#FFFFFF" style="dark" />
-                  <Toast config={toastConfig} />
-                  {isUpdateModalVisible && (
-                    <Modal
-                      transparent={true}
-                      animationType="slide"
-                      visible={isUpdateModalVisible}
-                      onRequestClose={() => { /* Non-dismissible modal */ }}
-                    >
-                      <View style={styles.modalContainer}>
-                        <View style={styles.modalContent}>
-                          <Text style={styles.modalTitle}>Update Required</Text>
-                          <Text style={styles.modalMessage}>{updateMessage}</Text>
-                          <TouchableOpacity
-                            style={styles.updateButton}
-                            onPress={async () => {
-                              if (updateUrl) {
-                                const supported = await Linking.canOpenURL(updateUrl);
-                                if (supported) {
-                                  await Linking.openURL(updateUrl);
-                                } else {
-                                  console.error(`Don't know how to open this URL: ${updateUrl}`);
-                                  // Optionally, show an alert to the user
+                <ActivityProvider>
+                  <ThemeProvider value={colorScheme === 'dark' ? DefaultTheme : DefaultTheme}>
+                    <Slot />
+                    <StatusBar backgroundColor="#FFFFFF" style="dark" />
+                    <Toast config={toastConfig} />
+                    {isUpdateModalVisible && (
+                      <Modal
+                        transparent={true}
+                        animationType="slide"
+                        visible={isUpdateModalVisible}
+                        onRequestClose={() => { /* Non-dismissible modal */ }}
+                      >
+                        <View style={styles.modalContainer}>
+                          <View style={styles.modalContent}>
+                            <Text style={styles.modalTitle}>Update Required</Text>
+                            <Text style={styles.modalMessage}>{updateMessage}</Text>
+                            <TouchableOpacity
+                              style={styles.updateButton}
+                              onPress={async () => {
+                                if (updateUrl) {
+                                  const supported = await Linking.canOpenURL(updateUrl);
+                                  if (supported) {
+                                    await Linking.openURL(updateUrl);
+                                  } else {
+                                    console.error(`Don't know how to open this URL: ${updateUrl}`);
+                                    // Optionally, show an alert to the user
+                                  }
                                 }
-                              }
-                            }}
-                          >
-                            <Text style={styles.updateButtonText}>Update Now</Text>
-                          </TouchableOpacity>
+                              }}
+                            >
+                              <Text style={styles.updateButtonText}>Update Now</Text>
+                            </TouchableOpacity>
+                          </View>
                         </View>
-                      </View>
-                    </Modal>
-                  )}
-                </ThemeProvider>
+                      </Modal>
+                    )}
+                  </ThemeProvider>
+                </ActivityProvider>
               </MatchContextProvider>
             </FavoritesProvider>
           </RegistrationProvider>
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS } from '../constants/Colors';
+import { fetchTMDB, TMDBShowDetails } from '../utils/tmdbApi';
+
+const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
+
+interface ShowPoster {
+  id: string;
+  title: string;
+  posterPath: string | null;
+}
+
+// Posters are shared across cards, so every show is only looked up once per session
+const posterCache = new Map<string, Promise<ShowPoster | null>>();
+
+const getShowPoster = (showId: string): Promise<ShowPoster | null> => {
+  let poster = posterCache.get(showId);
+  if (!poster) {
+    poster = fetchTMDB<TMDBShowDetails>(`/tv/${showId}`)
+      .then(data => data ? { id: showId, title: data.name, posterPath: data.poster_path } : null)
+      .catch(error => {
+        console.error(`Error fetching poster for show ${showId}:`, error);
+        posterCache.delete(showId); // Retry next time
+        return null;
+      });
+    posterCache.set(showId, poster);
+  }
+  return poster;
+};
+
+interface SharedShowsProps {
+  showIds: string[];
+  genreNames?: string[];
+  // 'card' is the compact strip over a match card photo, 'section' the full profile section
+  variant?: 'card' | 'section';
+  maxShows?: number;
+}
+
+/**
+ * "You both love" list of the shows two matched users have in common, with posters
+ * @param showIds - IDs of the common shows
+ * @param genreNames - Names of the genres both users love, shown as chips
+ * @param variant - Layout to use
+ * @param maxShows - Most posters to show before summarizing the rest
+ */
+const SharedShows = ({ showIds, genreNames = [], variant = 'section', maxShows }: SharedShowsProps) => {
+  const [posters, setPosters] = useState<ShowPoster[]>([]);
+  const visibleIds = maxShows ? showIds.slice(0, maxShows) : showIds;
+  const hiddenCount = showIds.length - visibleIds.length;
+  const visibleKey = visibleIds.join(',');
+
+  // Keyed on the joined IDs so a new array with the same shows doesn't refetch
+  useEffect(() => {
+    let cancelled = false;
+    const ids = visibleKey ? visibleKey.split(',') : [];
+    Promise.all(ids.map(getShowPoster)).then(results => {
+      if (!cancelled) {
+        setPosters(results.filter((poster): poster is ShowPoster => !!poster));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [visibleKey]);
+
+  if (showIds.length === 0 && genreNames.length === 0) return null;
+
+  if (variant === 'card') {
+    return (
+      <View style={styles.cardContainer}>
+        <Text style={styles.cardLabel}>You both love</Text>
+        <View style={styles.cardPosters}>
+          {posters.map(poster => (
+            <Image
+              key={poster.id}
+              source={{
+                uri: poster.posterPath
+                  ? `${TMDB_IMAGE_BASE_URL}w92${poster.posterPath}`
+                  : 'https://via.placeholder.com/92x138?text=No+Image'
+              }}
+              style={styles.cardPoster}
+            />
+          ))}
+          {hiddenCount > 0 && (
+            <View style={[styles.cardPoster, styles.cardMore]}>
+              <Text style={styles.cardMoreText}>+{hiddenCount}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.sectionHeader}>
+        <Ionicons name="heart-half" size={20} color={COLORS.secondary} />
+        <Text style={styles.sectionTitle}>You Both Love</Text>
+      </View>
+
+      {posters.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.sectionPosters}
+        >
+          {posters.map(poster => (
+            <View key={poster.id} style={styles.sectionShow}>
+              <Image
+                source={{
+                  uri: poster.posterPath
+                    ? `${TMDB_IMAGE_BASE_URL}w185${poster.posterPath}`
+                    : 'https://via.placeholder.com/185x278?text=No+Image'
+                }}
+                style={styles.sectionPoster}
+              />
+              <Text style={styles.sectionShowTitle} numberOfLines={2}>{poster.title}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      {genreNames.length > 0 && (
+        <View style={styles.genreChips}>
+          {genreNames.map(name => (
+            <View key={name} style={styles.genreChip}>
+              <Text style={styles.genreChipText}>{name}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  cardContainer: {
+    marginBottom: 10,
+  },
+  cardLabel: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 6,
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  cardPosters: {
+    flexDirection: 'row',
+  },
+  cardPoster: {
+    width: 36,
+    height: 54,
+    borderRadius: 4,
+    marginRight: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardMore: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardMoreText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.secondary,
+    marginLeft: 8,
+  },
+  sectionPosters: {
+    paddingBottom: 10,
+  },
+  sectionShow: {
+    width: 100,
+    marginRight: 12,
+  },
+  sectionPoster: {
+    width: 100,
+    height: 150,
+    borderRadius: 8,
+    backgroundColor: '#eee',
+  },
+  sectionShowTitle: {
+    fontSize: 12,
+    color: '#333',
+    marginTop: 6,
+  },
+  genreChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 5,
+  },
+  genreChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 193, 7, 0.15)',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  genreChipText: {
+    fontSize: 12,
+    color: COLORS.secondary,
+    fontWeight: '600',
+  },
+});
+
+export default SharedShows;
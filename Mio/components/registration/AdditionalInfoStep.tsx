@@ -16,6 +16,8 @@ import { useAuth } from '../../context/AuthContext';
 import { doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../config/firebaseConfig';
 import { COLORS } from '../../constants/Colors';
+import { parseAgeLimit } from '../../utils/matchPreferences';
+import { saveProfilePhotos } from '../../utils/photoUnlock';
 
 const AdditionalInfoStep = () => {
   const router = useRouter();
@@ -54,10 +56,11 @@ const AdditionalInfoStep = () => {
             location: registrationData.location,
             matchWith: registrationData.matchWith,
             matchLocation: registrationData.matchLocation,
+            matchAgeMin: parseAgeLimit(registrationData.matchAgeMin),
+            matchAgeMax: parseAgeLimit(registrationData.matchAgeMax),
             relationshipStatus: registrationData.relationshipStatus,
-            // These are Cloudinary URLs, not local URIs
-            profilePic: registrationData.profilePic,
-            additionalPics: registrationData.additionalPics,
+            // The photos go to the private doc below; the server adds
+            // blurred copies to the profile
             // These fields are all optional
             favoriteShows: [],  // Initialize empty array for favorite shows
             favoriteMovie: registrationData.favoriteMovie || '',
@@ -68,6 +71,13 @@ const AdditionalInfoStep = () => {
           profileCompleted: true,
           updatedAt: new Date(),
         });
+        // These are Cloudinary URLs, not local URIs
+        if (registrationData.profilePic) {
+          await saveProfilePhotos(user.uid, {
+            profilePic: registrationData.profilePic,
+            additionalPics: registrationData.additionalPics
+          });
+        }
 
         // Update user state to reflect profile completion
         setUserHasProfile(true);
@@ -6,6 +6,7 @@ import { useRegistration } from '../../context/RegistrationContext';
 import { countries } from '../../data/countries';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { COLORS } from '../../constants/Colors';
+import { validateAgeRange } from '../../utils/matchPreferences';
 
 const PersonalInfoStep = () => {
   const { registrationData, updateField, nextStep } = useRegistration();
@@ -13,6 +14,7 @@ const PersonalInfoStep = () => {
     displayName: '',
     age: '',
     location: '',
+    ageRange: '',
   });
   
   // Dropdown state and value
@@ -26,6 +28,7 @@ const PersonalInfoStep = () => {
       displayName: '',
       age: '',
       location: '',
+      ageRange: '',
     };
 
     if (!registrationData.displayName) {
@@ -46,6 +49,12 @@ const PersonalInfoStep = () => {
       isValid = false;
     }
 
+    const ageRangeError = validateAgeRange(registrationData.matchAgeMin, registrationData.matchAgeMax);
+    if (ageRangeError) {
+      newErrors.ageRange = ageRangeError;
+      isValid = false;
+    }
+
     setErrors(newErrors);
     return isValid;
   };
@@ -243,6 +252,35 @@ const PersonalInfoStep = () => {
           </TouchableOpacity>
         </View>
 
+        <View style={styles.sectionTitle}>
+          <Text style={styles.label}>Age range</Text>
+        </View>
+        <View style={styles.ageRangeContainer}>
+          <View style={styles.ageRangeField}>
+            <InputField
+              label="From"
+              value={registrationData.matchAgeMin}
+              onChangeText={(text) => updateField('matchAgeMin', text)}
+              placeholder="Any"
+              keyboardType="numeric"
+            />
+          </View>
+          <View style={styles.ageRangeField}>
+            <InputField
+              label="To"
+              value={registrationData.matchAgeMax}
+              onChangeText={(text) => updateField('matchAgeMax', text)}
+              placeholder="Any"
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+        {errors.ageRange ? (
+          <Text style={{ ...styles.errorText, color: COLORS.error, marginTop: -8, marginBottom: 16 }}>
+            {errors.ageRange}
+          </Text>
+        ) : null}
+
         <View style={styles.sectionTitle}>
           <Text style={styles.label}>Location Preference</Text>
         </View>
@@ -399,6 +437,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  ageRangeContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  ageRangeField: {
+    flex: 1,
+  },
 });
 
 export default PersonalInfoStep; 
\ No newline at end of file
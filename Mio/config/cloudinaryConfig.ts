@@ -1,15 +1,28 @@
 // Cloudinary configuration for React Native
 // We use Firebase Functions for secure uploads
 import { Platform } from 'react-native';
+import { Image } from 'expo-image';
 import { getFunctions, httpsCallable } from "firebase/functions";
+import { MessageImage } from '../types/message';
 
-// Function to upload an image to Cloudinary using signed upload
-export const uploadImage = async (localUri: string): Promise<string> => {
+// The parts of Cloudinary's upload response we use
+interface CloudinaryUpload {
+  secure_url: string;
+  width: number;
+  height: number;
+}
+
+// Uploads an image to Cloudinary using signed upload. With a conversationId,
+// the signature is for that conversation's photo folder
+const uploadToCloudinary = async (
+  localUri: string,
+  signatureParams?: { conversationId: string }
+): Promise<CloudinaryUpload> => {
   try {
     // Get the Cloudinary signature from Firebase Function
     const functions = getFunctions();
     const getCloudinarySignature = httpsCallable(functions, 'getCloudinarySignature');
-    const signatureResult = await getCloudinarySignature();
+    const signatureResult = await getCloudinarySignature(signatureParams);
     
     // Extract signature data
     const signatureData = signatureResult.data as {
@@ -67,7 +80,7 @@ export const uploadImage = async (localUri: string): Promise<string> => {
     const uploadResult = await uploadResponse.json();
     
     if (uploadResponse.ok) {
-          return uploadResult.secure_url;
+          return uploadResult as CloudinaryUpload;
     } else {
       console.error('Upload failed:', uploadResult.error);
       throw new Error(uploadResult.error?.message || 'Upload failed');
@@ -76,4 +89,29 @@ export const uploadImage = async (localUri: string): Promise<string> => {
     console.error('Error uploading to Cloudinary:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Function to upload an image to Cloudinary using signed upload
+export const uploadImage = async (localUri: string): Promise<string> => {
+  const upload = await uploadToCloudinary(localUri);
+  return upload.secure_url;
+};
+
+// Uploads a photo for a chat message and returns what the message stores:
+// the URL, the dimensions and a blurhash placeholder worked out on the device
+export const uploadChatImage = async (localUri: string, conversationId: string): Promise<MessageImage> => {
+  const [upload, blurhash] = await Promise.all([
+    uploadToCloudinary(localUri, { conversationId }),
+    Image.generateBlurhashAsync(localUri, [4, 3]).catch((error) => {
+      console.warn('Could not generate a blurhash for the photo:', error);
+      return null;
+    })
+  ]);
+  
+  return {
+    url: upload.secure_url,
+    width: upload.width,
+    height: upload.height,
+    blurhash: blurhash || null
+  };
+};
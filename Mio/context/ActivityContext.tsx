@@ -0,0 +1,193 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  updateDoc,
+  writeBatch,
+  onSnapshot
+} from 'firebase/firestore';
+import * as Notifications from 'expo-notifications';
+import { db } from '../config/firebaseConfig';
+import { useAuth } from './AuthContext';
+import { ActivityItem } from '../types/activity';
+
+// Number of activity entries fetched per page
+const ACTIVITY_PAGE_SIZE = 20;
+// Unread entries are counted up to this many; the badge shows "99+" beyond it
+const UNREAD_COUNT_LIMIT = 100;
+// Firestore allows 500 writes per batch
+const MARK_READ_BATCH_SIZE = 450;
+
+interface IActivityContext {
+  notifications: ActivityItem[];
+  unreadCount: number;
+  hasMoreNotifications: boolean;
+  isLoading: boolean;
+  loadMoreNotifications: () => void;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+interface ActivityProviderProps {
+  children: ReactNode;
+}
+
+const ActivityContext = createContext<IActivityContext | undefined>(undefined);
+
+export const useActivity = () => {
+  const context = useContext(ActivityContext);
+  if (!context) {
+    throw new Error('useActivity must be used within an ActivityProvider');
+  }
+  return context;
+};
+
+export const ActivityProvider: React.FC<ActivityProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+
+  const [notifications, setNotifications] = useState<ActivityItem[]>([]);
+  const [notificationsLimit, setNotificationsLimit] = useState(ACTIVITY_PAGE_SIZE);
+  const [hasMoreNotifications, setHasMoreNotifications] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Listen to the newest activity entries, one page at a time
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setHasMoreNotifications(false);
+      setNotificationsLimit(ACTIVITY_PAGE_SIZE);
+      setIsLoading(false);
+      return;
+    }
+
+    const notificationsQuery = query(
+      collection(db, 'users', user.uid, 'notifications'),
+      orderBy('createdAt', 'desc'),
+      limit(notificationsLimit)
+    );
+
+    const unsubscribe = onSnapshot(notificationsQuery,
+      (snapshot) => {
+        setNotifications(snapshot.docs.map(activityDoc => ({
+          id: activityDoc.id,
+          ...activityDoc.data()
+        }) as ActivityItem));
+        // A full page means there may be older entries left to load
+        setHasMoreNotifications(snapshot.size >= notificationsLimit);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('[ActivityContext] Error listening to activity:', err);
+        setNotifications([]);
+        setHasMoreNotifications(false);
+        setIsLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user, notificationsLimit]);
+
+  // Keep the unread count live for the tab badge, independent of the loaded pages
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const unreadQuery = query(
+      collection(db, 'users', user.uid, 'notifications'),
+      where('read', '==', false),
+      limit(UNREAD_COUNT_LIMIT)
+    );
+
+    const unsubscribe = onSnapshot(unreadQuery,
+      (snapshot) => setUnreadCount(snapshot.size),
+      (err) => {
+        console.error('[ActivityContext] Error listening to unread activity:', err);
+        setUnreadCount(0);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user]);
+
+  // Mirror the unread count on the app icon
+  useEffect(() => {
+    Notifications.setBadgeCountAsync(unreadCount)
+      .catch(error => console.error('[ActivityContext] Error setting badge count:', error));
+  }, [unreadCount]);
+
+  const loadMoreNotifications = useCallback(() => {
+    if (!hasMoreNotifications) return;
+    setNotificationsLimit(prev => prev + ACTIVITY_PAGE_SIZE);
+  }, [hasMoreNotifications]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    if (!user) return;
+
+    try {
+      await updateDoc(doc(db, 'users', user.uid, 'notifications', notificationId), { read: true });
+    } catch (error) {
+      console.error('[ActivityContext] Error marking activity as read:', error);
+    }
+  }, [user]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const unreadQuery = query(
+        collection(db, 'users', user.uid, 'notifications'),
+        where('read', '==', false),
+        limit(MARK_READ_BATCH_SIZE)
+      );
+
+      // Keep going until no unread entries are left
+      let snapshot = await getDocs(unreadQuery);
+      while (!snapshot.empty) {
+        const batch = writeBatch(db);
+        snapshot.docs.forEach(activityDoc => batch.update(activityDoc.ref, { read: true }));
+        await batch.commit();
+
+        if (snapshot.size < MARK_READ_BATCH_SIZE) break;
+        snapshot = await getDocs(unreadQuery);
+      }
+    } catch (error) {
+      console.error('[ActivityContext] Error marking all activity as read:', error);
+    }
+  }, [user]);
+
+  const contextValue = useMemo(() => ({
+    notifications,
+    unreadCount,
+    hasMoreNotifications,
+    isLoading,
+    loadMoreNotifications,
+    markAsRead,
+    markAllAsRead
+  }), [
+    notifications,
+    unreadCount,
+    hasMoreNotifications,
+    isLoading,
+    loadMoreNotifications,
+    markAsRead,
+    markAllAsRead
+  ]);
+
+  return (
+    <ActivityContext.Provider value={contextValue}>
+      {children}
+    </ActivityContext.Provider>
+  );
+};
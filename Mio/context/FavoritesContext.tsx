@@ -1,14 +1,15 @@
 import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
-import { doc, getDoc, updateDoc, arrayUnion, arrayRemove, Timestamp, increment, setDoc } from 'firebase/firestore';
-import { AppState, AppStateStatus } from 'react-native';
+import { doc, getDoc } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from '../config/firebaseConfig';
 import { useAuth } from './AuthContext';
+import { formatCountdown, useCountdown } from '../hooks/useCountdown';
+import { FavoriteChangeResponse, FavoritesQuota, StoredFavoritesQuota } from '../types/favorites';
 import * as Haptics from 'expo-haptics';
 
-// Constants
+// Constants, mirroring the limits the addFavorite and removeFavorite functions enforce
 const MAX_FAVORITES = 10;
 const MAX_WEEKLY_REMOVALS = 5;
-const COOLDOWN_MINUTES = 60*24*3;
 
 type FavoriteType = 'anime' | 'kdrama';
 
@@ -53,12 +54,15 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   });
   const [isAddingToFavorites, setIsAddingToFavorites] = useState(false);
   const [isRemovingFavorite, setIsRemovingFavorite] = useState(false);
-  const [cooldownTimer, setCooldownTimer] = useState<number | null>(null);
   const [removalCount, setRemovalCount] = useState(0);
-  const [lastRemovalTime, setLastRemovalTime] = useState<Date | null>(null);
   const [cooldownEndTime, setCooldownEndTime] = useState<Date | null>(null);
-  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
-  const [formattedCooldownString, setFormattedCooldownString] = useState<string>('');
+
+  // Once the cooldown is over, removals start counting again
+  const cooldownTimer = useCountdown(cooldownEndTime, () => {
+    setCooldownEndTime(null);
+    setRemovalCount(0);
+  });
+  const formattedCooldownString = cooldownTimer ? formatCountdown(cooldownTimer) : '';
 
   // Initial fetch and cooldown timer setup
   useEffect(() => {
@@ -69,95 +73,17 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [user]);
 
-  // App state change listener for handling background/foreground transitions
-  useEffect(() => {
-    const subscription = AppState.addEventListener('change', nextAppState => {
-      // When app comes to foreground from background/inactive state
-      if (appState !== 'active' && nextAppState === 'active' && cooldownEndTime) {
-        // Recalculate remaining time based on absolute end time
-        updateRemainingCooldownTime();
-      }
-      setAppState(nextAppState);
-    });
-
-    return () => {
-      subscription.remove();
-    };
-  }, [appState, cooldownEndTime]);
-
-  // Helper function to format time
-  const formatCooldownTime = (totalSeconds: number): string => {
-    if (totalSeconds <= 0) return "Ready";
-
-    const days = Math.floor(totalSeconds / (60 * 60 * 24));
-    const hours = Math.floor((totalSeconds % (60 * 60 * 24)) / (60 * 60));
-    const minutes = Math.floor((totalSeconds % (60 * 60)) / 60);
-    const seconds = Math.floor(totalSeconds % 60);
-
-    let parts: string[] = [];
-
-    if (days > 0) {
-      parts.push(`${days}d`);
-      if (hours > 0) parts.push(`${hours}h`); // Show hours if days are present
-    } else if (hours > 0) {
-      parts.push(`${hours}h`);
-      if (minutes > 0) parts.push(`${minutes}m`); // Show minutes if hours are present
-    } else if (minutes > 0) {
-      parts.push(`${minutes}m`);
-      if (seconds > 0) parts.push(`${seconds}s`); // Show seconds if minutes are present
-    } else if (seconds > 0) { 
-      parts.push(`${seconds}s`); // Only show seconds if nothing else is left
-    }
-
-    // Fallback in case calculation results in empty parts (shouldn't happen with logic above)
-    return parts.length > 0 ? parts.join(' ') : "Ready"; 
-  };
-
-  // Function to update timer based on absolute end time
-  const updateRemainingCooldownTime = useCallback(() => {
-    if (!cooldownEndTime) return;
-    
-    const now = new Date();
-    const remainingMs = cooldownEndTime.getTime() - now.getTime();
-    
-    if (remainingMs <= 0) {
-      setCooldownEndTime(null);
-      setCooldownTimer(null);
-      setRemovalCount(0);
-      setFormattedCooldownString('');
-    } else {
-      const remainingSeconds = Math.ceil(remainingMs / 1000);
-      setCooldownTimer(remainingSeconds);
-      setFormattedCooldownString(formatCooldownTime(remainingSeconds));
-    }
-  }, [cooldownEndTime]);
-
-  // Countdown timer effect - now uses the updateRemainingCooldownTime function
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (cooldownEndTime) {
-      // Initial call to set the correct time
-      updateRemainingCooldownTime();
-      
-      // Set up interval that updates while app is in foreground
-      interval = setInterval(() => {
-        updateRemainingCooldownTime();
-      }, 1000);
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [cooldownEndTime, updateRemainingCooldownTime]);
-
   const resetState = () => {
     setUserFavorites({ shows: [] });
     setRemovalCount(0);
-    setCooldownTimer(null);
-    setLastRemovalTime(null);
     setCooldownEndTime(null);
-    setFormattedCooldownString('');
+  };
+
+  // Favorites and removal limits as the server has them after a change
+  const applyFavoriteChange = (favoriteShows: string[], quota: FavoritesQuota) => {
+    setUserFavorites({ shows: favoriteShows });
+    setRemovalCount(quota.removalCount);
+    setCooldownEndTime(quota.cooldownEndTime ? new Date(quota.cooldownEndTime) : null);
   };
 
   const refreshUserFavorites = async () => {
@@ -168,54 +94,19 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       if (userDoc.exists() && userDoc.data().profile) {
         const profile = userDoc.data().profile;
         
-        // Update favorites - if favoriteShows exists use it, otherwise try to merge the old format
-        const updatedFavorites = {
+        setUserFavorites({
           shows: profile.favoriteShows || []
-        };
-        
-        setUserFavorites(updatedFavorites);
-        
-        // Update removal count and check cooldown
-        if (profile.weeklyRemovals !== undefined) {
-          setRemovalCount(profile.weeklyRemovals);
-        }
+        });
         
-        if (profile.lastRemovalTime) {
-          const lastRemoval = profile.lastRemovalTime.toDate();
-          const cooldownEnd = new Date(lastRemoval.getTime() + COOLDOWN_MINUTES * 60 * 1000);
-          const now = new Date();
-          
-          if (now < cooldownEnd) {
-            // Cooldown is still active
-            const remainingMs = cooldownEnd.getTime() - now.getTime();
-            const remainingSeconds = Math.ceil(remainingMs / 1000);
-            setCooldownTimer(remainingSeconds);
-            setLastRemovalTime(lastRemoval);
-            setCooldownEndTime(cooldownEnd);
-            setFormattedCooldownString(formatCooldownTime(remainingSeconds));
-          } else if (profile.weeklyRemovals === 0) {
-            // Cooldown has expired and reset is already done
-            setCooldownTimer(null);
-            setLastRemovalTime(null);
-            setCooldownEndTime(null);
-            setFormattedCooldownString('');
-          } else {
-            // Cooldown has expired but count wasn't reset
-            setCooldownTimer(null);
-            setRemovalCount(0);
-            setLastRemovalTime(null);
-            setCooldownEndTime(null);
-            setFormattedCooldownString('');
-            
-            // Update Firestore
-            try {
-              await updateDoc(doc(db, 'users', user.uid), {
-                'profile.weeklyRemovals': 0
-              });
-            } catch (error) {
-              // Silent error handling
-            }
-          }
+        // Removal limits are only written by the server; a cooldown that has
+        // passed counts as over even before the server next resets it
+        const quota: StoredFavoritesQuota | undefined = userDoc.data().favoritesQuota;
+        if (quota?.cooldownEndTime && quota.cooldownEndTime > Date.now()) {
+          setRemovalCount(quota.removalCount);
+          setCooldownEndTime(new Date(quota.cooldownEndTime));
+        } else {
+          setRemovalCount(quota?.cooldownEndTime ? 0 : quota?.removalCount || 0);
+          setCooldownEndTime(null);
         }
       }
     } catch (error) {
@@ -235,32 +126,6 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return MAX_WEEKLY_REMOVALS - removalCount;
   }, [removalCount]);
 
-  // Helper function to update the showUsers collection
-  const updateShowUsers = async (showId: string, isAdding: boolean) => {
-    if (!user) return;
-    
-    try {
-      const showUserRef = doc(db, 'showUsers', showId);
-      
-      if (isAdding) {
-        // Add user ID using arrayUnion. If the doc doesn't exist, it creates it.
-        // If the user ID is already in the array, it does nothing.
-        await setDoc(showUserRef, {
-          showId: showId, // Optional: keep showId for clarity
-          users: arrayUnion(user.uid)
-        }, { merge: true }); // Use merge: true to create or update
-      } else {
-        // Remove user ID using arrayRemove. If the user ID isn't there, it does nothing.
-        // If the document exists and the array becomes empty, the document remains.
-        await updateDoc(showUserRef, {
-          users: arrayRemove(user.uid)
-        });
-      }
-    } catch (error) {
-      // Silent error handling
-    }
-  };
-
   const addToFavorites = async (show: ShowItem, onSuccess?: () => void, onError?: () => void): Promise<void> => {
     if (!user) return;
     
@@ -269,8 +134,6 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setIsAddingToFavorites(true);
     
     try {
-      const userRef = doc(db, 'users', user.uid);
-      
       // First update local state immediately for better UI responsiveness
       const updatedFavorites = {
         ...userFavorites,
@@ -278,26 +141,26 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       };
       setUserFavorites(updatedFavorites);
       
-      // Then update Firestore
-      await updateDoc(userRef, {
-        'profile.favoriteShows': arrayUnion(showId)
-      });
-      
-      // Update showUsers collection
-      await updateShowUsers(showId, true);
+      // Then let the server apply the limits and store it
+      const result = await httpsCallable(getFunctions(), 'addFavorite')({ showId });
+      const { favoriteShows, quota } = result.data as FavoriteChangeResponse;
+      applyFavoriteChange(favoriteShows, quota);
       
       // Trigger haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       
       // Call success callback after both local and remote updates are complete
       if (onSuccess) setTimeout(() => onSuccess(), 0);
-    } catch (error) {
-      // Rollback local state on error
-      const rollbackFavorites = {
-        ...userFavorites,
-        shows: userFavorites.shows.filter(id => id !== showId)
-      };
-      setUserFavorites(rollbackFavorites);
+    } catch (error: any) {
+      // Rollback local state on error, to the server's state when the error carries it
+      if (error.details?.quota) {
+        applyFavoriteChange(error.details.favoriteShows, error.details.quota);
+      } else {
+        setUserFavorites({
+          ...userFavorites,
+          shows: userFavorites.shows.filter(id => id !== showId)
+        });
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       if (onError) setTimeout(() => onError(), 0);
@@ -314,15 +177,6 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setIsRemovingFavorite(true);
     
     try {
-      const userRef = doc(db, 'users', user.uid);
-      
-      // Calculate the new removal count
-      const newRemovalCount = removalCount + 1;
-      
-      // Check if this is the 5th removal (max limit) to start cooldown
-      const needsCooldown = newRemovalCount >= MAX_WEEKLY_REMOVALS;
-      const now = new Date();
-      
       // First update local state immediately for better UI responsiveness
       const updatedFavorites = {
         ...userFavorites,
@@ -330,37 +184,24 @@ export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       };
       setUserFavorites(updatedFavorites);
       
-      // Update removal count and cooldown in local state
-      if (needsCooldown) {
-        setRemovalCount(0);
-        const cooldownEnd = new Date(now.getTime() + COOLDOWN_MINUTES * 60 * 1000);
-        setCooldownEndTime(cooldownEnd);
-        setCooldownTimer(COOLDOWN_MINUTES * 60);
-        setLastRemovalTime(now);
-        setFormattedCooldownString('');
-      } else {
-        setRemovalCount(newRemovalCount);
-      }
-      
-      // Then update Firestore
-      await updateDoc(userRef, {
-        'profile.favoriteShows': arrayRemove(showId),
-        'profile.lastRemovalTime': needsCooldown ? Timestamp.now() : (lastRemovalTime ? Timestamp.fromDate(lastRemovalTime) : null),
-        'profile.weeklyRemovals': needsCooldown ? 0 : newRemovalCount,
-        'profile.cooldownEndTime': needsCooldown ? Timestamp.fromDate(new Date(now.getTime() + COOLDOWN_MINUTES * 60 * 1000)) : null
-      });
-      
-      // Update showUsers collection
-      await updateShowUsers(showId, false);
+      // Then let the server apply the limits and store it; the returned
+      // removal count and cooldown are the ones that count
+      const result = await httpsCallable(getFunctions(), 'removeFavorite')({ showId });
+      const { favoriteShows, quota } = result.data as FavoriteChangeResponse;
+      applyFavoriteChange(favoriteShows, quota);
       
       // Trigger haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       
       // Call success callback after both local and remote updates are complete
       if (onSuccess) setTimeout(() => onSuccess(), 0);
-    } catch (error) {
-      // Rollback local state on error
-      refreshUserFavorites(); // Reload from Firestore to ensure consistency
+    } catch (error: any) {
+      // Rollback local state on error, to the server's state when the error carries it
+      if (error.details?.quota) {
+        applyFavoriteChange(error.details.favoriteShows, error.details.quota);
+      } else {
+        refreshUserFavorites(); // Reload from Firestore to ensure consistency
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       if (onError) setTimeout(() => onError(), 0);
@@ -1,9 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 import { 
-  
+  collection,
   doc, 
-  getDoc, 
-
+  query,
+  orderBy,
+  limit,
+  where,
   updateDoc, 
   arrayUnion, 
   arrayRemove,
@@ -11,31 +13,44 @@ import {
   onSnapshot
 } from 'firebase/firestore';
 import { getFunctions, httpsCallable } from "firebase/functions";
-import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { db } from '../config/firebaseConfig';
 import { useAuth } from './AuthContext';
 import { useFavorites } from './FavoritesContext';
 import { useRegistration } from './RegistrationContext';
+import { formatCountdown, useCountdown } from '../hooks/useCountdown';
 import * as Haptics from 'expo-haptics';
-import { MatchData,  SearchMatchesResponse } from '../types/match';
+import {
+  CandidateDecision,
+  CandidateOutcome,
+  MatchCandidate,
+  MatchData,
+  RespondToCandidateResponse,
+  SearchMatchesResponse,
+  SearchQuota
+} from '../types/match';
 
+// Number of matches fetched per page from the user's matches subcollection
+const MATCHES_PAGE_SIZE = 20;
 
 
 interface IMatchContext {
   matches: MatchData[];
+  hasMoreMatches: boolean;
+  loadMoreMatches: () => void;
+  candidates: MatchCandidate[];
+  respondToCandidate: (userId: string, decision: CandidateDecision) => Promise<CandidateOutcome>;
   isSearching: boolean;
-  cooldownEndTime: Date | null;
+  remainingSearches: number | null; // Null until the server has been asked
+  nextSearchAt: Date | null; // Set once the day's searches are used up
   searchMatches: () => Promise<number>;
   remainingTimeString: string;
-  lastSearchTime: Date | null;
   isLoading: boolean;
   findMatches: () => Promise<void>;
   canSearch: boolean;
-  formatTime: (seconds: number) => string;
   error: string | null;
   unmatchUser: (userId: string, isBlockAction?: boolean) => Promise<void>;
-  updateChattingWithStatus: (userId: string) => Promise<boolean>;
+  requestPhotoReveal: (userId: string) => Promise<boolean>;
   blockUser: (userIdToBlock: string) => Promise<void>;
   unblockUser: (userIdToUnblock: string) => Promise<void>;
   blockedUsers: string[];
@@ -61,20 +76,21 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
   const { userFavorites } = useFavorites();
   
   const [matches, setMatches] = useState<MatchData[]>([]);
+  const [matchesLimit, setMatchesLimit] = useState(MATCHES_PAGE_SIZE);
+  const [hasMoreMatches, setHasMoreMatches] = useState(false);
+  const [pendingCandidates, setPendingCandidates] = useState<MatchCandidate[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [cooldownEndTime, setCooldownEndTime] = useState<Date | null>(null);
-  const [remainingTimeString, setRemainingTimeString] = useState<string>('');
-  const [lastSearchTime, setLastSearchTime] = useState<Date | null>(null);
-  const [searchCount, setSearchCount] = useState<number>(0);
+  const [searchQuota, setSearchQuota] = useState<SearchQuota | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
   const [blockedUsers, setBlockedUsers] = useState<string[]>([]);
   
   // Initialize Firebase Functions
   const functions = getFunctions();
   const callDeleteConversationData = httpsCallable(functions, 'deleteConversationData');
   const callSearchUserMatches = httpsCallable(functions, 'searchUserMatches');
+  const callRespondToCandidate = httpsCallable(functions, 'respondToCandidate');
+  const callRequestPhotoReveal = httpsCallable(functions, 'requestPhotoReveal');
   
   // Replace loadPersistedMatches and part of loadUserSearchData with a real-time listener
   useEffect(() => {
@@ -90,49 +106,13 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
             const data = docSnapshot.data();
             const profile = data.profile || {};
             
-            // Update matches state from the snapshot
-
-            setMatches(data.matches || []); 
-            
             // Update blocked users state from the snapshot
             setBlockedUsers(profile.blockedUsers || []);
-
-            // Update search data (can be combined here)
-            if (data.matchSearchCount !== undefined) {
-              setSearchCount(data.matchSearchCount);
-            } else {
-              setSearchCount(0);
-            }
-            if (data.lastMatchSearch) {
-              const lastSearch = data.lastMatchSearch.toDate();
-              setLastSearchTime(lastSearch);
-              if (data.cooldownEndTime) {
-                const cooldownEnd = data.cooldownEndTime.toDate();
-                const now = new Date();
-                if (cooldownEnd > now) {
-                  setCooldownEndTime(cooldownEnd);
-                } else {
-                  setCooldownEndTime(null); // Clear ended cooldown
-                  // Optional: reset search count logic if needed based on time
-                  // const hoursSinceLastSearch = (now.getTime() - lastSearch.getTime()) / (1000 * 60 * 60);
-                  // if (hoursSinceLastSearch > 24 && data.matchSearchCount > 0) { ... }
-                }
-              } else {
-                 setCooldownEndTime(null); // Clear if missing
-              }
-            } else {
-              setLastSearchTime(null);
-              setCooldownEndTime(null); 
-            }
             setError(null); // Clear error on successful update
           } else {
             // User document doesn't exist (maybe deleted?)
 
-            setMatches([]);
             setBlockedUsers([]);
-            setCooldownEndTime(null);
-            setLastSearchTime(null);
-            setSearchCount(0);
             setError("User data not found.");
           }
           setIsLoading(false); // Set loading false after first snapshot received
@@ -142,11 +122,7 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
           setError("Failed to load user data in real-time.");
           setIsLoading(false);
           // Reset state on error
-          setMatches([]);
           setBlockedUsers([]);
-          setCooldownEndTime(null);
-          setLastSearchTime(null);
-          setSearchCount(0);
         }
       );
 
@@ -159,142 +135,141 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
     } else {
       // User logged out, reset everything
 
-      setMatches([]);
       setBlockedUsers([]);
-      setCooldownEndTime(null);
-      setLastSearchTime(null);
-      setSearchCount(0);
       setIsLoading(false);
       setError(null);
     }
   }, [user]); // Re-run effect when user changes
-  
-  // Set up AppState listener to handle background/foreground transitions
+
+  // Listen to the newest matches, one page at a time, so profile edits don't re-download them
   useEffect(() => {
-    const subscription = AppState.addEventListener('change', nextAppState => {
-      // When app comes to foreground from background/inactive state
-      if (appState !== 'active' && nextAppState === 'active' && cooldownEndTime) {
-        // Recalculate remaining time based on absolute end time
-        updateTimeRemainingString();
+    if (!user) {
+      setMatches([]);
+      setHasMoreMatches(false);
+      setMatchesLimit(MATCHES_PAGE_SIZE);
+      return;
+    }
+
+    const matchesQuery = query(
+      collection(db, 'users', user.uid, 'matches'),
+      orderBy('matchTimestamp', 'desc'),
+      limit(matchesLimit)
+    );
+
+    const unsubscribe = onSnapshot(matchesQuery,
+      (snapshot) => {
+        setMatches(snapshot.docs.map(matchDoc => matchDoc.data() as MatchData));
+        // A full page means there may be older matches left to load
+        setHasMoreMatches(snapshot.size >= matchesLimit);
+      },
+      (err) => {
+        console.error("[MatchContext] Error listening to matches:", err);
+        setError("Failed to load matches in real-time.");
+        setMatches([]);
+        setHasMoreMatches(false);
       }
-      setAppState(nextAppState);
-    });
+    );
 
     return () => {
-      subscription.remove();
+      unsubscribe();
     };
-  }, [appState, cooldownEndTime]);
+  }, [user, matchesLimit]);
 
- 
+  const loadMoreMatches = useCallback(() => {
+    if (!hasMoreMatches) return;
+    setMatchesLimit(prev => prev + MATCHES_PAGE_SIZE);
+  }, [hasMoreMatches]);
 
-  // Function to update time string based on absolute end time
-  const updateTimeRemainingString = useCallback(() => {
-    if (!cooldownEndTime) return;
-    
-    const now = new Date();
-    const remainingMs = cooldownEndTime.getTime() - now.getTime();
-    
-    if (remainingMs <= 0) {
-      setCooldownEndTime(null);
-      setRemainingTimeString('');
-    } else {
-      const remainingSeconds = Math.ceil(remainingMs / 1000);
-      const minutes = Math.floor(remainingSeconds / 60);
-      const seconds = remainingSeconds % 60;
-      setRemainingTimeString(`${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-    }
-  }, [cooldownEndTime]);
-  
-  // Update cooldown timer - now uses the updateTimeRemainingString function
+  // Listen to suggestions the user hasn't answered yet; liked ones stay on the
+  // server until the other side answers but are no longer shown
   useEffect(() => {
-    if (cooldownEndTime) {
-      // Initial call to set the correct string
-      updateTimeRemainingString();
-      
-      // Set up interval that updates while app is in foreground
-      const interval = setInterval(() => {
-        updateTimeRemainingString();
-      }, 1000);
-      
-      return () => clearInterval(interval);
+    if (!user) {
+      setPendingCandidates([]);
+      return;
     }
-  }, [cooldownEndTime, updateTimeRemainingString]);
-
-  // Format time helper function
-  const formatTime = useCallback((seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  }, []);
+
+    const candidatesQuery = query(
+      collection(db, 'users', user.uid, 'candidates'),
+      where('decision', '==', null)
+    );
+
+    const unsubscribe = onSnapshot(candidatesQuery,
+      (snapshot) => {
+        // Sorted here rather than in the query so no composite index is needed
+        const pending = snapshot.docs.map(candidateDoc => candidateDoc.data() as MatchCandidate);
+        pending.sort((a, b) => b.suggestedAt.toMillis() - a.suggestedAt.toMillis());
+        setPendingCandidates(pending);
+      },
+      (err) => {
+        console.error("[MatchContext] Error listening to suggestions:", err);
+        setError("Failed to load suggestions in real-time.");
+        setPendingCandidates([]);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user]);
+
+  // Blocked users stay hidden even before the server catches up
+  const candidates = useMemo(
+    () => pendingCandidates.filter(candidate => !blockedUsers.includes(candidate.userId)),
+    [pendingCandidates, blockedUsers]
+  );
   
-  const updateChattingWithStatus = useCallback(async (matchedUserId: string): Promise<boolean> => {
-    if (!user) return false;
-    
+  // The server works out how many searches are left; asked again when the
+  // favorites change, since new favorites can earn bonus searches
+  const refreshSearchQuota = useCallback(async () => {
+    if (!user) {
+      setSearchQuota(null);
+      return;
+    }
+
     try {
-      // Get the current user's document
-      const userRef = doc(db, 'users', user.uid);
-      const userDoc = await getDoc(userRef);
-      
-      // Get the matched user's document
-      const matchedUserRef = doc(db, 'users', matchedUserId);
-      const matchedUserDoc = await getDoc(matchedUserRef);
-      
-      if (!userDoc.exists() || !matchedUserDoc.exists()) {
-        return false;
-      }
-      
-      // Begin a batch update for atomic operations
-      const batch = writeBatch(db);
-      
-      // Update current user's match with matched user
-      const userMatches = userDoc.data().matches || [];
-      const updatedUserMatches = userMatches.map((match: MatchData) => {
-        if (match.userId === matchedUserId) {
-          return {...match, chattingWith: true};
-        }
-        return match;
-      });
-      
-      batch.update(userRef, { matches: updatedUserMatches });
-      
-      // Update matched user's match with current user
-      const matchedUserMatches = matchedUserDoc.data().matches || [];
-      const updatedMatchedUserMatches = matchedUserMatches.map((match: MatchData) => {
-        if (match.userId === user.uid) {
-          return {...match, chattingWith: true};
-        }
-        return match;
-      });
-      
-      batch.update(matchedUserRef, { matches: updatedMatchedUserMatches });
-      
-      // Commit the batch
-      await batch.commit();
-      
-      // Update local state - update the match in the state instead of filtering it out
-      setMatches(prev => {
-    
-        return prev.map(match => 
-        match.userId === matchedUserId 
-          ? { ...match, chattingWith: true } 
-          : match
-        );
-      });
-      
-      return true;
+      const result = await httpsCallable(getFunctions(), 'getSearchQuota')();
+      const { remaining, nextAvailableAt } = result.data as SearchQuota;
+      setSearchQuota({ remaining, nextAvailableAt });
     } catch (error) {
-      console.error('[MatchContext] Error updating chattingWith status:', error);
-      return false;
+      console.error('[MatchContext] Error fetching search quota:', error);
     }
   }, [user]);
+
+  const favoriteShowsKey = (userFavorites.shows || []).join(',');
+  useEffect(() => {
+    refreshSearchQuota();
+  }, [refreshSearchQuota, favoriteShowsKey]);
+
+  const nextSearchAt = useMemo(
+    () => searchQuota?.nextAvailableAt ? new Date(searchQuota.nextAvailableAt) : null,
+    [searchQuota]
+  );
+
+  // Check back with the server once the next search should have freed up
+  const secondsUntilNextSearch = useCountdown(nextSearchAt, refreshSearchQuota);
+  const remainingTimeString = secondsUntilNextSearch ? formatCountdown(secondsUntilNextSearch) : '';
+  
+  // Asks to reveal photos early; they unlock once both sides have asked
+  const requestPhotoReveal = useCallback(async (matchedUserId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const result = await callRequestPhotoReveal({ matchedUserId });
+      const { unlocked } = result.data as { success: boolean; unlocked: boolean };
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      return unlocked;
+    } catch (error: any) {
+      console.error('[MatchContext] Error requesting photo reveal:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      throw error;
+    }
+  }, [user, callRequestPhotoReveal]);
   
   const unmatchUser = useCallback(async (matchedUserId: string, isBlockAction: boolean = false) => {
     if (!user) return;
     
 
     
-    const userRef = doc(db, 'users', user.uid);
-    const matchedUserRef = doc(db, 'users', matchedUserId);
     const cacheKey = `conversation_${user.uid}_${matchedUserId}`;
     const otherUserCacheKey = `conversation_${matchedUserId}_${user.uid}`;
 
@@ -304,23 +279,10 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
         await AsyncStorage.removeItem(otherUserCacheKey);
         
 
-        // 1. Remove match entries from both users' profiles
+        // 1. Remove the match docs on both sides
         const batch = writeBatch(db);
-
-      const userDoc = await getDoc(userRef);
-      if (userDoc.exists() && userDoc.data().matches) {
-        const userMatches = userDoc.data().matches || [];
-        const updatedMatches = userMatches.filter((match: MatchData) => match.userId !== matchedUserId);
-          
-            batch.update(userRef, { matches: updatedMatches });
-      }
-      
-      const matchedUserDoc = await getDoc(matchedUserRef);
-      if (matchedUserDoc.exists() && matchedUserDoc.data().matches) {
-        const matchedUserMatches = matchedUserDoc.data().matches || [];
-        const updatedMatchedUserMatches = matchedUserMatches.filter((match: MatchData) => match.userId !== user.uid);
-            batch.update(matchedUserRef, { matches: updatedMatchedUserMatches });
-        }
+        batch.delete(doc(db, 'users', user.uid, 'matches', matchedUserId));
+        batch.delete(doc(db, 'users', matchedUserId, 'matches', user.uid));
 
         await batch.commit();
        
@@ -413,6 +375,30 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
       }
   }, [user, blockedUsers]);
   
+  const respondToCandidate = useCallback(async (candidateUserId: string, decision: CandidateDecision) => {
+    if (!user) throw new Error('Not signed in');
+
+    // Hide the suggestion right away; the listener settles the final state
+    setPendingCandidates(prev => prev.filter(candidate => candidate.userId !== candidateUserId));
+
+    try {
+      const result = await callRespondToCandidate({ candidateId: candidateUserId, decision });
+      const data = result.data as RespondToCandidateResponse;
+
+      Haptics.notificationAsync(
+        data.outcome === 'match'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Warning
+      );
+      return data.outcome;
+    } catch (error: any) {
+      console.error('[MatchContext] Error responding to suggestion:', error);
+      setError(`Failed to respond to suggestion: ${error.message || error}`);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      throw error;
+    }
+  }, [user, callRespondToCandidate]);
+
   // Modified searchMatches function that uses the cloud function instead of client logic
   const searchMatches = useCallback(async () => {
     if (!user) return 0;
@@ -421,32 +407,20 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
     setError(null);
     
     try {
-      // Use the cloud function to search for matches
-      const result = await callSearchUserMatches({
-        favoriteShowIds: userFavorites.shows || []
-      });
+      // Use the cloud function to search for matches; it reads the favorites from the profile
+      const result = await callSearchUserMatches();
       
       // Process the response
       const data = result.data as SearchMatchesResponse;
       
       if (data.success) {
-        // Update cooldown time regardless of finding new matches
-        if (data.cooldownEnd) {
-          const cooldownEndDate = new Date(data.cooldownEnd);
-          setCooldownEndTime(cooldownEndDate); // Always set cooldown from response
-          setLastSearchTime(new Date());
-          // Update search count locally based on previous count (server updates canonical count)
-          const newSearchCount = (searchCount % 3) + 1;
-          setSearchCount(newSearchCount); 
-        } else {
-          // If server didn't return a cooldown, clear it locally (shouldn't happen on success normally)
-          setCooldownEndTime(null);
-        }
+        // What's left after this search, regardless of finding new matches
+        setSearchQuota({ remaining: data.remaining, nextAvailableAt: data.nextAvailableAt });
         
         // Handle feedback
-        const newMatchCount = data.matchCount || 0;
+        const newCandidateCount = data.candidateCount || 0;
       
-      if (newMatchCount > 0) {
+      if (newCandidateCount > 0) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       } else {
             // Provide feedback even if no new matches found, but search was successful
@@ -455,18 +429,22 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
             // setError("No new matches found this time."); // Example
           }
         
-        return newMatchCount; // Return count as before
+        return newCandidateCount; // Number of new suggestions to review
       } else {
         throw new Error(data.message || "Unknown error in search matches");
       }
     } catch (error: any) {
+        // Out of searches: the error carries the quota, so the countdown can start
+        if (error.code === 'functions/resource-exhausted' && typeof error.details?.remaining === 'number') {
+          setSearchQuota({ remaining: error.details.remaining, nextAvailableAt: error.details.nextAvailableAt });
+        }
         setError(`Search failed: ${error.message || error}`);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return 0;
     } finally {
       setIsSearching(false);
     }
-  }, [user, userFavorites.shows, callSearchUserMatches, cooldownEndTime, searchCount]); // Added cooldownEndTime, searchCount to dependencies
+  }, [user, callSearchUserMatches]);
 
   // Implement findMatches as a wrapper around searchMatches for compatibility
   const findMatches = useCallback(async () => {
@@ -482,34 +460,40 @@ export const MatchContextProvider: React.FC<MatchContextProviderProps> = ({ chil
   // Memoize context value
   const contextValue = useMemo(() => ({
     matches,
+    hasMoreMatches,
+    loadMoreMatches,
+    candidates,
+    respondToCandidate,
     isSearching,
-    cooldownEndTime,
+    remainingSearches: searchQuota ? searchQuota.remaining : null,
+    nextSearchAt,
     searchMatches,
     remainingTimeString,
-    lastSearchTime,
     isLoading,
     findMatches,
-    canSearch: cooldownEndTime === null,
-    formatTime,
+    canSearch: !searchQuota || searchQuota.remaining > 0, // Left to the server until it has answered
     error,
     unmatchUser,
-    updateChattingWithStatus,
+    requestPhotoReveal,
     blockUser,
     unblockUser,
     blockedUsers
   }), [
     matches, 
+    hasMoreMatches,
+    loadMoreMatches,
+    candidates,
+    respondToCandidate,
     isSearching, 
-    cooldownEndTime,
+    searchQuota,
+    nextSearchAt,
     searchMatches, 
     remainingTimeString, 
-    lastSearchTime,
     isLoading,
     findMatches,
-    formatTime,
     error,
     unmatchUser,
-    updateChattingWithStatus,
+    requestPhotoReveal,
     blockUser,
     unblockUser,
     blockedUsers
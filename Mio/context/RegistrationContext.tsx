@@ -8,6 +8,9 @@ interface RegistrationData {
   location: string;
   matchWith: 'male' | 'female' | 'everyone';
   matchLocation: 'local' | 'worldwide';
+  // Age range as typed in the form, empty means "any"
+  matchAgeMin: string;
+  matchAgeMax: string;
   
   // Profile Pics - these store local URIs to images in the device gallery
   // We're not uploading images to Firebase Storage
@@ -39,6 +42,8 @@ const defaultRegistrationData: RegistrationData = {
   location: '',
   matchWith: 'everyone',
   matchLocation: 'worldwide',
+  matchAgeMin: '',
+  matchAgeMax: '',
   
   profilePic: null,
   additionalPics: [],
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ArchiveInfo,
+  buildConversation,
+  ConversationData,
+  getConversationId,
+  getMergedArchivePath,
+  mergeConversations,
+  NEW_CONVERSATION_TEXT,
+} from "../conversations";
+
+// Stands in for a Firestore Timestamp
+const ts = (millis: number) => ({toMillis: () => millis});
+type Time = ReturnType<typeof ts>;
+
+const alice = {userId: "alice", displayName: "Alice", profilePic: "alice.jpg"};
+const bob = {userId: "bob", displayName: "Bob", profilePic: "bob.jpg"};
+const pairId = "alice_bob";
+
+const buildArchive = (path: string, newest: number): ArchiveInfo<Time> => ({
+  path,
+  count: 60,
+  oldestTimestamp: ts(newest - 1),
+  newestTimestamp: ts(newest),
+  createdAt: null,
+});
+
+const buildStored = (
+  createdAt: number,
+  lastMessageAt: number,
+  overrides: Partial<ConversationData<Time>> = {}
+): ConversationData<Time> => ({
+  ...buildConversation(alice, bob, ts(createdAt)),
+  lastMessage: {text: `at ${lastMessageAt}`, timestamp: ts(lastMessageAt)},
+  lastMessageTimestamp: ts(lastMessageAt),
+  ...overrides,
+});
+
+describe("conversation IDs", () => {
+  it("are the same whoever opens the conversation", () => {
+    expect(getConversationId("alice", "bob")).toBe(pairId);
+    expect(getConversationId("bob", "alice")).toBe(pairId);
+  });
+
+  it("need two different users", () => {
+    expect(() => getConversationId("alice", "alice")).toThrow();
+    expect(() => getConversationId("alice", "")).toThrow();
+  });
+});
+
+describe("new conversations", () => {
+  it("start empty with both participants' snapshots", () => {
+    const conversation = buildConversation(alice, bob, 5);
+    expect(conversation.participants).toEqual(["alice", "bob"]);
+    expect(conversation.participantNames).toEqual({alice: "Alice", bob: "Bob"});
+    expect(conversation.participantPhotos).toEqual({alice: "alice.jpg", bob: "bob.jpg"});
+    expect(conversation.lastMessage).toEqual({text: NEW_CONVERSATION_TEXT, timestamp: 5});
+    expect(conversation.lastReadAt).toEqual({alice: 5, bob: 5});
+    expect(conversation.readMessageCount).toEqual({alice: 0, bob: 0});
+    expect(conversation.messageCount).toBe(0);
+    expect(conversation.currentBatchId).toBeNull();
+  });
+});
+
+describe("merging duplicates", () => {
+  it("keeps the latest message and the earliest creation time", () => {
+    const merged = mergeConversations(pairId, [buildStored(10, 50), buildStored(20, 40)]);
+    expect(merged.lastMessage.text).toBe("at 50");
+    expect(merged.lastMessageTimestamp.toMillis()).toBe(50);
+    expect(merged.createdAt.toMillis()).toBe(10);
+  });
+
+  it("adds up message and unread counts", () => {
+    const merged = mergeConversations(pairId, [
+      buildStored(10, 50, {messageCount: 25, readMessageCount: {alice: 23, bob: 21}, archivedMessages: 60}),
+      buildStored(20, 40, {messageCount: 3, readMessageCount: {alice: 2, bob: 0}}),
+    ]);
+    expect(merged.messageCount).toBe(28);
+    expect(merged.readMessageCount).toEqual({alice: 25, bob: 21});
+    expect(merged.archivedMessages).toBe(60);
+  });
+
+  it("keeps each participant's latest read time", () => {
+    const merged = mergeConversations(pairId, [
+      buildStored(10, 50, {lastReadAt: {alice: ts(45), bob: ts(12)}}),
+      buildStored(20, 40, {lastReadAt: {alice: ts(30), bob: ts(40)}}),
+    ]);
+    expect(merged.lastReadAt.alice.toMillis()).toBe(45);
+    expect(merged.lastReadAt.bob.toMillis()).toBe(40);
+  });
+
+  it("starts a fresh batch for the next message", () => {
+    const merged = mergeConversations(pairId, [
+      buildStored(10, 50, {currentBatchId: "b1", messageCount: 5}),
+      buildStored(20, 40, {currentBatchId: "b2", messageCount: 7}),
+    ]);
+    expect(merged.currentBatchId).toBeNull();
+  });
+
+  it("uses the most recent names and photos", () => {
+    const merged = mergeConversations(pairId, [
+      buildStored(10, 40, {participantNames: {alice: "Old Alice", bob: "Bob"}}),
+      buildStored(20, 50, {participantNames: {alice: "Alice", bob: "Bob"}}),
+    ]);
+    expect(merged.participantNames).toEqual({alice: "Alice", bob: "Bob"});
+  });
+
+  it("moves archives under the merged conversation, oldest first", () => {
+    const merged = mergeConversations(pairId, [
+      buildStored(10, 50, {archives: [buildArchive("archives/abc/2.json", 30)]}),
+      buildStored(20, 40, {archives: [buildArchive("archives/def/1.json", 20)]}),
+    ]);
+    expect(merged.archives.map((archive) => archive.path)).toEqual([
+      "archives/alice_bob/1.json",
+      "archives/alice_bob/2.json",
+    ]);
+  });
+
+  it("leaves archives already under the pair's ID where they are", () => {
+    expect(getMergedArchivePath("archives/alice_bob/1.json", pairId)).toBe("archives/alice_bob/1.json");
+  });
+
+  it("handles docs missing optional fields", () => {
+    const merged = mergeConversations(pairId, [
+      {participants: ["alice", "bob"], createdAt: ts(10), lastMessageTimestamp: ts(10)},
+      buildStored(20, 40),
+    ]);
+    expect(merged.messageCount).toBe(0);
+    expect(merged.readMessageCount).toEqual({alice: 0, bob: 0});
+    expect(merged.archives).toEqual([]);
+    expect(merged.lastMessage.text).toBe("at 40");
+  });
+});
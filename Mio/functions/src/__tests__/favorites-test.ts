@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import {
+  addToFavorites,
+  getFavoritesQuota,
+  isValidShowId,
+  MAX_FAVORITES,
+  MAX_REMOVALS,
+  removeFromFavorites,
+  REMOVAL_COOLDOWN_DAYS,
+} from "../favorites";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+const noRemovals = {removalCount: 0, cooldownEndTime: null};
+
+describe("show IDs", () => {
+  it("accepts TMDB IDs only", () => {
+    expect(isValidShowId("1396")).toBe(true);
+    expect(isValidShowId(1396)).toBe(false);
+    expect(isValidShowId("")).toBe(false);
+    expect(isValidShowId("../users/abc")).toBe(false);
+  });
+});
+
+describe("adding favorites", () => {
+  it("adds a show while there's room", () => {
+    const change = addToFavorites(["1"], noRemovals, "2");
+    expect(change.allowed).toBe(true);
+    expect(change.favoriteShowIds).toEqual(["1", "2"]);
+  });
+
+  it("refuses to go over the limit", () => {
+    const full = Array.from({length: MAX_FAVORITES}, (_, index) => String(index));
+    const change = addToFavorites(full, noRemovals, "99");
+    expect(change.allowed).toBe(false);
+    expect(change.favoriteShowIds).toBe(full);
+  });
+
+  it("leaves existing favorites alone", () => {
+    const favorites = ["1", "2"];
+    expect(addToFavorites(favorites, noRemovals, "1").favoriteShowIds).toBe(favorites);
+  });
+});
+
+describe("removing favorites", () => {
+  it("counts removals", () => {
+    const change = removeFromFavorites(["1", "2"], noRemovals, "1", NOW);
+    expect(change.allowed).toBe(true);
+    expect(change.favoriteShowIds).toEqual(["2"]);
+    expect(change.quota).toEqual({removalCount: 1, cooldownEndTime: null});
+  });
+
+  it("starts the cooldown with the last allowed removal", () => {
+    const change = removeFromFavorites(["1"], {removalCount: MAX_REMOVALS - 1, cooldownEndTime: null}, "1", NOW);
+    expect(change.allowed).toBe(true);
+    expect(change.quota).toEqual({removalCount: 0, cooldownEndTime: NOW + REMOVAL_COOLDOWN_DAYS * DAY_MS});
+  });
+
+  it("refuses removals during the cooldown", () => {
+    const quota = getFavoritesQuota({removalCount: 0, cooldownEndTime: NOW + DAY_MS}, NOW);
+    const change = removeFromFavorites(["1"], quota, "1", NOW);
+    expect(change.allowed).toBe(false);
+    expect(change.favoriteShowIds).toEqual(["1"]);
+  });
+
+  it("ends the cooldown once it has passed", () => {
+    expect(getFavoritesQuota({removalCount: 3, cooldownEndTime: NOW - 1}, NOW)).toEqual(noRemovals);
+    expect(getFavoritesQuota(undefined, NOW)).toEqual(noRemovals);
+  });
+});
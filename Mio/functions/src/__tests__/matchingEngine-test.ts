@@ -0,0 +1,341 @@
+import {
+  CandidateProfile,
+  collectCandidateIds,
+  getChangedSnapshotFields,
+  getDistanceKm,
+  getMatchExpiresAt,
+  getMatchExpiryStage,
+  getMatchSnapshot,
+  getPairId,
+  getPairOutcome,
+  getSearchBlocker,
+  getSharedFavorites,
+  MatchProfile,
+  MatchSearchInput,
+  runMatchSearch,
+  toCandidate,
+  toMatch,
+} from "../matchingEngine";
+
+const NOW = new Date("2025-01-01T12:00:00Z");
+
+const searcher: MatchProfile = {
+  displayName: "Mio",
+  age: 24,
+  gender: "female",
+  location: "Japan",
+  matchWith: "everyone",
+  matchLocation: "worldwide",
+};
+
+// Obscure shows only the two users share, so a single one is enough to match
+const obscureShows = {
+  "101": {users: ["me", "alex"], genreIds: [16]},
+  "102": {users: ["me", "alex"], genreIds: [16, 18]},
+};
+
+const candidate = (userId: string, profile: Partial<MatchProfile> = {}): CandidateProfile => ({
+  userId,
+  profile: {
+    displayName: userId,
+    age: 25,
+    gender: "male",
+    location: "Japan",
+    favoriteShows: ["101", "102"],
+    ...profile,
+  },
+});
+
+const buildInput = (overrides: Partial<MatchSearchInput> = {}): MatchSearchInput => ({
+  userId: "me",
+  profile: searcher,
+  favoriteShowIds: ["101", "102"],
+  existingMatchIds: [],
+  suppressedUserIds: [],
+  shows: obscureShows,
+  candidates: [candidate("alex")],
+  showGenres: {"101": [16], "102": [16, 18]},
+  now: NOW,
+  ...overrides,
+});
+
+const matchedIds = (input: MatchSearchInput) =>
+  runMatchSearch(input).newMatches.map((match) => match.userId);
+
+describe("preferences", () => {
+  it("matches when both sides accept each other", () => {
+    expect(matchedIds(buildInput())).toEqual(["alex"]);
+  });
+
+  it("rejects a candidate whose gender the searcher doesn't want", () => {
+    const input = buildInput({profile: {...searcher, matchWith: "female"}});
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("rejects a candidate who doesn't want the searcher's gender", () => {
+    const input = buildInput({candidates: [candidate("alex", {matchWith: "male"})]});
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("applies an age range from either side", () => {
+    expect(matchedIds(buildInput({profile: {...searcher, matchAgeMin: 30}}))).toEqual([]);
+    expect(matchedIds(buildInput({
+      candidates: [candidate("alex", {matchAgeMax: 22})],
+    }))).toEqual([]);
+    expect(matchedIds(buildInput({
+      profile: {...searcher, matchAgeMin: 25, matchAgeMax: 25},
+      candidates: [candidate("alex", {age: "25", matchAgeMin: 20, matchAgeMax: 30})],
+    }))).toEqual(["alex"]);
+  });
+
+  it("treats a missing age range as any age", () => {
+    const input = buildInput({
+      profile: {...searcher, matchAgeMin: null, matchAgeMax: null},
+      candidates: [candidate("alex", {age: 70})],
+    });
+    expect(matchedIds(input)).toEqual(["alex"]);
+  });
+
+  it("rejects candidates without an age when the searcher has a range", () => {
+    const input = buildInput({
+      profile: {...searcher, matchAgeMax: 40},
+      candidates: [candidate("alex", {age: undefined})],
+    });
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("applies a local preference from either side", () => {
+    const abroad = {location: "Canada"};
+    expect(matchedIds(buildInput({
+      profile: {...searcher, matchLocation: "local"},
+      candidates: [candidate("alex", abroad)],
+    }))).toEqual([]);
+    expect(matchedIds(buildInput({
+      candidates: [candidate("alex", {...abroad, matchLocation: "local"})],
+    }))).toEqual([]);
+  });
+});
+
+describe("distance", () => {
+  const tokyo = {latitude: 35.7, longitude: 139.7};
+  const yokohama = {latitude: 35.4, longitude: 139.6};
+  const osaka = {latitude: 34.7, longitude: 135.5};
+  const local = {...searcher, matchLocation: "local", coarseLocation: tokyo};
+
+  it("measures great-circle distance", () => {
+    expect(getDistanceKm(tokyo, osaka)).toBeGreaterThan(390);
+    expect(getDistanceKm(tokyo, osaka)).toBeLessThan(410);
+    expect(getDistanceKm(tokyo, tokyo)).toBe(0);
+  });
+
+  it("matches local users within the chosen radius", () => {
+    const input = buildInput({profile: local, candidates: [candidate("alex", {coarseLocation: yokohama})]});
+    expect(matchedIds(input)).toEqual(["alex"]);
+  });
+
+  it("rejects local users outside the radius, even in the same country", () => {
+    const input = buildInput({profile: local, candidates: [candidate("alex", {coarseLocation: osaka})]});
+    expect(matchedIds(input)).toEqual([]);
+    expect(matchedIds(buildInput({
+      profile: {...local, matchDistanceKm: 500},
+      candidates: [candidate("alex", {coarseLocation: osaka})],
+    }))).toEqual(["alex"]);
+  });
+
+  it("matches across a border when the distance fits", () => {
+    const input = buildInput({
+      profile: {...local, location: "Germany", coarseLocation: {latitude: 47.6, longitude: 7.6}},
+      candidates: [candidate("alex", {location: "Switzerland", coarseLocation: {latitude: 47.6, longitude: 7.7}})],
+    });
+    expect(matchedIds(input)).toEqual(["alex"]);
+  });
+
+  it("applies the candidate's radius too", () => {
+    const input = buildInput({
+      profile: {...searcher, coarseLocation: tokyo},
+      candidates: [candidate("alex", {matchLocation: "local", matchDistanceKm: 25, coarseLocation: yokohama})],
+    });
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("falls back to the country when either side has no coordinates", () => {
+    expect(matchedIds(buildInput({profile: local, candidates: [candidate("alex")]}))).toEqual(["alex"]);
+    expect(matchedIds(buildInput({
+      profile: local,
+      candidates: [candidate("alex", {location: "Canada"})],
+    }))).toEqual([]);
+  });
+});
+
+describe("blocking", () => {
+  it("skips users the searcher has blocked", () => {
+    const input = buildInput({profile: {...searcher, blockedUsers: ["alex"]}});
+    expect(collectCandidateIds(input)).toEqual([]);
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("skips users who have blocked the searcher", () => {
+    const input = buildInput({candidates: [candidate("alex", {blockedUsers: ["me"]})]});
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("skips users whose match with the searcher recently expired", () => {
+    const input = buildInput({suppressedUserIds: ["alex"]});
+    expect(collectCandidateIds(input)).toEqual([]);
+    expect(matchedIds(input)).toEqual([]);
+  });
+
+  it("skips users the searcher is already matched with", () => {
+    const input = buildInput({existingMatchIds: ["alex"]});
+    expect(collectCandidateIds(input)).toEqual([]);
+    expect(matchedIds(input)).toEqual([]);
+  });
+});
+
+describe("incomplete profiles", () => {
+  it("blocks searching until the searcher's profile is complete", () => {
+    expect(getSearchBlocker({...searcher, age: undefined}, ["101"])).not.toBeNull();
+    expect(getSearchBlocker(undefined, ["101"])).not.toBeNull();
+  });
+
+  it("blocks searching without favorite shows", () => {
+    expect(getSearchBlocker(searcher, [])).not.toBeNull();
+    expect(getSearchBlocker(searcher, ["101"])).toBeNull();
+  });
+
+  it("skips candidates without a name or gender", () => {
+    const input = buildInput({candidates: [
+      candidate("alex", {displayName: ""}),
+      candidate("alex", {gender: undefined}),
+    ]});
+    expect(matchedIds(input)).toEqual([]);
+  });
+});
+
+describe("match levels", () => {
+  it("ranks fans of an obscure show above fans of a blockbuster", () => {
+    const everyone = Array.from({length: 5000}, (_, i) => `fan${i}`);
+    const input = buildInput({
+      favoriteShowIds: ["101", "900", "901", "902"],
+      shows: {
+        "101": {users: ["me", "alex"]},
+        "900": {users: ["me", "sam", ...everyone]},
+        "901": {users: ["me", "sam", ...everyone]},
+        "902": {users: ["me", "sam", ...everyone]},
+      },
+      candidates: [candidate("sam", {favoriteShows: ["900", "901", "902"]}), candidate("alex")],
+      showGenres: {},
+    });
+
+    expect(collectCandidateIds(input)).toContain("alex");
+    expect(collectCandidateIds(input)).not.toContain("sam");
+    expect(matchedIds(input)).toEqual(["alex"]);
+  });
+
+  it("writes the same level and score to both sides of the pair", () => {
+    const {matchWrites} = runMatchSearch(buildInput());
+    expect(matchWrites).toHaveLength(1);
+    expect(matchWrites[0].matchData.matchLevel).toBe("superMatch");
+    expect(matchWrites[0].otherUserMatchData.userId).toBe("me");
+    expect(matchWrites[0].otherUserMatchData.compatibilityScore)
+      .toBe(matchWrites[0].matchData.compatibilityScore);
+  });
+});
+
+describe("match expiry", () => {
+  const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it("warns a day before the match expires and expires it after the window", () => {
+    expect(getMatchExpiryStage(daysAgo(12), NOW, 14)).toBe("active");
+    expect(getMatchExpiryStage(daysAgo(13.5), NOW, 14)).toBe("warn");
+    expect(getMatchExpiryStage(daysAgo(14), NOW, 14)).toBe("expire");
+  });
+
+  it("expires the match the given number of days after it was made", () => {
+    expect(getMatchExpiresAt(NOW, 14)).toEqual(new Date("2025-01-15T12:00:00Z"));
+  });
+
+  it("builds the same pair ID from either side", () => {
+    expect(getPairId("me", "alex")).toBe(getPairId("alex", "me"));
+  });
+});
+
+describe("profile snapshots", () => {
+  it("copies the same fields a new match would store", () => {
+    const {matchWrites} = runMatchSearch(buildInput());
+    const alex = candidate("alex").profile;
+    expect(matchWrites[0].matchData).toMatchObject(getMatchSnapshot(alex));
+  });
+
+  it("reports only the fields that changed", () => {
+    const after = {...searcher, displayName: "Mio-chan", profilePic: "new.jpg"};
+    expect(getChangedSnapshotFields(searcher, after)).toEqual({displayName: "Mio-chan", profilePic: "new.jpg"});
+  });
+
+  it("ignores edits to fields other users don't see", () => {
+    expect(getChangedSnapshotFields(searcher, {...searcher, matchAgeMin: 30})).toBeNull();
+    expect(getChangedSnapshotFields(searcher, {...searcher})).toBeNull();
+  });
+
+  it("detects changed favorites", () => {
+    const before = {...searcher, favoriteShows: ["101"]};
+    expect(getChangedSnapshotFields(before, {...before, favoriteShows: ["101", "102"]}))
+      .toEqual({favoriteShowIds: ["101", "102"]});
+  });
+});
+
+describe("mutual consent", () => {
+  it("turns a found match into a suggestion without a decision", () => {
+    const [match] = runMatchSearch(buildInput()).newMatches;
+    const suggestion = toCandidate(match);
+    expect(suggestion).toMatchObject({userId: "alex", suggestedAt: NOW, decision: null});
+    expect(suggestion).not.toHaveProperty("matchTimestamp");
+    expect(suggestion).not.toHaveProperty("chattingWith");
+  });
+
+  it("restores the match entry once both sides liked", () => {
+    const [match] = runMatchSearch(buildInput()).newMatches;
+    const later = new Date(NOW.getTime() + 60 * 60 * 1000);
+    const liked = {...toCandidate(match), decision: "like" as const, decidedAt: later};
+    expect(toMatch(liked, later)).toEqual({...match, matchTimestamp: later});
+  });
+
+  it("waits until the other side has answered", () => {
+    expect(getPairOutcome("like", null)).toBe("waiting");
+    expect(getPairOutcome("like", undefined)).toBe("waiting");
+  });
+
+  it("matches only when both liked", () => {
+    expect(getPairOutcome("like", "like")).toBe("match");
+  });
+
+  it("drops the pair when either side passes", () => {
+    expect(getPairOutcome("pass", null)).toBe("pass");
+    expect(getPairOutcome("pass", "like")).toBe("pass");
+    expect(getPairOutcome("like", "pass")).toBe("pass");
+  });
+});
+
+describe("shared favorites", () => {
+  const genres = {"101": [16], "102": [16, 18], "103": [35], "104": [18, 35]};
+
+  it("lists the common shows in the first user's order", () => {
+    expect(getSharedFavorites(["102", "103", "101"], ["101", "102"], genres).commonShowIds)
+      .toEqual(["102", "101"]);
+  });
+
+  it("finds genres both users love even without common shows", () => {
+    expect(getSharedFavorites(["103"], ["104"], genres)).toEqual({commonShowIds: [], sharedGenreIds: [35]});
+  });
+
+  it("stores the shared favorites on both sides of a new match", () => {
+    const input = buildInput({
+      favoriteShowIds: ["102", "101"],
+      candidates: [candidate("alex", {favoriteShows: ["101", "102", "103"]})],
+      showGenres: genres,
+    });
+    const [write] = runMatchSearch(input).matchWrites;
+    expect(write.matchData).toMatchObject({commonShowIds: ["102", "101"], sharedGenreIds: [16, 18]});
+    expect(write.otherUserMatchData).toMatchObject({commonShowIds: ["101", "102"], sharedGenreIds: [16, 18]});
+  });
+});
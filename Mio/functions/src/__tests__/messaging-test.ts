@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ConversationState,
+  getChatUploadFolder,
+  getMessagePreview,
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_BATCH_SIZE,
+  MessageSendPlan,
+  normalizeMessage,
+  planMessageSend,
+  validateMessageContent,
+  validateMessageText,
+} from "../messaging";
+
+// A conversation doc and its batches, kept in memory
+interface Store {
+  conversation: ConversationState;
+  version: number; // Bumped on every commit, like a doc's update time
+  batches: Record<string, number[]>;
+}
+
+const buildStore = (overrides: Partial<ConversationState> = {}): Store => ({
+  conversation: {
+    participants: ["alice", "bob"],
+    participantNames: {alice: "Alice", bob: "Bob"},
+    currentBatchId: null,
+    messageCount: 0,
+    ...overrides,
+  },
+  version: 0,
+  batches: {},
+});
+
+const hello = {type: "text" as const, text: "hi"};
+const photoUrl = `https://res.cloudinary.com/mio/image/upload/v1/${getChatUploadFolder("alice_bob")}/abc.jpg`;
+const photo = {url: photoUrl, width: 800, height: 600, blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj"};
+
+let nextId = 0;
+const newIds = () => ({batchId: `batch${++nextId}`, messageId: `message${nextId}`});
+
+/**
+ * Applies a plan the way the transaction in `sendMessage` writes it
+ * @param {Store} store The store to write to
+ * @param {MessageSendPlan<number>} plan The plan to apply
+ */
+function commit(store: Store, plan: MessageSendPlan<number>) {
+  if (plan.isNewBatch) {
+    store.batches[plan.batchId] = [plan.message.timestamp];
+  } else {
+    if (!store.batches[plan.batchId]) {
+      throw new Error("update of missing batch");
+    }
+    store.batches[plan.batchId].push(plan.message.timestamp);
+  }
+  store.conversation = {
+    ...store.conversation,
+    currentBatchId: plan.batchId,
+    messageCount: plan.messageCount,
+  };
+  store.version++;
+}
+
+/**
+ * Sends messages from several senders at once, the way Firestore runs
+ * transactions: every sender reads first, and a commit based on a read that
+ * has since gone stale is retried with a fresh read
+ * @param {Store} store The store to send into
+ * @param {string[]} senderIds Who sends, one message each
+ */
+function sendConcurrently(store: Store, senderIds: string[]) {
+  let pending = senderIds.map((senderId, index) => ({senderId, timestamp: index}));
+  while (pending.length > 0) {
+    const reads = pending.map((send) => ({
+      send,
+      version: store.version,
+      plan: planMessageSend(store.conversation, send.senderId, hello, send.timestamp, newIds()),
+    }));
+    pending = [];
+    for (const {send, version, plan} of reads) {
+      if (version !== store.version) {
+        pending.push(send);
+      } else {
+        commit(store, plan);
+      }
+    }
+  }
+}
+
+describe("message text", () => {
+  it("trims the text", () => {
+    expect(validateMessageText("  hello ")).toBe("hello");
+  });
+
+  it("rejects empty and non-text messages", () => {
+    expect(() => validateMessageText("   ")).toThrow();
+    expect(() => validateMessageText(42)).toThrow();
+    expect(() => validateMessageText(undefined)).toThrow();
+  });
+
+  it("rejects messages over the length limit", () => {
+    expect(validateMessageText("a".repeat(MAX_MESSAGE_LENGTH))).toHaveLength(MAX_MESSAGE_LENGTH);
+    expect(() => validateMessageText("a".repeat(MAX_MESSAGE_LENGTH + 1))).toThrow();
+  });
+});
+
+describe("message content", () => {
+  it("treats messages without a type as text", () => {
+    expect(validateMessageContent({text: " hi "}, "alice_bob")).toEqual({type: "text", text: "hi"});
+  });
+
+  it("accepts photos uploaded to the conversation's folder", () => {
+    expect(validateMessageContent({type: "image", image: photo}, "alice_bob", "mio")).toEqual({
+      type: "image",
+      text: "",
+      image: photo,
+    });
+  });
+
+  it("keeps a photo's caption and allows a missing blurhash", () => {
+    const content = validateMessageContent(
+      {type: "image", text: " look ", image: {...photo, blurhash: undefined}},
+      "alice_bob",
+      "mio"
+    );
+    expect(content.text).toBe("look");
+    expect(content.image?.blurhash).toBeNull();
+  });
+
+  it("rejects photos from elsewhere", () => {
+    const elsewhere = (url: string) => () =>
+      validateMessageContent({type: "image", image: {...photo, url}}, "alice_bob", "mio");
+    expect(elsewhere("https://example.com/mio_app_chats/alice_bob/abc.jpg")).toThrow();
+    expect(elsewhere(photoUrl.replace("alice_bob", "carol_dave"))).toThrow();
+    expect(elsewhere(photoUrl.replace("/mio/", "/other/"))).toThrow();
+  });
+
+  it("rejects photos without sensible dimensions or placeholder", () => {
+    const withImage = (image: object) => () =>
+      validateMessageContent({type: "image", image: {...photo, ...image}}, "alice_bob", "mio");
+    expect(withImage({width: 0})).toThrow();
+    expect(withImage({height: 1.5})).toThrow();
+    expect(withImage({width: "800"})).toThrow();
+    expect(withImage({blurhash: "<script>"})).toThrow();
+  });
+
+  it("rejects unknown message types", () => {
+    expect(() => validateMessageContent({type: "video", text: "hi"}, "alice_bob")).toThrow();
+  });
+
+  it("labels photos in previews", () => {
+    expect(getMessagePreview({type: "text", text: "hi"})).toBe("hi");
+    expect(getMessagePreview({type: "image", text: ""})).toBe("📷 Photo");
+    expect(getMessagePreview({type: "image", text: "look"})).toBe("📷 look");
+  });
+
+  it("gives older stored messages a type", () => {
+    expect(normalizeMessage({id: "m1", text: "hi"})).toEqual({id: "m1", type: "text", text: "hi"});
+    expect(normalizeMessage({id: "m2", type: "image", image: photo})).toEqual({
+      id: "m2",
+      type: "image",
+      text: "",
+      image: photo,
+    });
+  });
+});
+
+describe("planning a send", () => {
+  it("starts a batch for the first message", () => {
+    const plan = planMessageSend(buildStore().conversation, "alice", hello, 1, {batchId: "b1", messageId: "m1"});
+    expect(plan.isNewBatch).toBe(true);
+    expect(plan.batchId).toBe("b1");
+    expect(plan.messageCount).toBe(1);
+    expect(plan.recipientIds).toEqual(["bob"]);
+    expect(plan.message).toEqual({
+      id: "m1",
+      type: "text",
+      text: "hi",
+      senderId: "alice",
+      senderName: "Alice",
+      timestamp: 1,
+    });
+  });
+
+  it("appends to the current batch until it's full", () => {
+    const conversation = buildStore({currentBatchId: "b1", messageCount: 3}).conversation;
+    const plan = planMessageSend(conversation, "bob", hello, 1, {batchId: "b2", messageId: "m1"});
+    expect(plan.isNewBatch).toBe(false);
+    expect(plan.batchId).toBe("b1");
+    expect(plan.messageCount).toBe(4);
+  });
+
+  it("starts a new batch once the current one is full", () => {
+    const conversation = buildStore({currentBatchId: "b1", messageCount: MESSAGE_BATCH_SIZE}).conversation;
+    const plan = planMessageSend(conversation, "bob", hello, 1, {batchId: "b2", messageId: "m1"});
+    expect(plan.isNewBatch).toBe(true);
+    expect(plan.batchId).toBe("b2");
+  });
+
+  it("stores a photo's metadata with the message", () => {
+    const content = {type: "image" as const, text: "", image: photo};
+    const plan = planMessageSend(buildStore().conversation, "alice", content, 1, newIds());
+    expect(plan.message.type).toBe("image");
+    expect(plan.message.image).toEqual(photo);
+  });
+
+  it("refuses senders who aren't participants", () => {
+    expect(() => planMessageSend(buildStore().conversation, "mallory", hello, 1, newIds())).toThrow();
+  });
+});
+
+describe("concurrent senders", () => {
+  it("start a single batch for the first messages", () => {
+    const store = buildStore();
+    sendConcurrently(store, ["alice", "bob"]);
+    expect(Object.keys(store.batches)).toHaveLength(1);
+    expect(store.conversation.messageCount).toBe(2);
+  });
+
+  it("never overflow a batch that's nearly full", () => {
+    const store = buildStore();
+    for (let i = 0; i < MESSAGE_BATCH_SIZE - 1; i++) {
+      sendConcurrently(store, ["alice"]);
+    }
+    sendConcurrently(store, ["alice", "bob", "alice", "bob"]);
+
+    const sizes = Object.values(store.batches).map((messages) => messages.length);
+    expect(sizes).toEqual([MESSAGE_BATCH_SIZE, 3]);
+    expect(store.conversation.messageCount).toBe(MESSAGE_BATCH_SIZE + 3);
+  });
+
+  it("keep every message across many rounds", () => {
+    const store = buildStore();
+    for (let round = 0; round < 30; round++) {
+      sendConcurrently(store, ["alice", "bob"]);
+    }
+    const sizes = Object.values(store.batches).map((messages) => messages.length);
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBe(60);
+    expect(sizes.every((size) => size <= MESSAGE_BATCH_SIZE)).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import {Timestamp} from "firebase-admin/firestore";
+import {
+  getDeferredPushContent,
+  getMessagePushCollapsedUntil,
+  getMessagePushContent,
+  isViewingConversation,
+  MESSAGE_PUSH_COLLAPSE_MS,
+} from "../notificationService";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+const minutesAgo = (minutes: number) => Timestamp.fromMillis(NOW - minutes * 60 * 1000);
+
+describe("active conversation", () => {
+  it("treats a recently opened chat as being viewed", () => {
+    expect(isViewingConversation({id: "conv1", updatedAt: minutesAgo(1)}, "conv1", NOW)).toBe(true);
+  });
+
+  it("ignores other conversations and missing markers", () => {
+    expect(isViewingConversation({id: "conv2", updatedAt: minutesAgo(1)}, "conv1", NOW)).toBe(false);
+    expect(isViewingConversation(null, "conv1", NOW)).toBe(false);
+    expect(isViewingConversation({id: "conv1"}, "conv1", NOW)).toBe(false);
+  });
+
+  it("ignores a marker left behind by an app that was killed", () => {
+    expect(isViewingConversation({id: "conv1", updatedAt: minutesAgo(30)}, "conv1", NOW)).toBe(false);
+  });
+});
+
+describe("message push content", () => {
+  it("shows a single message as the body", () => {
+    expect(getMessagePushContent("Alex", ["Have you seen Frieren?"]))
+      .toEqual({title: "Alex", body: "Have you seen Frieren?"});
+  });
+
+  it("truncates long messages", () => {
+    const {body} = getMessagePushContent("Alex", ["x".repeat(300)]);
+    expect(body).toHaveLength(100);
+    expect(body.endsWith("...")).toBe(true);
+  });
+
+  it("summarizes several messages in one push", () => {
+    expect(getMessagePushContent("Alex", ["hi", "are you there?", "hello?"]).body)
+      .toBe("Sent you 3 new messages");
+  });
+
+  it("counts every held message in a summary push", () => {
+    expect(getMessagePushContent("Alex", ["hello?"], 4).body).toBe("Sent you 4 new messages");
+    expect(getMessagePushContent("Alex", ["hello?"], 1).body).toBe("hello?");
+  });
+});
+
+describe("message push collapsing", () => {
+  it("sends right away without a recent push", () => {
+    expect(getMessagePushCollapsedUntil(undefined, NOW)).toBeNull();
+    expect(getMessagePushCollapsedUntil(NOW - MESSAGE_PUSH_COLLAPSE_MS, NOW)).toBeNull();
+  });
+
+  it("holds a push until the window of the last one closes", () => {
+    expect(getMessagePushCollapsedUntil(NOW - 20 * 1000, NOW)).toBe(NOW - 20 * 1000 + MESSAGE_PUSH_COLLAPSE_MS);
+  });
+});
+
+describe("deferred pushes", () => {
+  const push = (title: string) => ({title, body: `${title} body`, data: {type: "match"}});
+
+  it("sends a single deferred push as it was", () => {
+    expect(getDeferredPushContent([push("New Match!")])).toEqual(push("New Match!"));
+  });
+
+  it("summarizes several deferred pushes into one", () => {
+    expect(getDeferredPushContent([push("a"), push("b"), push("c")])).toEqual({
+      title: "While you were away",
+      body: "You have 3 new notifications",
+      data: {type: "activity"},
+    });
+  });
+});
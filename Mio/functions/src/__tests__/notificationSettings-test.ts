@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  decidePush,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getQuietHoursEnd,
+  normalizeNotificationSettings,
+  NotificationSettings,
+  validateNotificationSettings,
+} from "../notificationSettings";
+
+// 23:30 in Berlin (UTC+1 in January)
+const BERLIN_NIGHT = Date.parse("2025-01-01T22:30:00Z");
+// 14:00 in Berlin
+const BERLIN_AFTERNOON = Date.parse("2025-01-01T13:00:00Z");
+
+const withQuietHours = (overrides: Partial<NotificationSettings["quietHours"]> = {}): NotificationSettings => ({
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  quietHours: {enabled: true, start: "22:00", end: "08:00", timeZone: "Europe/Berlin", ...overrides},
+});
+
+const expectRejected = (input: unknown) => {
+  let thrown: unknown;
+  try {
+    validateNotificationSettings(input);
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(HttpsError);
+  expect((thrown as HttpsError).code).toBe("invalid-argument");
+};
+
+describe("stored settings", () => {
+  it("defaults everything for users who never saved settings", () => {
+    expect(normalizeNotificationSettings(undefined)).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+  });
+
+  it("keeps the opt-outs saved before the settings screen existed", () => {
+    const settings = normalizeNotificationSettings({matchNotifications: false});
+    expect(settings.matchNotifications).toBe(false);
+    expect(settings.messageNotifications).toBe(true);
+  });
+
+  it("ignores malformed quiet hours", () => {
+    const settings = normalizeNotificationSettings({
+      quietHours: {enabled: true, start: "10pm", end: "08:00", timeZone: "Europe/Berlin"},
+    });
+    expect(settings.quietHours.enabled).toBe(false);
+  });
+});
+
+describe("validation", () => {
+  it("accepts complete settings", () => {
+    const settings = withQuietHours();
+    expect(validateNotificationSettings(settings)).toEqual(settings);
+  });
+
+  it("rejects missing toggles and unknown fields", () => {
+    const missingToggle: Record<string, unknown> = {...withQuietHours()};
+    delete missingToggle.messageNotifications;
+    expectRejected(missingToggle);
+    expectRejected({...withQuietHours(), pushToken: "abc"});
+    expectRejected({...withQuietHours(), matchNotifications: "no"});
+  });
+
+  it("rejects malformed quiet hours", () => {
+    expectRejected({...withQuietHours(), quietHours: null});
+    expectRejected(withQuietHours({start: "24:00"}));
+    expectRejected(withQuietHours({end: "8:00"}));
+    expectRejected(withQuietHours({start: "08:00", end: "08:00"}));
+    expectRejected(withQuietHours({timeZone: "Mars/Olympus_Mons"}));
+  });
+});
+
+describe("quiet hours", () => {
+  it("spans midnight in the user's time zone", () => {
+    const {quietHours} = withQuietHours();
+    expect(getQuietHoursEnd(quietHours, BERLIN_NIGHT)).toBe(Date.parse("2025-01-02T07:00:00Z"));
+    expect(getQuietHoursEnd(quietHours, BERLIN_AFTERNOON)).toBeNull();
+  });
+
+  it("handles quiet hours within a single day", () => {
+    const {quietHours} = withQuietHours({start: "13:00", end: "15:30"});
+    expect(getQuietHoursEnd(quietHours, BERLIN_AFTERNOON)).toBe(Date.parse("2025-01-01T14:30:00Z"));
+    expect(getQuietHoursEnd(quietHours, BERLIN_NIGHT)).toBeNull();
+  });
+
+  it("does nothing when turned off", () => {
+    expect(getQuietHoursEnd(withQuietHours({enabled: false}).quietHours, BERLIN_NIGHT)).toBeNull();
+  });
+});
+
+describe("push decisions", () => {
+  it("sends pushes outside quiet hours", () => {
+    expect(decidePush(withQuietHours(), "matches", BERLIN_AFTERNOON)).toEqual({action: "send"});
+  });
+
+  it("skips categories the user turned off", () => {
+    const settings = {...withQuietHours(), superMatchNotifications: false};
+    expect(decidePush(settings, "superMatches", BERLIN_AFTERNOON)).toEqual({action: "skip", reason: "optedOut"});
+    expect(decidePush(settings, "matches", BERLIN_AFTERNOON)).toEqual({action: "send"});
+  });
+
+  it("defers non-urgent pushes until quiet hours end", () => {
+    expect(decidePush(withQuietHours(), "matches", BERLIN_NIGHT))
+      .toEqual({action: "defer", sendAfter: Date.parse("2025-01-02T07:00:00Z")});
+  });
+
+  it("drops message pushes during quiet hours", () => {
+    expect(decidePush(withQuietHours(), "messages", BERLIN_NIGHT)).toEqual({action: "skip", reason: "quietHours"});
+  });
+});
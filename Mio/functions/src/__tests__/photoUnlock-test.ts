@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import * as crypto from "crypto";
+import {
+  DEFAULT_PHOTO_UNLOCK_RULES,
+  getBlurredPhotoUpload,
+  getPhotoUnlockAt,
+  getPhotoUnlockReason,
+  getPhotoUnlockRules,
+  getProfilePhotos,
+  isBlurredPhotoUrl,
+  isProfilePhotoUrl,
+} from "../photoUnlock";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+const rules = DEFAULT_PHOTO_UNLOCK_RULES;
+const PHOTO = "https://res.cloudinary.com/mio/image/upload/v1712/mio_app_profiles/abc123.jpg";
+
+describe("blurred photos", () => {
+  it("makes the blurred copy under its own public ID", () => {
+    const upload = getBlurredPhotoUpload(PHOTO, "f3c9e1", 1712000000, "secret");
+    expect(upload).toEqual({
+      file: PHOTO,
+      folder: "mio_app_profiles_blurred",
+      public_id: "f3c9e1",
+      timestamp: "1712000000",
+      transformation: "e_blur:2000,w_200,q_auto:low",
+      signature: crypto.createHash("sha1")
+        .update("folder=mio_app_profiles_blurred&public_id=f3c9e1&timestamp=1712000000" +
+          "&transformation=e_blur:2000,w_200,q_auto:low" + "secret")
+        .digest("hex"),
+    });
+  });
+
+  it("never points a locked photo at the original", () => {
+    const upload = getBlurredPhotoUpload(PHOTO, "f3c9e1", 1712000000, "secret");
+    const lockedUrl = `https://res.cloudinary.com/mio/image/upload/v1713/${upload.folder}/${upload.public_id}.jpg`;
+    expect(isBlurredPhotoUrl(lockedUrl, "mio")).toBe(true);
+    expect(lockedUrl).not.toContain("abc123");
+
+    // A transformation of the original is one path segment away from it
+    const transformed = "https://res.cloudinary.com/mio/image/upload/e_blur:2000,w_200,q_auto:low/v1712/mio_app_profiles/abc123.jpg";
+    expect(isBlurredPhotoUrl(transformed, "mio")).toBe(false);
+    expect(isBlurredPhotoUrl(PHOTO, "mio")).toBe(false);
+  });
+
+  it("only accepts untransformed uploads from the app's own profile folder", () => {
+    expect(isProfilePhotoUrl(PHOTO, "mio")).toBe(true);
+    expect(isProfilePhotoUrl(PHOTO.replace("/mio/", "/other/"), "mio")).toBe(false);
+    expect(isProfilePhotoUrl("https://res.cloudinary.com/mio/image/upload/v1712/mio_app_chats/c1/abc123.jpg", "mio"))
+      .toBe(false);
+    expect(isProfilePhotoUrl("https://example.com/mio_app_profiles/abc123.jpg", "mio")).toBe(false);
+    expect(isProfilePhotoUrl(PHOTO.replace("v1712/", "e_blur:2000/v1712/"), "mio")).toBe(false);
+    expect(isProfilePhotoUrl(42)).toBe(false);
+  });
+
+  it("drops photos that aren't the app's uploads and caps the extra photos", () => {
+    const extra = (id: string) => PHOTO.replace("abc123", id);
+    expect(getProfilePhotos({
+      profilePic: "https://example.com/photo.jpg",
+      additionalPics: [extra("a"), "https://example.com/b.jpg", extra("c"), extra("d"), extra("e")],
+    }, "mio")).toEqual({profilePic: "", additionalPics: [extra("a"), extra("c"), extra("d")]});
+    expect(getProfilePhotos(undefined)).toEqual({profilePic: "", additionalPics: []});
+  });
+});
+
+describe("unlock rules", () => {
+  it("reads overrides from the environment", () => {
+    expect(getPhotoUnlockRules({PHOTO_UNLOCK_HOURS: "0", PHOTO_UNLOCK_ON_REVEAL: "false"})).toEqual({
+      unlockAfterHours: 0,
+      unlockOnMessageExchange: true,
+      unlockOnMutualReveal: false,
+    });
+  });
+
+  it("falls back to the defaults for missing or malformed values", () => {
+    expect(getPhotoUnlockRules({})).toEqual(rules);
+    expect(getPhotoUnlockRules({PHOTO_UNLOCK_HOURS: "soon"})).toEqual(rules);
+  });
+
+  it("only schedules a time unlock when it is turned on", () => {
+    expect(getPhotoUnlockAt(NOW, rules)).toBe(NOW + 24 * HOUR_MS);
+    expect(getPhotoUnlockAt(NOW, {...rules, unlockAfterHours: 0})).toBeNull();
+  });
+});
+
+describe("unlock decision", () => {
+  const locked = {photoUnlocked: false, photoUnlockAt: NOW + HOUR_MS};
+
+  it("keeps photos locked until a rule is met", () => {
+    expect(getPhotoUnlockReason(locked, locked, NOW, rules)).toBeNull();
+  });
+
+  it("unlocks once enough time has passed", () => {
+    expect(getPhotoUnlockReason(locked, locked, NOW + HOUR_MS, rules)).toBe("time");
+  });
+
+  it("unlocks once both users have sent a message", () => {
+    const messaged = {...locked, sentMessage: true};
+    expect(getPhotoUnlockReason(messaged, locked, NOW, rules)).toBeNull();
+    expect(getPhotoUnlockReason(messaged, messaged, NOW, rules)).toBe("messages");
+  });
+
+  it("unlocks once both users asked to reveal", () => {
+    const requested = {...locked, revealRequested: true};
+    expect(getPhotoUnlockReason(requested, locked, NOW, rules)).toBeNull();
+    expect(getPhotoUnlockReason(requested, requested, NOW, rules)).toBe("reveal");
+  });
+
+  it("ignores rules that are turned off", () => {
+    const requested = {...locked, revealRequested: true};
+    expect(getPhotoUnlockReason(requested, requested, NOW, {...rules, unlockOnMutualReveal: false})).toBeNull();
+    expect(getPhotoUnlockReason(locked, locked, NOW + HOUR_MS, {...rules, unlockAfterHours: 0})).toBeNull();
+  });
+
+  it("leaves photos that are already unlocked alone", () => {
+    expect(getPhotoUnlockReason({photoUnlocked: true}, {}, NOW, rules)).toBeNull();
+  });
+});
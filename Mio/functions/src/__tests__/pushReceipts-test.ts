@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import * as functions from "firebase-functions";
+import {ExpoPushReceipt} from "expo-server-sdk";
+import {checkReceipts, PushReceiptClient, RECEIPT_MAX_AGE_MS, StoredPushTicket} from "../pushReceipts";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+
+const ticket = (ticketId: string, type = "match", ageMs = 60 * 60 * 1000): StoredPushTicket => ({
+  ticketId,
+  token: `ExponentPushToken[${ticketId}]`,
+  type,
+  createdAtMs: NOW - ageMs,
+});
+
+// Stub Expo client that answers from a fixed set of receipts, two IDs per chunk
+const stubClient = (
+  receipts: Record<string, ExpoPushReceipt>,
+  failingChunks: number[] = []
+): PushReceiptClient & {requestedChunks: string[][]} => {
+  const requestedChunks: string[][] = [];
+  return {
+    requestedChunks,
+    chunkPushNotificationReceiptIds: (ids: string[]) => {
+      const chunks: string[][] = [];
+      for (let i = 0; i < ids.length; i += 2) chunks.push(ids.slice(i, i + 2));
+      return chunks;
+    },
+    getPushNotificationReceiptsAsync: async (ids: string[]) => {
+      requestedChunks.push(ids);
+      if (failingChunks.includes(requestedChunks.length - 1)) {
+        throw new Error("Expo unavailable");
+      }
+      return Object.fromEntries(ids.filter((id) => receipts[id]).map((id) => [id, receipts[id]]));
+    },
+  };
+};
+
+const ok: ExpoPushReceipt = {status: "ok"};
+const notRegistered: ExpoPushReceipt = {
+  status: "error",
+  message: "The device cannot receive push notifications anymore",
+  details: {error: "DeviceNotRegistered"},
+};
+const tooBig: ExpoPushReceipt = {status: "error", message: "Too big", details: {error: "MessageTooBig"}};
+
+describe("push receipts", () => {
+  it("fetches receipts in chunks", async () => {
+    const client = stubClient({a: ok, b: ok, c: ok});
+    await checkReceipts([ticket("a"), ticket("b"), ticket("c")], client, NOW);
+    expect(client.requestedChunks).toEqual([["a", "b"], ["c"]]);
+  });
+
+  it("counts deliveries and failures per notification type", async () => {
+    const result = await checkReceipts(
+      [ticket("a"), ticket("b"), ticket("c", "message"), ticket("d", "message")],
+      stubClient({a: ok, b: tooBig, c: ok, d: notRegistered}),
+      NOW
+    );
+    expect(result.statsByType).toEqual({
+      match: {delivered: 1, failed: 1, errors: {MessageTooBig: 1}},
+      message: {delivered: 1, failed: 1, errors: {DeviceNotRegistered: 1}},
+    });
+  });
+
+  it("reports tokens of devices that are no longer registered", async () => {
+    const result = await checkReceipts([ticket("a"), ticket("b")], stubClient({a: ok, b: notRegistered}), NOW);
+    expect(result.invalidTokens).toEqual(["ExponentPushToken[b]"]);
+  });
+
+  it("keeps tickets whose receipts aren't ready yet", async () => {
+    const result = await checkReceipts([ticket("a"), ticket("b")], stubClient({a: ok}), NOW);
+    expect(result.resolvedTicketIds).toEqual(["a"]);
+  });
+
+  it("gives up on tickets Expo no longer has receipts for", async () => {
+    const result = await checkReceipts([ticket("a", "match", RECEIPT_MAX_AGE_MS + 1)], stubClient({}), NOW);
+    expect(result.resolvedTicketIds).toEqual(["a"]);
+    expect(result.statsByType).toEqual({});
+  });
+
+  it("retries a chunk that failed on the next run", async () => {
+    jest.spyOn(functions.logger, "warn").mockImplementation(() => undefined);
+    const result = await checkReceipts(
+      [ticket("a"), ticket("b"), ticket("c")],
+      stubClient({a: ok, b: ok, c: notRegistered}, [0]),
+      NOW
+    );
+    expect(result.resolvedTicketIds).toEqual(["c"]);
+    expect(result.invalidTokens).toEqual(["ExponentPushToken[c]"]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DEFAULT_RATE_LIMIT,
+  getRateLimit,
+  isInfrastructureError,
+  RateLimit,
+  takeToken,
+  TokenBucket,
+} from "../rateLimiter";
+
+const LIMIT: RateLimit = {capacity: 3, refillPerMinute: 6}; // One token every 10 seconds
+
+// Fake clock that calls the limiter the way the transaction would, carrying the stored bucket along
+const createClock = (limit: RateLimit = LIMIT) => {
+  let now = Date.parse("2025-01-01T12:00:00Z");
+  let bucket: TokenBucket | undefined;
+  return {
+    advance: (seconds: number) => {
+      now += seconds * 1000;
+    },
+    call: () => {
+      const result = takeToken(bucket, limit, now);
+      bucket = result.bucket;
+      return result;
+    },
+  };
+};
+
+describe("token bucket", () => {
+  it("allows a burst up to the capacity", () => {
+    const clock = createClock();
+    expect([1, 2, 3].map(() => clock.call().allowed)).toEqual([true, true, true]);
+    expect(clock.call().allowed).toBe(false);
+  });
+
+  it("tells the caller how long to wait", () => {
+    const clock = createClock();
+    [1, 2, 3].forEach(() => clock.call());
+    expect(clock.call().retryAfterMs).toBe(10000);
+
+    clock.advance(4);
+    expect(clock.call().retryAfterMs).toBe(6000);
+  });
+
+  it("refills over time", () => {
+    const clock = createClock();
+    [1, 2, 3].forEach(() => clock.call());
+
+    clock.advance(9);
+    expect(clock.call().allowed).toBe(false);
+    clock.advance(1);
+    expect(clock.call().allowed).toBe(true);
+    expect(clock.call().allowed).toBe(false);
+  });
+
+  it("never refills past the capacity", () => {
+    const clock = createClock();
+    clock.call();
+    clock.advance(3600);
+    expect([1, 2, 3, 4].map(() => clock.call().allowed)).toEqual([true, true, true, false]);
+  });
+
+  it("doesn't lose tokens when the clock goes backwards", () => {
+    const clock = createClock();
+    clock.call();
+    clock.advance(-30);
+    expect(clock.call().allowed).toBe(true);
+    expect(clock.call().allowed).toBe(true);
+    expect(clock.call().allowed).toBe(false);
+  });
+});
+
+describe("limits", () => {
+  it("gives each callable its own limit", () => {
+    expect(getRateLimit("getCloudinarySignature").capacity)
+      .toBeLessThan(getRateLimit("getTMDBData").capacity);
+  });
+
+  it("falls back to the default for unknown callables", () => {
+    expect(getRateLimit("somethingNew")).toBe(DEFAULT_RATE_LIMIT);
+  });
+});
+
+describe("limiter failures", () => {
+  it("let the call through only when Firestore is unavailable", () => {
+    expect(isInfrastructureError({code: 14})).toBe(true);
+    expect(isInfrastructureError({code: "deadline-exceeded"})).toBe(true);
+  });
+
+  it("reject the call on contention and anything else", () => {
+    expect(isInfrastructureError({code: 10})).toBe(false); // ABORTED
+    expect(isInfrastructureError({code: "aborted"})).toBe(false);
+    expect(isInfrastructureError(new Error("Transaction too big"))).toBe(false);
+    expect(isInfrastructureError(undefined)).toBe(false);
+  });
+});
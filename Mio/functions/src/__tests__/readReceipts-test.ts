@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getUnreadCount,
+  mergeReadState,
+  planMarkRead,
+  planSenderCursor,
+  ReadState,
+} from "../readReceipts";
+
+// Stands in for a Firestore Timestamp
+const ts = (millis: number) => ({toMillis: () => millis});
+type Time = ReturnType<typeof ts>;
+
+const buildState = (overrides: Partial<ReadState<Time>> = {}): ReadState<Time> => ({
+  participants: ["alice", "bob"],
+  messageCount: 0,
+  lastMessageTimestamp: ts(0),
+  lastReadAt: {alice: ts(0), bob: ts(0)},
+  readMessageCount: {alice: 0, bob: 0},
+  ...overrides,
+});
+
+/**
+ * Applies a cursor update the way Firestore writes dotted field paths
+ * @param {ReadState<Time>} state The conversation to update
+ * @param {Record<string, Time | number>} update The fields to write
+ * @return {ReadState<Time>} The updated conversation
+ */
+function apply(state: ReadState<Time>, update: Record<string, Time | number>): ReadState<Time> {
+  const next = {
+    ...state,
+    lastReadAt: {...state.lastReadAt},
+    readMessageCount: {...state.readMessageCount},
+  };
+  Object.entries(update).forEach(([path, value]) => {
+    const [field, userId] = path.split(".");
+    if (field === "lastReadAt") {
+      next.lastReadAt[userId] = value as Time;
+    } else {
+      next.readMessageCount[userId] = value as number;
+    }
+  });
+  return next;
+}
+
+/**
+ * Sends a message the way the `sendMessage` transaction updates the conversation
+ * @param {ReadState<Time>} state The conversation
+ * @param {string} senderId Who sends
+ * @param {number} time When the message is sent
+ * @return {ReadState<Time>} The updated conversation
+ */
+function send(state: ReadState<Time>, senderId: string, time: number): ReadState<Time> {
+  const messageCount = (state.messageCount || 0) + 1;
+  const next = {...state, messageCount, lastMessageTimestamp: ts(time)};
+  return apply(next, planSenderCursor(state, senderId, messageCount, ts(time)));
+}
+
+describe("unread counts", () => {
+  it("count the messages after the cursor", () => {
+    let state = buildState();
+    state = send(state, "alice", 1);
+    state = send(state, "alice", 2);
+    expect(getUnreadCount(state, "bob")).toBe(2);
+    expect(getUnreadCount(state, "alice")).toBe(0);
+  });
+
+  it("drop to zero once the conversation is read", () => {
+    let state = send(send(buildState(), "alice", 1), "alice", 2);
+    state = apply(state, planMarkRead(state, "bob") || {});
+    expect(getUnreadCount(state, "bob")).toBe(0);
+    expect(state.lastReadAt?.bob.toMillis()).toBe(2);
+  });
+
+  it("only cover messages sent before the read", () => {
+    let state = send(buildState(), "alice", 1);
+    const markRead = planMarkRead(state, "bob") || {};
+    state = send(state, "alice", 2);
+    state = apply(state, markRead);
+    expect(getUnreadCount(state, "bob")).toBe(1);
+  });
+
+  it("clear when replying", () => {
+    let state = send(send(buildState(), "alice", 1), "bob", 2);
+    expect(getUnreadCount(state, "bob")).toBe(0);
+    expect(getUnreadCount(state, "alice")).toBe(1);
+    state = send(state, "alice", 3);
+    expect(getUnreadCount(state, "alice")).toBe(0);
+    expect(getUnreadCount(state, "bob")).toBe(1);
+  });
+
+  it("fall back to the old counter for conversations without cursors", () => {
+    const state: ReadState<Time> = {participants: ["alice", "bob"], messageCount: 10, unreadCount: {bob: 3}};
+    expect(getUnreadCount(state, "bob")).toBe(3);
+    expect(getUnreadCount(state, "alice")).toBe(0);
+  });
+
+  it("keep the old count when the first message after cursors is sent", () => {
+    const state: ReadState<Time> = {participants: ["alice", "bob"], messageCount: 10, unreadCount: {bob: 3}};
+    const next = send(state, "alice", 1);
+    expect(next.readMessageCount).toEqual({alice: 11, bob: 7});
+    expect(getUnreadCount(next, "bob")).toBe(4);
+  });
+});
+
+describe("marking as read", () => {
+  it("does nothing when everything is read", () => {
+    expect(planMarkRead(buildState(), "alice")).toBeNull();
+    expect(planMarkRead(send(buildState(), "alice", 1), "alice")).toBeNull();
+  });
+
+  it("sets up a cursor for conversations without one", () => {
+    const lastMessageTimestamp = ts(9);
+    const state: ReadState<Time> = {
+      participants: ["alice", "bob"],
+      messageCount: 4,
+      lastMessageTimestamp,
+      unreadCount: {bob: 0},
+    };
+    expect(planMarkRead(state, "bob")).toEqual({"lastReadAt.bob": lastMessageTimestamp, "readMessageCount.bob": 4});
+  });
+});
+
+describe("merging read state", () => {
+  it("adds up the unread counts of each conversation", () => {
+    const merged = mergeReadState([
+      buildState({messageCount: 5, readMessageCount: {alice: 5, bob: 3}}),
+      buildState({messageCount: 2, readMessageCount: {alice: 1}, unreadCount: {bob: 2}}),
+    ], 7);
+    expect(merged.readMessageCount).toEqual({alice: 6, bob: 3});
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DEFAULT_SEARCH_QUOTA_RULES,
+  getSearchQuotaRules,
+  getSearchQuotaStatus,
+  refreshSearchQuota,
+  refundSearch,
+  SearchQuotaState,
+  takeSearch,
+} from "../searchQuota";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+const rules = DEFAULT_SEARCH_QUOTA_RULES;
+const favorites = ["1", "2"];
+
+const buildState = (overrides: Partial<SearchQuotaState> = {}): SearchQuotaState => ({
+  searchTimes: [],
+  bonusSearches: 0,
+  knownShowIds: favorites,
+  ...overrides,
+});
+const hoursAgo = (hours: number) => NOW - hours * HOUR_MS;
+
+describe("quota rules", () => {
+  it("reads overrides from the environment", () => {
+    expect(getSearchQuotaRules({SEARCHES_PER_DAY: "10", MAX_BONUS_SEARCHES: "0"})).toEqual({
+      searchesPerDay: 10,
+      bonusPerNewFavorite: 1,
+      maxBonusSearches: 0,
+    });
+  });
+
+  it("falls back to the defaults for missing or malformed values", () => {
+    expect(getSearchQuotaRules({})).toEqual(rules);
+    expect(getSearchQuotaRules({SEARCHES_PER_DAY: "-1", SEARCH_BONUS_PER_FAVORITE: "1.5"})).toEqual(rules);
+  });
+});
+
+describe("daily searches", () => {
+  it("lets a first-time user search", () => {
+    const result = takeSearch(undefined, favorites, NOW, rules);
+    expect(result.allowed).toBe(true);
+    expect(result.state.searchTimes).toEqual([NOW]);
+    expect(result.status).toEqual({remaining: 4, nextAvailableAt: null});
+  });
+
+  it("refuses searches once the day's quota is used up", () => {
+    const state = buildState({searchTimes: [1, 2, 3, 4, 5].map(hoursAgo)});
+    const result = takeSearch(state, favorites, NOW, rules);
+    expect(result.allowed).toBe(false);
+    expect(result.status).toEqual({remaining: 0, nextAvailableAt: hoursAgo(5) + 24 * HOUR_MS});
+  });
+
+  it("frees up searches made more than a day ago", () => {
+    const state = buildState({searchTimes: [25, 2, 3, 4, 5].map(hoursAgo)});
+    const result = takeSearch(state, favorites, NOW, rules);
+    expect(result.allowed).toBe(true);
+    expect(result.state.searchTimes).toHaveLength(5);
+    expect(result.status.nextAvailableAt).toBe(hoursAgo(5) + 24 * HOUR_MS);
+  });
+});
+
+describe("bonus searches", () => {
+  it("credits favorites added since the last check", () => {
+    const state = refreshSearchQuota(buildState(), [...favorites, "3"], NOW, rules);
+    expect(state.bonusSearches).toBe(1);
+    expect(state.knownShowIds).toEqual(["1", "2", "3"]);
+  });
+
+  it("doesn't credit a show again after it's removed and added back", () => {
+    const removed = refreshSearchQuota(buildState(), ["1"], NOW, rules);
+    expect(removed.knownShowIds).toEqual(["1", "2"]);
+
+    const readded = refreshSearchQuota(removed, ["1", "2"], NOW, rules);
+    expect(readded.bonusSearches).toBe(0);
+    expect(readded.knownShowIds).toEqual(["1", "2"]);
+  });
+
+  it("doesn't credit the favorites a user starts with", () => {
+    expect(refreshSearchQuota(undefined, favorites, NOW, rules).bonusSearches).toBe(0);
+  });
+
+  it("caps how many bonus searches can be saved up", () => {
+    const state = refreshSearchQuota(buildState({bonusSearches: 2}), ["3", "4", "5"], NOW, rules);
+    expect(state.bonusSearches).toBe(rules.maxBonusSearches);
+  });
+
+  it("spends bonus searches once the daily quota is used up", () => {
+    const state = buildState({searchTimes: [1, 2, 3, 4, 5].map(hoursAgo), bonusSearches: 1});
+    expect(getSearchQuotaStatus(state, rules)).toEqual({remaining: 1, nextAvailableAt: null});
+
+    const result = takeSearch(state, favorites, NOW, rules);
+    expect(result.allowed).toBe(true);
+    expect(result.state.bonusSearches).toBe(0);
+    expect(result.state.searchTimes).toHaveLength(5);
+    expect(result.status.remaining).toBe(0);
+  });
+});
+
+describe("refunds", () => {
+  it("gives back a daily search that failed", () => {
+    const result = takeSearch(buildState({searchTimes: [hoursAgo(2)]}), favorites, NOW, rules);
+    expect(result.charge).toEqual({kind: "daily", takenAt: NOW});
+    if (!result.charge) return;
+
+    expect(refundSearch(result.state, result.charge, rules).searchTimes).toEqual([hoursAgo(2)]);
+  });
+
+  it("gives back a bonus search that failed", () => {
+    const state = buildState({searchTimes: [1, 2, 3, 4, 5].map(hoursAgo), bonusSearches: 1});
+    const result = takeSearch(state, favorites, NOW, rules);
+    expect(result.charge).toEqual({kind: "bonus"});
+    if (!result.charge) return;
+
+    expect(refundSearch(result.state, result.charge, rules)).toEqual(state);
+  });
+
+  it("charges nothing for a refused search", () => {
+    const state = buildState({searchTimes: [1, 2, 3, 4, 5].map(hoursAgo)});
+    expect(takeSearch(state, favorites, NOW, rules).charge).toBeNull();
+  });
+});
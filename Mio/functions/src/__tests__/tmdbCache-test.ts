@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DEFAULT_CACHE_TTL,
+  getCacheKey,
+  getCacheState,
+  getCacheTtl,
+  TMDBCacheEntry,
+} from "../tmdbCache";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+
+const entryFetched = (hoursAgo: number): TMDBCacheEntry => ({
+  key: "/tv/1399",
+  body: "{}",
+  fetchedAt: NOW - hoursAgo * HOUR_MS,
+});
+
+describe("cache keys", () => {
+  it("ignores slashes and param order", () => {
+    expect(getCacheKey("search/tv", {query: "frieren", page: 1}))
+      .toBe(getCacheKey("/search/tv/", {page: "1", query: "frieren"}));
+  });
+
+  it("skips empty params", () => {
+    expect(getCacheKey("/tv/1399", {append_to_response: undefined, language: ""})).toBe("/tv/1399");
+  });
+
+  it("keeps different requests apart", () => {
+    expect(getCacheKey("/search/tv", {query: "frieren"}))
+      .not.toBe(getCacheKey("/search/tv", {query: "mushishi"}));
+    expect(getCacheKey("/trending/tv/day")).not.toBe(getCacheKey("/trending/tv/week"));
+  });
+});
+
+describe("TTLs", () => {
+  it("keeps show details for much longer than trending lists", () => {
+    expect(getCacheTtl("/tv/1399").freshMs).toBeGreaterThan(getCacheTtl("/trending/tv/week").freshMs);
+    expect(getCacheTtl("/trending/tv/week").freshMs).toBe(3 * HOUR_MS);
+  });
+
+  it("doesn't treat the popular list as show details", () => {
+    expect(getCacheTtl("/tv/popular")).not.toBe(getCacheTtl("/tv/1399"));
+  });
+
+  it("falls back to the default for other endpoints", () => {
+    expect(getCacheTtl("/genre/tv/list")).toBe(DEFAULT_CACHE_TTL);
+  });
+});
+
+describe("cache state", () => {
+  const ttl = {freshMs: 3 * HOUR_MS, staleMs: 24 * HOUR_MS};
+
+  it("moves from fresh to stale to expired", () => {
+    expect(getCacheState(entryFetched(1), ttl, NOW)).toBe("fresh");
+    expect(getCacheState(entryFetched(3), ttl, NOW)).toBe("stale");
+    expect(getCacheState(entryFetched(26), ttl, NOW)).toBe("stale");
+    expect(getCacheState(entryFetched(27), ttl, NOW)).toBe("expired");
+  });
+
+  it("reports a missing entry", () => {
+    expect(getCacheState(undefined, ttl, NOW)).toBe("missing");
+  });
+});
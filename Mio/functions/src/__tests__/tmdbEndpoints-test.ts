@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import {HttpsError} from "firebase-functions/v2/https";
+import {buildTMDBUrl, validateTMDBRequest} from "../tmdbEndpoints";
+
+const expectRejected = (endpoint: unknown, params?: unknown) => {
+  let thrown: unknown;
+  try {
+    validateTMDBRequest(endpoint, params);
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(HttpsError);
+  expect((thrown as HttpsError).code).toBe("invalid-argument");
+};
+
+describe("allowed requests", () => {
+  it("accepts a search", () => {
+    expect(validateTMDBRequest("/search/tv", {query: " frieren ", page: 2})).toEqual({
+      endpoint: "/search/tv",
+      params: {query: "frieren", page: "2"},
+    });
+  });
+
+  it("accepts trending for a day or a week", () => {
+    expect(validateTMDBRequest("/trending/tv/day", {page: 1}).endpoint).toBe("/trending/tv/day");
+    expect(validateTMDBRequest("trending/tv/week", {}).endpoint).toBe("/trending/tv/week");
+  });
+
+  it("accepts show details with appended sections", () => {
+    expect(validateTMDBRequest("/tv/1399", {append_to_response: "similar,credits"}).params)
+      .toEqual({append_to_response: "similar,credits"});
+  });
+
+  it("accepts the popular and top rated lists", () => {
+    expect(validateTMDBRequest("/tv/popular", {page: 1}).endpoint).toBe("/tv/popular");
+    expect(validateTMDBRequest("/tv/top_rated", {page: 3}).endpoint).toBe("/tv/top_rated");
+  });
+
+  it("accepts the other read-only show endpoints", () => {
+    expect(validateTMDBRequest("/tv/1399/recommendations", {page: 1}).endpoint).toBe("/tv/1399/recommendations");
+    expect(validateTMDBRequest("/tv/1399/season/2", undefined).endpoint).toBe("/tv/1399/season/2");
+    expect(validateTMDBRequest("/genre/tv/list", {language: "en-US"}).endpoint).toBe("/genre/tv/list");
+  });
+
+  it("drops empty params", () => {
+    expect(validateTMDBRequest("/tv/popular", {page: "", language: undefined}).params).toEqual({});
+  });
+});
+
+describe("rejected requests", () => {
+  it("rejects a missing or non-string endpoint", () => {
+    expectRejected(undefined);
+    expectRejected("   ");
+    expectRejected({path: "/tv/1399"});
+  });
+
+  it("rejects account, session and authentication endpoints", () => {
+    expectRejected("/account");
+    expectRejected("/authentication/token/new");
+    expectRejected("/tv/1399/rating");
+  });
+
+  it("rejects path tricks", () => {
+    expectRejected("/tv/1399/../../account");
+    expectRejected("/tv/1399?session_id=abc");
+    expectRejected("/tv/1399#fragment");
+    expectRejected("https://evil.example/tv/1399");
+  });
+
+  it("rejects params that aren't an object", () => {
+    expectRejected("/tv/popular", "page=1");
+    expectRejected("/tv/popular", [1]);
+  });
+
+  it("rejects unknown params", () => {
+    expectRejected("/tv/1399", {session_id: "abc"});
+    expectRejected("/search/tv", {query: "frieren", api_key: "mine"});
+  });
+
+  it("rejects a search without a query", () => {
+    expectRejected("/search/tv", {page: 1});
+    expectRejected("/search/tv", {query: "  "});
+  });
+
+  it("rejects out of range or malformed numbers", () => {
+    expectRejected("/tv/popular", {page: 0});
+    expectRejected("/tv/popular", {page: 501});
+    expectRejected("/tv/popular", {page: "1.5"});
+    expectRejected("/tv/popular", {page: "1&api_key=x"});
+  });
+
+  it("rejects overly long strings and nested values", () => {
+    expectRejected("/search/tv", {query: "x".repeat(101)});
+    expectRejected("/search/tv", {query: {$gt: ""}});
+  });
+
+  it("rejects unknown appended sections and adult content", () => {
+    expectRejected("/tv/1399", {append_to_response: "similar,account_states"});
+    expectRejected("/search/tv", {query: "frieren", include_adult: true});
+  });
+});
+
+describe("URLs", () => {
+  it("encodes params instead of concatenating them", () => {
+    const url = new URL(buildTMDBUrl(
+      validateTMDBRequest("/search/tv", {query: "spy & family"}),
+      "key123"
+    ));
+    expect(url.origin + url.pathname).toBe("https://api.themoviedb.org/3/search/tv");
+    expect(url.searchParams.get("query")).toBe("spy & family");
+    expect(url.searchParams.get("api_key")).toBe("key123");
+    expect(Array.from(url.searchParams.keys())).toEqual(["query", "api_key"]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Conversation identity and merging.
+ *
+ * Each pair of users has at most one conversation, stored under an ID derived
+ * from the sorted pair (`conversations/{uidA_uidB}`), so two people opening a
+ * chat at once end up in the same thread. Conversations are only created by
+ * the `openConversation` callable. Conversations created under random IDs
+ * before this are merged into the pair's conversation by the
+ * `migrateDuplicateConversations` callable, using `mergeConversations`.
+ */
+
+import {HttpsError} from "firebase-functions/v2/https";
+import {getPairId} from "./matchingEngine";
+import {mergeReadState} from "./readReceipts";
+
+export const NEW_CONVERSATION_TEXT = "Start a conversation!";
+
+interface Timestamped {
+  toMillis(): number;
+}
+
+export interface ArchiveInfo<TTimestamp> {
+  path: string;
+  count: number;
+  oldestTimestamp: TTimestamp;
+  newestTimestamp: TTimestamp;
+  createdAt: unknown;
+}
+
+// A conversation header as stored in Firestore
+export interface ConversationData<TTimestamp> {
+  participants: string[];
+  participantNames: Record<string, string>;
+  participantPhotos: Record<string, string>; // Blurred until the pair's photos unlock
+  lastMessage: {text: string; timestamp: TTimestamp};
+  lastMessageTimestamp: TTimestamp;
+  createdAt: TTimestamp;
+  lastReadAt: Record<string, TTimestamp>; // Read cursors, see readReceipts.ts
+  readMessageCount: Record<string, number>;
+  unreadCount?: Record<string, number>; // Only on conversations from before read cursors
+  messageCount: number;
+  currentBatchId: string | null;
+  archives: ArchiveInfo<TTimestamp>[];
+  archivedMessages: number;
+}
+
+// The name and photo shown for a participant
+export interface ParticipantProfile {
+  userId: string;
+  displayName: string;
+  profilePic: string; // Blurred until the pair's photos unlock
+}
+
+/**
+ * The ID of the conversation between two users
+ * @param {string} userIdA One user's ID
+ * @param {string} userIdB The other user's ID
+ * @return {string} The same ID whichever user asks
+ */
+export function getConversationId(userIdA: string, userIdB: string): string {
+  if (!userIdA || !userIdB || userIdA === userIdB) {
+    throw new HttpsError("invalid-argument", "A conversation needs two different users.");
+  }
+  return getPairId(userIdA, userIdB);
+}
+
+/**
+ * Builds the header of a new, empty conversation
+ * @param {ParticipantProfile} starter The user opening the conversation
+ * @param {ParticipantProfile} other The user they're opening it with
+ * @param {TTimestamp} now The current time
+ * @return {ConversationData<TTimestamp>} The conversation to store
+ */
+export function buildConversation<TTimestamp>(
+  starter: ParticipantProfile,
+  other: ParticipantProfile,
+  now: TTimestamp
+): ConversationData<TTimestamp> {
+  return {
+    participants: [starter.userId, other.userId],
+    participantNames: {
+      [starter.userId]: starter.displayName,
+      [other.userId]: other.displayName,
+    },
+    participantPhotos: {
+      [starter.userId]: starter.profilePic,
+      [other.userId]: other.profilePic,
+    },
+    lastMessage: {text: NEW_CONVERSATION_TEXT, timestamp: now},
+    lastMessageTimestamp: now,
+    createdAt: now,
+    lastReadAt: {[starter.userId]: now, [other.userId]: now},
+    readMessageCount: {[starter.userId]: 0, [other.userId]: 0},
+    messageCount: 0,
+    currentBatchId: null,
+    archives: [],
+    archivedMessages: 0,
+  };
+}
+
+/**
+ * Where an archive file goes once its conversation is merged into another
+ * @param {string} path The archive's current Storage path
+ * @param {string} conversationId The conversation it's merged into
+ * @return {string} The path under that conversation's archive folder
+ */
+export function getMergedArchivePath(path: string, conversationId: string): string {
+  const fileName = path.split("/").pop();
+  return `archives/${conversationId}/${fileName}`;
+}
+
+/**
+ * Merges duplicate conversations of the same pair into one header. Message
+ * counts, unread counts and archives are added up, read cursors are rebuilt
+ * from the unread counts, the most recent message
+ * and profile snapshots win, and the next message starts a fresh batch so no
+ * copied batch is overfilled. Batch docs and archive files are moved by the
+ * caller.
+ * @param {string} conversationId The pair's conversation ID
+ * @param {Partial<ConversationData<TTimestamp>>[]} conversations Every conversation of the pair, in any order
+ * @return {ConversationData<TTimestamp>} The merged header
+ */
+export function mergeConversations<TTimestamp extends Timestamped>(
+  conversationId: string,
+  conversations: Partial<ConversationData<TTimestamp>>[]
+): ConversationData<TTimestamp> {
+  if (conversations.length === 0) {
+    throw new Error("Nothing to merge.");
+  }
+
+  const lastActive = (conversation: Partial<ConversationData<TTimestamp>>) =>
+    conversation.lastMessageTimestamp?.toMillis() ?? conversation.createdAt?.toMillis() ?? 0;
+  const byActivity = [...conversations].sort((a, b) => lastActive(a) - lastActive(b));
+  const latest = byActivity[byActivity.length - 1];
+  const createdAts = conversations
+    .map((conversation) => conversation.createdAt)
+    .filter((createdAt): createdAt is TTimestamp => !!createdAt)
+    .sort((a, b) => a.toMillis() - b.toMillis());
+
+  const archives: ArchiveInfo<TTimestamp>[] = [];
+  let messageCount = 0;
+  let archivedMessages = 0;
+  for (const conversation of conversations) {
+    (conversation.archives || []).forEach((archive) => {
+      archives.push({...archive, path: getMergedArchivePath(archive.path, conversationId)});
+    });
+    messageCount += conversation.messageCount || 0;
+    archivedMessages += conversation.archivedMessages || 0;
+  }
+  archives.sort((a, b) => a.newestTimestamp.toMillis() - b.newestTimestamp.toMillis());
+  const {lastReadAt, readMessageCount} = mergeReadState(
+    conversations.map((conversation) => ({...conversation, participants: conversation.participants || []})),
+    messageCount
+  );
+
+  // Older snapshots first, so the latest conversation's names and photos win
+  const participantNames = Object.assign({}, ...byActivity.map((conversation) => conversation.participantNames));
+  const participantPhotos = Object.assign({}, ...byActivity.map((conversation) => conversation.participantPhotos));
+
+  return {
+    participants: latest.participants || [],
+    participantNames,
+    participantPhotos,
+    lastMessage: latest.lastMessage as ConversationData<TTimestamp>["lastMessage"],
+    lastMessageTimestamp: latest.lastMessageTimestamp as TTimestamp,
+    createdAt: createdAts[0],
+    lastReadAt,
+    readMessageCount,
+    messageCount,
+    currentBatchId: null,
+    archives,
+    archivedMessages,
+  };
+}
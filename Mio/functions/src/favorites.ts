@@ -0,0 +1,113 @@
+/**
+ * Favorite show limits.
+ *
+ * Users can keep a limited number of favorites, and once they've removed a
+ * few they have to wait before removing more, so favorites can't be churned to
+ * game matching. Favorites only change through the `addFavorite` and
+ * `removeFavorite` callables, which apply these rules; the removal state is
+ * kept on the user document's `favoritesQuota`, which the app can't write.
+ */
+
+export const MAX_FAVORITES = 10;
+export const MAX_REMOVALS = 5; // Removals allowed before the cooldown starts
+export const REMOVAL_COOLDOWN_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHOW_ID_PATTERN = /^\d{1,10}$/; // TMDB IDs
+
+// Removal state stored per user, with times in milliseconds
+export interface FavoritesQuota {
+  removalCount: number;
+  cooldownEndTime: number | null; // Removals are blocked until then
+}
+
+export interface FavoriteChange {
+  allowed: boolean;
+  reason?: string; // Why the change was refused
+  favoriteShowIds: string[];
+  quota: FavoritesQuota;
+}
+
+/**
+ * Checks that a show ID looks like a TMDB ID
+ * @param {unknown} showId The ID sent by the app
+ * @return {boolean} Whether it can be stored as a favorite
+ */
+export function isValidShowId(showId: unknown): showId is string {
+  return typeof showId === "string" && SHOW_ID_PATTERN.test(showId);
+}
+
+/**
+ * Brings stored removal state up to date, ending a cooldown that has passed
+ * @param {Partial<FavoritesQuota> | undefined} quota The stored state, missing before the first removal
+ * @param {number} now The current time in milliseconds
+ * @return {FavoritesQuota} The current state
+ */
+export function getFavoritesQuota(quota: Partial<FavoritesQuota> | undefined, now: number): FavoritesQuota {
+  const cooldownEndTime = quota?.cooldownEndTime ?? null;
+  if (cooldownEndTime !== null && now >= cooldownEndTime) {
+    return {removalCount: 0, cooldownEndTime: null};
+  }
+  return {removalCount: quota?.removalCount || 0, cooldownEndTime};
+}
+
+/**
+ * Adds a show to the favorites if there's room. Adding a show that is
+ * already a favorite changes nothing.
+ * @param {string[]} favoriteShowIds The current favorites
+ * @param {FavoritesQuota} quota The current removal state
+ * @param {string} showId The show to add
+ * @return {FavoriteChange} Whether it was added and the favorites to store
+ */
+export function addToFavorites(favoriteShowIds: string[], quota: FavoritesQuota, showId: string): FavoriteChange {
+  if (favoriteShowIds.includes(showId)) {
+    return {allowed: true, favoriteShowIds, quota};
+  }
+  if (favoriteShowIds.length >= MAX_FAVORITES) {
+    return {
+      allowed: false,
+      reason: `You can only have ${MAX_FAVORITES} favorites. Remove one before adding more.`,
+      favoriteShowIds,
+      quota,
+    };
+  }
+  return {allowed: true, favoriteShowIds: [...favoriteShowIds, showId], quota};
+}
+
+/**
+ * Removes a show from the favorites unless removals are on cooldown. The
+ * removal that uses up the last one starts the cooldown and resets the count.
+ * Removing a show that isn't a favorite changes nothing.
+ * @param {string[]} favoriteShowIds The current favorites
+ * @param {FavoritesQuota} quota The current removal state, from `getFavoritesQuota`
+ * @param {string} showId The show to remove
+ * @param {number} now The current time in milliseconds
+ * @return {FavoriteChange} Whether it was removed, the favorites and the removal state to store
+ */
+export function removeFromFavorites(
+  favoriteShowIds: string[],
+  quota: FavoritesQuota,
+  showId: string,
+  now: number
+): FavoriteChange {
+  if (!favoriteShowIds.includes(showId)) {
+    return {allowed: true, favoriteShowIds, quota};
+  }
+  if (quota.cooldownEndTime !== null) {
+    return {
+      allowed: false,
+      reason: "You've removed too many favorites recently. Please wait before removing more.",
+      favoriteShowIds,
+      quota,
+    };
+  }
+
+  const removalCount = quota.removalCount + 1;
+  return {
+    allowed: true,
+    favoriteShowIds: favoriteShowIds.filter((id) => id !== showId),
+    quota: removalCount >= MAX_REMOVALS ?
+      {removalCount: 0, cooldownEndTime: now + REMOVAL_COOLDOWN_DAYS * DAY_MS} :
+      {removalCount, cooldownEndTime: null},
+  };
+}
@@ -7,45 +7,198 @@ import {FieldValue} from "firebase-admin/firestore"; // Import FieldValue
 import * as crypto from "crypto";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
 import {onSchedule} from "firebase-functions/v2/scheduler";
-import { sendMatchNotification } from "./notificationService";
+import {onDocumentUpdated, onDocumentWritten} from "firebase-functions/v2/firestore";
+import {
+  expo,
+  handleInvalidToken,
+  sendAnnouncementNotification,
+  sendMatchExpiryNotification,
+  PushContent,
+  sendDeferredPushes,
+  sendMatchNotification,
+  sendMessageNotification,
+  PendingMessagePush,
+  sendMessagePushSummary,
+} from "./notificationService";
+import {validateNotificationSettings} from "./notificationSettings";
+import {
+  getBlurredPhotoUpload,
+  getPhotoUnlockAt,
+  getPhotoUnlockReason,
+  getPhotoUnlockRules,
+  getProfilePhotos,
+  isBlurredPhotoUrl,
+  PhotoUnlockFields,
+  PhotoUnlockReason,
+  PROFILE_UPLOAD_FOLDER,
+  ProfilePhotos,
+} from "./photoUnlock";
+import {checkReceipts, RECEIPT_DELAY_MS, StoredPushTicket} from "./pushReceipts";
+import {
+  addToFavorites,
+  FavoriteChange,
+  FavoritesQuota,
+  getFavoritesQuota,
+  isValidShowId,
+  removeFromFavorites,
+} from "./favorites";
+import {
+  buildConversation,
+  ConversationData,
+  getConversationId,
+  getMergedArchivePath,
+  mergeConversations,
+} from "./conversations";
+import {
+  ConversationState,
+  getChatUploadFolder,
+  getMessagePreview,
+  MESSAGE_BATCH_SIZE,
+  MessageImage,
+  MessageType,
+  normalizeMessage,
+  planMessageSend,
+  validateMessageContent,
+} from "./messaging";
+import {enforceRateLimit} from "./rateLimiter";
+import {planMarkRead, planSenderCursor, ReadState} from "./readReceipts";
+import {
+  getSearchQuotaRules,
+  getSearchQuotaStatus,
+  refreshSearchQuota,
+  refundSearch,
+  SearchCharge,
+  SearchQuotaState,
+  SearchQuotaStatus,
+  takeSearch,
+} from "./searchQuota";
+import {getWithCache} from "./tmdbCache";
+import {buildTMDBUrl, validateTMDBRequest} from "./tmdbEndpoints";
+import {
+  CandidateDecision,
+  CandidateProfile,
+  collectCandidateIds,
+  DEFAULT_MATCH_EXPIRY_DAYS,
+  getChangedSnapshotFields,
+  getMatchExpiresAt,
+  getMatchExpiryStage,
+  getPairId,
+  getPairOutcome,
+  getSearchBlocker,
+  getSharedFavorites,
+  MatchCandidate as EngineMatchCandidate,
+  MatchData as EngineMatchData,
+  MatchProfile,
+  runMatchSearch,
+  ShowAudience,
+  toCandidate,
+  toMatch,
+} from "./matchingEngine";
 
 
 // Initialize Firebase Admin
 admin.initializeApp();
 
 // Configuration constants (same as in client)
-const MESSAGE_BATCH_SIZE = 20; // Number of messages per batch
 const BATCHES_TO_KEEP = 3; // Keep this many recent batches in Firestore
 const ARCHIVE_THRESHOLD = BATCHES_TO_KEEP * MESSAGE_BATCH_SIZE; // When to archive
 
-// Constants for matching algorithm (same as in client)
-const MATCH_THRESHOLD = 3;
-const SUPER_MATCH_THRESHOLD = 7;
-
-// Types for match data (internal to function, aligns with shared type but includes admin Timestamp)
-type MatchLevel = "match" | "superMatch";
-
-interface MatchData {
-  userId: string;
-  displayName: string;
-  profilePic: string;
-  matchLevel: MatchLevel;
-  favoriteShowIds: string[]; // Keep this
-  matchTimestamp: admin.firestore.Timestamp;
-  age?: number | string;
-  location?: string;
-  gender?: string;
-  chattingWith?: boolean;
+// Match lifecycle settings, overridable through environment variables
+const MATCH_EXPIRY_DAYS = Number(process.env.MATCH_EXPIRY_DAYS) || DEFAULT_MATCH_EXPIRY_DAYS;
+const REMATCH_COOLDOWN_DAYS = Number(process.env.REMATCH_COOLDOWN_DAYS) || 30; // Before an expired pair can match again
+const PASS_COOLDOWN_DAYS = Number(process.env.PASS_COOLDOWN_DAYS) || 90; // Before a passed pair is suggested again
+const PHOTO_UNLOCK_RULES = getPhotoUnlockRules(process.env);
+const SEARCH_QUOTA_RULES = getSearchQuotaRules(process.env);
+
+// Match data as stored in Firestore, with an admin Timestamp instead of a Date,
+// the state of the pair's photo unlock and, until either side opens a
+// conversation, when the match expires
+type MatchData = EngineMatchData<admin.firestore.Timestamp> & PhotoUnlockFields<admin.firestore.Timestamp> & {
+  expiresAt?: admin.firestore.Timestamp;
+};
+type MatchCandidate = EngineMatchCandidate<admin.firestore.Timestamp> & Pick<PhotoUnlockFields, "photoUnlocked">;
+
+/**
+ * Reference to a user's matches subcollection, one doc per matched user ID
+ * @param {string} userId The user whose matches to reference
+ * @return {admin.firestore.CollectionReference} The matches subcollection
+ */
+function getMatchesRef(userId: string): admin.firestore.CollectionReference {
+  return admin.firestore().collection("users").doc(userId).collection("matches");
+}
+
+/**
+ * Reference to a user's suggestion queue, one doc per suggested user ID
+ * @param {string} userId The user whose suggestions to reference
+ * @return {admin.firestore.CollectionReference} The candidates subcollection
+ */
+function getCandidatesRef(userId: string): admin.firestore.CollectionReference {
+  return admin.firestore().collection("users").doc(userId).collection("candidates");
+}
+
+/**
+ * Reference to the owner-only doc holding a user's real photos. The
+ * world-readable user doc only has blurred copies.
+ * @param {string} userId The user whose photos to reference
+ * @return {admin.firestore.DocumentReference} The private photo doc
+ */
+function getPrivatePhotoRef(userId: string): admin.firestore.DocumentReference {
+  return admin.firestore().collection("users").doc(userId).collection("private").doc("photo");
+}
+
+/**
+ * Reads a user's real photos. Users whose photos haven't been moved to the
+ * private doc yet still have them on their profile.
+ * @param {admin.firestore.DocumentSnapshot} privatePhotoDoc The user's private photo doc
+ * @param {admin.firestore.DocumentSnapshot} userDoc The user's doc
+ * @return {ProfilePhotos} The photos
+ */
+function getRealPhotos(
+  privatePhotoDoc: admin.firestore.DocumentSnapshot,
+  userDoc: admin.firestore.DocumentSnapshot
+): ProfilePhotos {
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  if (privatePhotoDoc.exists) {
+    return getProfilePhotos(privatePhotoDoc.data(), cloudName);
+  }
+  return getProfilePhotos(userDoc.data()?.profile, cloudName);
+}
+
+/**
+ * Has Cloudinary make a blurred copy of a profile photo
+ * @param {string} photoUrl The real photo
+ * @return {Promise<string>} The blurred copy's URL
+ */
+async function createBlurredPhoto(photoUrl: string): Promise<string> {
+  const apiKey = process.env.CLOUDINARY_API_KEY;
+  const apiSecret = process.env.CLOUDINARY_API_SECRET;
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  if (!apiKey || !apiSecret || !cloudName) {
+    throw new Error("Cloudinary credentials are not properly configured.");
+  }
+
+  const upload = getBlurredPhotoUpload(photoUrl, crypto.randomUUID(), Math.round(Date.now() / 1000), apiSecret);
+  const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, {
+    method: "POST",
+    body: new URLSearchParams({...upload, api_key: apiKey}),
+  });
+  const result = await response.json();
+  if (!response.ok || !isBlurredPhotoUrl(result.secure_url, cloudName)) {
+    throw new Error(`Couldn't blur ${photoUrl}: ${result.error?.message || response.status}`);
+  }
+  return result.secure_url;
 }
 
 // Interface for a single message within a batch
 interface Message {
   id?: string; // Optional ID
+  type?: MessageType; // Missing on messages sent before photos were supported
   text: string;
+  image?: MessageImage;
   senderId: string;
   senderName: string;
   timestamp: admin.firestore.Timestamp;
-  read: boolean;
+  read?: boolean; // Only on older messages, see readReceipts.ts
 }
 
 // Interface for message batch
@@ -256,7 +409,8 @@ async function archiveOldMessageBatches(conversationId: string): Promise<{
 
     const archiveData = {
       conversationId,
-      batches: archiveBatches,
+      formatVersion: 2, // Every message has a type, and photo messages an image
+      batches: archiveBatches.map((batch) => ({...batch, messages: batch.messages.map(normalizeMessage)})),
       totalMessages: totalMessagesInArchive,
       oldestTimestamp: archiveBatches[0].startTime,
       newestTimestamp: archiveBatches[archiveBatches.length - 1].endTime,
@@ -343,6 +497,8 @@ export const manualArchiveMessages = onCall(async (request) => {
     );
   }
 
+  await enforceRateLimit(request.auth.uid, "manualArchiveMessages");
+
   const conversationId = request.data.conversationId;
   if (!conversationId) {
     throw new HttpsError(
@@ -360,152 +516,93 @@ export const manualArchiveMessages = onCall(async (request) => {
 });
 
 /**
- * Internal helper to perform the actual deletion steps for a conversation.
- * Assumes conversationRef is valid.
- * @param {string} conversationId The ID of the conversation.
- * @param {admin.firestore.DocumentReference} conversationRef Reference to the conversation document.
- * @return {Promise<void>}
- */
-async function performConversationDeletion(
-  conversationId: string,
-  conversationRef: admin.firestore.DocumentReference
-): Promise<void> {
-  // Delete messageBatches subcollection
-  const batchesRef = conversationRef.collection("messageBatches");
-  await deleteCollection(batchesRef); // Use helper function
-  functions.logger.info(`Deleted messageBatches subcollection for conversation ${conversationId}`);
-
-  // Delete Storage archives folder
-  const storageFolderPath = `archives/${conversationId}/`;
-  await deleteStorageFolder(storageFolderPath); // Use helper function
-  functions.logger.info(`Deleted Storage folder ${storageFolderPath}`);
-
-  // Delete the main conversation document
-  await conversationRef.delete();
-  functions.logger.info(`Deleted main conversation document ${conversationId}`);
-}
-
-/**
- * HTTPS Callable function to delete all data associated with a conversation.
- * Called when a user unmatches or blocks another user.
+ * Sends a text or photo message. The batch is picked in a transaction on the
+ * conversation, so concurrent senders are serialized: Firestore retries the
+ * transaction that loses, and it then sees the other message's batch.
  */
-export const deleteConversationData = onCall(async (request) => {
-  // 1. Authentication Check
+export const sendMessage = onCall(async (request) => {
   if (!request.auth) {
     throw new HttpsError(
       "unauthenticated",
       "The function must be called while authenticated."
     );
   }
-  const currentUserId = request.auth.uid;
-  const otherUserId = request.data.otherUserId;
 
-  if (!otherUserId || typeof otherUserId !== "string") {
-    throw new HttpsError(
-      "invalid-argument",
-      "The function requires an 'otherUserId' parameter (string)."
-    );
-  }
+  await enforceRateLimit(request.auth.uid, "sendMessage");
 
-  const db = admin.firestore();
+  const conversationId = request.data?.conversationId;
+  if (typeof conversationId !== "string" || !conversationId || conversationId.includes("/")) {
+    throw new HttpsError("invalid-argument", "A valid conversationId is required.");
+  }
+  const content = validateMessageContent(request.data, conversationId, process.env.CLOUDINARY_CLOUD_NAME);
+  const senderId = request.auth.uid;
 
   try {
-    // 2. Find the conversation document
-    const conversationsRef = db.collection("conversations");
-    const q = conversationsRef
-      .where("participants", "array-contains", currentUserId);
+    const db = admin.firestore();
+    const conversationRef = db.collection("conversations").doc(conversationId);
+    const batchesRef = conversationRef.collection("messageBatches");
 
-    const querySnapshot = await q.get();
-    let conversationId: string | null = null;
-    let conversationRef: admin.firestore.DocumentReference | null = null;
+    const message = await db.runTransaction(async (transaction) => {
+      const conversationDoc = await transaction.get(conversationRef);
+      if (!conversationDoc.exists) {
+        throw new HttpsError("not-found", "Conversation not found.");
+      }
 
-    querySnapshot.forEach((doc) => {
-      const participants = doc.data().participants;
-      if (participants && participants.includes(otherUserId)) {
-        conversationId = doc.id;
-        conversationRef = doc.ref;
+      const now = admin.firestore.Timestamp.now();
+      const conversation = conversationDoc.data() as ConversationState & ReadState<admin.firestore.Timestamp>;
+      const plan = planMessageSend(conversation, senderId, content, now, {
+        batchId: batchesRef.doc().id,
+        messageId: batchesRef.doc().id,
+      });
+
+      const batchRef = batchesRef.doc(plan.batchId);
+      if (plan.isNewBatch) {
+        transaction.set(batchRef, {
+          messages: [plan.message],
+          startTime: now,
+          endTime: now,
+        });
+      } else {
+        transaction.update(batchRef, {
+          messages: FieldValue.arrayUnion(plan.message),
+          endTime: now,
+        });
       }
-    });
 
-    // 3. If conversation exists, proceed with deletion
-    if (conversationId && conversationRef) {
-      // Split the log message into two parts
-      functions.logger.info(`Found conversation ${conversationId} between ${currentUserId} and ${otherUserId}.`);
-      functions.logger.info("Preparing for deletion.");
+      // Recipients' unread counts follow from the new messageCount and their read cursors
+      transaction.update(conversationRef, {
+        currentBatchId: plan.batchId,
+        messageCount: plan.messageCount,
+        lastMessage: {text: getMessagePreview(plan.message), timestamp: now},
+        lastMessageTimestamp: now,
+        ...planSenderCursor(conversation, senderId, plan.messageCount, now),
+      });
 
-      // Call the dedicated deletion helper function
-      await performConversationDeletion(conversationId, conversationRef);
+      return plan.message;
+    });
 
-      return {
-        success: true,
-        message: `Successfully deleted conversation data for ${conversationId}`,
-      };
-    } else {
-      functions.logger.info(
-        `No conversation found between ${currentUserId} and ${otherUserId}. ` +
-        "No data deleted."
-      );
-      // It's okay if no conversation exists, maybe they unmatched before chatting
-      return {
-        success: true,
-        message: "No active conversation found to delete.",
-      };
+    return {
+      success: true,
+      message: {...message, timestamp: message.timestamp.toMillis()},
+    };
+  } catch (error: any) {
+    functions.logger.error(`Error sending message in ${conversationId}:`, error);
+    if (error instanceof HttpsError) {
+      throw error;
     }
-  } catch (error: unknown) {
-    // Break the logger call to satisfy max-len
-    functions.logger.error(
-      `Error deleting conversation data between ${currentUserId} and ${otherUserId}:`,
-      error
-    );
-    // Check if error is an object with a message property before accessing it
-    const errorMessage = error instanceof Error ? error.message : String(error);
     throw new HttpsError(
       "internal",
-      `Failed to delete conversation data: ${errorMessage}`
+      `Failed to send message: ${error.message || error}`
     );
   }
 });
 
 /**
- * Cloud function to search for user matches
- * This moves the matching algorithm to the server for better security and performance
- */
-/**
- * Function to process matches and send notifications to matched users
- * @param userId - The ID of the user who initiated the search
- * @param userName - The display name of the user who initiated the search
- * @param newMatches - Array of new matches to process
+ * Marks a conversation as read up to its latest message by moving the
+ * caller's read cursor. Runs in a transaction so a message sent meanwhile
+ * is either covered by the cursor or stays unread.
  */
-async function processNewMatchesAndNotify(
-  userId: string,
-  userName: string,
-  newMatches: MatchData[]
-): Promise<void> {
-  if (!newMatches || newMatches.length === 0) {
-    return;
-  }
-  
-  functions.logger.info(`Processing ${newMatches.length} new matches for user ${userId}`);
-  
-  for (const match of newMatches) {
-    try {
-      // Send notification to the matched user
-      await sendMatchNotification(
-        match.userId,
-        userId,
-        userName,
-        match.matchLevel
-      );
-      
-      functions.logger.info(`Notification sent to user ${match.userId} for match with ${userId}`);
-    } catch (error) {
-      functions.logger.error(`Error sending notification to user ${match.userId}:`, error);
-    }
-  }
-}
-
-export const searchUserMatches = onCall(async (request) => {
-  // Verify authentication
+export const markConversationRead = onCall(async (request) => {
   if (!request.auth) {
     throw new HttpsError(
       "unauthenticated",
@@ -513,261 +610,2118 @@ export const searchUserMatches = onCall(async (request) => {
     );
   }
 
-  const currentUserId = request.auth.uid;
-  const currentUserFavoriteShowIds: string[] = request.data.favoriteShowIds || []; // Renamed for clarity
+  await enforceRateLimit(request.auth.uid, "markConversationRead");
+
+  const conversationId = request.data?.conversationId;
+  if (typeof conversationId !== "string" || !conversationId || conversationId.includes("/")) {
+    throw new HttpsError("invalid-argument", "A valid conversationId is required.");
+  }
+  const userId = request.auth.uid;
 
   try {
     const db = admin.firestore();
-    const userRef = db.collection("users").doc(currentUserId);
-    const userDoc = await userRef.get();
-    if (!userDoc.exists) {
-      throw new HttpsError(
-        "not-found",
-        "User profile not found."
-      );
-    }
-
-    const userData = userDoc.data();
-    const userProfile = userData?.profile;
-    const existingMatches = userData?.matches || [];
-    const blockedUsers = userProfile?.blockedUsers || [];
-    if (!userProfile || !userProfile.displayName || !userProfile.age || !userProfile.gender) {
-      throw new HttpsError(
-        "failed-precondition",
-        "Please complete your profile before searching for matches."
-      );
-    }
+    const conversationRef = db.collection("conversations").doc(conversationId);
 
-    if (currentUserFavoriteShowIds.length === 0) {
-      throw new HttpsError(
-        "failed-precondition",
-        "Add some favorite shows first to find matches!"
-      );
-    }
+    const updated = await db.runTransaction(async (transaction) => {
+      const conversationDoc = await transaction.get(conversationRef);
+      if (!conversationDoc.exists) {
+        throw new HttpsError("not-found", "Conversation not found.");
+      }
+      const conversation = conversationDoc.data() as ReadState<admin.firestore.Timestamp>;
+      if (!conversation.participants?.includes(userId)) {
+        throw new HttpsError("permission-denied", "You're not part of this conversation.");
+      }
 
-    // OPTIMIZATION 1: Use Sets
-    const existingMatchIds = new Set(existingMatches.map((match: any) => match.userId));
-    const blockedUsersSet = new Set(blockedUsers);
+      const cursorUpdate = planMarkRead(conversation, userId);
+      if (cursorUpdate) {
+        transaction.update(conversationRef, cursorUpdate);
+      }
+      return !!cursorUpdate;
+    });
 
-    // OPTIMIZATION 2: Pre-fetch preferences
-    const userGenderPreference = userProfile.matchWith || "everyone";
-    const userLocationPreference = userProfile.matchLocation || "worldwide";
-    const userLocation = userProfile.location || "";
-    const userGender = userProfile.gender || "";
+    return {success: true, updated};
+  } catch (error: any) {
+    functions.logger.error(`Error marking ${conversationId} as read:`, error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to mark conversation as read: ${error.message || error}`
+    );
+  }
+});
 
-    // Update showUsers collection for each favorite show - still necessary
-    const batch = db.batch();
-    for (const showId of currentUserFavoriteShowIds) {
-      const showUserRef = db.collection("showUsers").doc(showId);
-      batch.set(showUserRef, {
-        showId: showId,
-        users: admin.firestore.FieldValue.arrayUnion(currentUserId),
-      }, {merge: true});
+/**
+ * Firestore trigger that pushes newly appended chat messages to the other participant.
+ * Messages are appended to a batch with arrayUnion, so anything past the previous
+ * length is new. Deleted batches (archiving) are ignored.
+ */
+export const notifyNewMessages = onDocumentWritten(
+  "conversations/{conversationId}/messageBatches/{batchId}",
+  async (event) => {
+    const conversationId = event.params.conversationId;
+    const before: Message[] = event.data?.before.data()?.messages || [];
+    const after: Message[] | undefined = event.data?.after.data()?.messages;
+    if (!after || after.length <= before.length) {
+      return;
     }
-    await batch.commit();
 
-    // OPTIMIZATION 3 & 4: Find and filter potential matches
-    const potentialUserMap = new Map<string, number>();
+    try {
+      const conversationDoc = await admin.firestore().collection("conversations").doc(conversationId).get();
+      const participants: string[] = conversationDoc.data()?.participants || [];
+
+      // Group by sender in case both sides wrote in the same update
+      const textsBySender = new Map<string, {name: string, texts: string[]}>();
+      for (const message of after.slice(before.length)) {
+        const entry = textsBySender.get(message.senderId) || {name: message.senderName, texts: []};
+        entry.texts.push(getMessagePreview(message));
+        textsBySender.set(message.senderId, entry);
+      }
 
-    for (const showId of currentUserFavoriteShowIds) {
-      const showUserDoc = await db.collection("showUsers").doc(showId).get();
-      if (showUserDoc.exists) {
-        const showData = showUserDoc.data();
-        const userIds: string[] = showData?.users || [];
-        for (const userId of userIds) {
-          if (userId === currentUserId || existingMatchIds.has(userId) || blockedUsersSet.has(userId)) {
-            continue;
-          }
-          potentialUserMap.set(userId, (potentialUserMap.get(userId) || 0) + 1);
+      for (const [senderId, {name, texts}] of textsBySender) {
+        const recipientIds = participants.filter((id) => id !== senderId);
+        await Promise.all(recipientIds.map((recipientId) =>
+          sendMessageNotification(recipientId, conversationId, senderId, name || "New message", texts)
+        ));
+        if (PHOTO_UNLOCK_RULES.unlockOnMessageExchange) {
+          await Promise.all(recipientIds.map((recipientId) =>
+            updatePhotoUnlock(senderId, recipientId, {sentMessage: true})
+          ));
         }
       }
+    } catch (error) {
+      functions.logger.error(`Error notifying about new messages in ${conversationId}:`, error);
     }
+  }
+);
 
-    const potentialUserIds = Array.from(potentialUserMap.keys())
-      .filter((userId) => (potentialUserMap.get(userId) || 0) >= MATCH_THRESHOLD);
+/**
+ * Scheduled function that checks Expo push receipts for tickets stored in `pushTickets`.
+ * Tokens of devices that are no longer registered are removed, and delivery
+ * stats are added up per day and notification type in `pushStats`.
+ */
+export const checkPushReceipts = onSchedule("every 30 minutes", async (event) => {
+  try {
+    const db = admin.firestore();
+    const now = Date.now();
+    const pageSize = 1000;
+    const maxPages = 5; // Anything left over is picked up by the next run
+    let lastTicketDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let checkedCount = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+      let query = db.collection("pushTickets")
+        .where("createdAt", "<=", admin.firestore.Timestamp.fromMillis(now - RECEIPT_DELAY_MS))
+        .orderBy("createdAt")
+        .limit(pageSize);
+      if (lastTicketDoc) {
+        query = query.startAfter(lastTicketDoc);
+      }
+      const ticketsSnapshot = await query.get();
+      if (ticketsSnapshot.empty) {
+        break;
+      }
 
-    // Calculate cooldown time before potential early return
-    const now = new Date();
-    const newSearchCount = (userData?.matchSearchCount || 0) + 1;
-
-    // Calculate cooldown time based on search count
-    let cooldownMinutes;
-    const COOLDOWN_MINUTES = {
-      FIRST: 1, // 1 minute
-      SECOND: 2, // 2 minutes
-      THIRD: 5, // 5 minutes
-    };
+      const tickets: StoredPushTicket[] = ticketsSnapshot.docs.map((ticketDoc) => ({
+        ticketId: ticketDoc.id,
+        token: ticketDoc.data().token,
+        type: ticketDoc.data().type || "unknown",
+        createdAtMs: ticketDoc.data().createdAt.toMillis(),
+      }));
+      const {statsByType, invalidTokens, resolvedTicketIds} = await checkReceipts(tickets, expo, now);
 
-    if (newSearchCount % 3 === 1) {
-      cooldownMinutes = COOLDOWN_MINUTES.FIRST;
-    } else if (newSearchCount % 3 === 2) {
-      cooldownMinutes = COOLDOWN_MINUTES.SECOND;
-    } else {
-      cooldownMinutes = COOLDOWN_MINUTES.THIRD;
-    }
+      for (const token of invalidTokens) {
+        await handleInvalidToken(token);
+      }
 
-    const cooldownEnd = new Date(now.getTime() + cooldownMinutes * 60 * 1000);
+      // Add this page's outcomes to today's totals
+      const statsUpdate: Record<string, unknown> = {};
+      Object.entries(statsByType).forEach(([type, stats]) => {
+        statsUpdate[type] = {
+          delivered: FieldValue.increment(stats.delivered),
+          failed: FieldValue.increment(stats.failed),
+          errors: Object.fromEntries(
+            Object.entries(stats.errors).map(([code, count]) => [code, FieldValue.increment(count)])
+          ),
+        };
+      });
+      if (Object.keys(statsUpdate).length > 0) {
+        const day = new Date(now).toISOString().slice(0, 10);
+        await db.collection("pushStats").doc(day).set(statsUpdate, {merge: true});
+      }
 
-    // Update user's search count and cooldown time
-    await userRef.update({
-      matchSearchCount: newSearchCount,
-      lastMatchSearch: now,
-      cooldownEndTime: cooldownEnd,
-    });
+      await commitInBatches(resolvedTicketIds.map((ticketId) =>
+        (batch: admin.firestore.WriteBatch) => batch.delete(db.collection("pushTickets").doc(ticketId))
+      ));
 
-    if (potentialUserIds.length === 0) {
-      // Even with no matches, we still return the cooldown information
-      const responseObject = {
-        success: true,
-        newMatches: [],
-        matchCount: 0,
-        cooldownEnd: cooldownEnd.toISOString(), // Always include cooldown
-        message: "No new matches found"
-      };
-      
-      return responseObject;
+      checkedCount += tickets.length;
+      lastTicketDoc = ticketsSnapshot.docs[ticketsSnapshot.docs.length - 1];
     }
 
-    // OPTIMIZATION 5 & 6: Batch get profiles and prepare match data
-    const batchSize = 10;
-    const newMatchesData: MatchData[] = []; // This will be the final list sent back
-    const batchWriteUpdates = new Map<string,
-    { matchData: MatchData, otherUserMatchData: MatchData }>(); // Store updates for batch write
+    functions.logger.info(`Checked receipts for ${checkedCount} push tickets`);
+  } catch (error) {
+    functions.logger.error("Error checking push receipts:", error);
+  }
+});
 
-    for (let i = 0; i < potentialUserIds.length; i += batchSize) {
-      const batchIds = potentialUserIds.slice(i, i + batchSize);
-      const userRefs = batchIds.map((id) => db.collection("users").doc(id));
-      const userDocs = await db.getAll(...userRefs);
+/**
+ * Scheduled function that sends the pushes held back during users' quiet
+ * hours, once those hours are over.
+ */
+export const releaseDeferredPushes = onSchedule("every 15 minutes", async (event) => {
+  try {
+    const db = admin.firestore();
+    const dueSnapshot = await db.collection("deferredPushes")
+      .where("sendAfter", "<=", admin.firestore.Timestamp.now())
+      .limit(500) // Anything left over is picked up by the next run
+      .get();
 
-      for (const userDoc of userDocs) {
-        if (!userDoc.exists) continue;
-
-        const matchedUserId = userDoc.id;
-        const matchUserData = userDoc.data();
-        const matchUserProfile = matchUserData?.profile || {};
-
-        // Skip if profile is incomplete
-        if (!matchUserProfile.displayName || !matchUserProfile.gender) continue;
-
-        // Check if potential match has blocked current user
-        const matchUserBlockedList = matchUserProfile.blockedUsers || [];
-        if (matchUserBlockedList.includes(currentUserId)) continue;
-
-        // Check mutual match criteria
-        const preferredGender = matchUserProfile.matchWith || "everyone";
-        const matchUserGender = matchUserProfile.gender;
-        const locationPreference = matchUserProfile.matchLocation || "worldwide";
-        const matchUserLocation = matchUserProfile.location || "";
-
-        // Check mutual preference matches
-        const genderMatch = (userGenderPreference === "everyone" || userGenderPreference === matchUserGender) &&
-                          (preferredGender === "everyone" || preferredGender === userGender);
-
-        const locationMatch = (userLocationPreference !== "local" || userLocation === matchUserLocation) &&
-                            (locationPreference !== "local" || matchUserLocation === userLocation);
-
-        if (!genderMatch || !locationMatch) continue;
-
-        // Get common show count (needed for match level)
-        const commonShowCount = potentialUserMap.get(matchedUserId) || 0;
-        const matchLevel: MatchLevel = commonShowCount >= SUPER_MATCH_THRESHOLD ? "superMatch" : "match";
-
-        // Get matched user's favorite shows (needed for profile screen)
-        const matchUserFavoriteShowIds = matchUserProfile.favoriteShows || [];
-
-        // Create match object for current user (WITHOUT commonShowIds)
-        const matchDataForCurrentUser: MatchData = {
-          userId: matchedUserId,
-          displayName: matchUserProfile.displayName,
-          profilePic: matchUserProfile.profilePic || "",
-          matchLevel: matchLevel,
-          favoriteShowIds: matchUserFavoriteShowIds, // Store matched user's favorites
-          matchTimestamp: admin.firestore.Timestamp.now(),
-          age: matchUserProfile.age || "",
-          gender: matchUserProfile.gender || "",
-          location: matchUserProfile.location || "",
-          chattingWith: false,
-        };
+    for (const deferredDoc of dueSnapshot.docs) {
+      // Take the pushes off the doc first, so a push deferred meanwhile isn't lost
+      const pushes = await db.runTransaction(async (transaction) => {
+        const latestDoc = await transaction.get(deferredDoc.ref);
+        transaction.delete(deferredDoc.ref);
+        return (latestDoc.data()?.pushes || []) as PushContent[];
+      });
+      await sendDeferredPushes(deferredDoc.id, pushes);
+    }
 
-        // Create match object for the matched user (WITHOUT commonShowIds)
-        const matchDataForMatchedUser: MatchData = {
-          userId: currentUserId,
-          displayName: userProfile.displayName,
-          profilePic: userProfile.profilePic || "",
-          matchLevel: matchLevel,
-          favoriteShowIds: currentUserFavoriteShowIds, // Store current user's favorites
-          matchTimestamp: admin.firestore.Timestamp.now(),
-          age: userProfile.age || "",
-          gender: userProfile.gender || "",
-          location: userProfile.location || "",
-          chattingWith: false,
-        };
+    functions.logger.info(`Released deferred pushes for ${dueSnapshot.size} users`);
+  } catch (error) {
+    functions.logger.error("Error releasing deferred pushes:", error);
+  }
+});
 
-        // Add to list to be returned to client
-        newMatchesData.push(matchDataForCurrentUser);
+/**
+ * Scheduled function that sends one summary push for the messages held back
+ * by the message push throttle, once each conversation's window has closed.
+ */
+export const sendMessagePushSummaries = onSchedule("every 1 minutes", async (event) => {
+  try {
+    const db = admin.firestore();
+    const dueSnapshot = await db.collection("messagePushes")
+      .where("summaryDueAt", "<=", admin.firestore.Timestamp.now())
+      .limit(500) // Anything left over is picked up by the next run
+      .get();
+    let sentCount = 0;
+
+    for (const pushStateDoc of dueSnapshot.docs) {
+      // Take the held messages off the doc and start a new window, so messages
+      // arriving meanwhile go into the next summary instead of being lost
+      const pending = await db.runTransaction(async (transaction) => {
+        const latestDoc = await transaction.get(pushStateDoc.ref);
+        const data = latestDoc.data();
+        if (!data?.summaryDueAt || !data.pendingCount) {
+          return null;
+        }
+        transaction.set(pushStateDoc.ref, {lastSentAt: admin.firestore.Timestamp.now()});
+        return {
+          recipientId: data.recipientId,
+          conversationId: data.conversationId,
+          senderId: data.senderId,
+          senderName: data.senderName,
+          count: data.pendingCount,
+          lastText: data.pendingText || "",
+        } as PendingMessagePush;
+      });
+      if (!pending) continue;
 
-        // Prepare for batch write
-        batchWriteUpdates.set(matchedUserId, {
-          matchData: matchDataForCurrentUser,
-          otherUserMatchData: matchDataForMatchedUser,
-        });
-      }
+      await sendMessagePushSummary(pending);
+      sentCount++;
     }
 
-    // OPTIMIZATION 7: Batch write matches (using the modified MatchData)
-    if (batchWriteUpdates.size > 0) {
-      const writeBatch = db.batch();
-      for (const [matchedUserId, profiles] of batchWriteUpdates.entries()) {
-        // Add match to current user
-        writeBatch.update(userRef, {
-          matches: admin.firestore.FieldValue.arrayUnion(profiles.matchData),
-        });
-        // Add match to matched user
-        const matchedUserRef = db.collection("users").doc(matchedUserId);
-        writeBatch.update(matchedUserRef, {
-          matches: admin.firestore.FieldValue.arrayUnion(profiles.otherUserMatchData),
-        });
+    functions.logger.info(`Sent message summary pushes for ${sentCount} conversations`);
+  } catch (error) {
+    functions.logger.error("Error sending message summary pushes:", error);
+  }
+});
+
+/**
+ * Scheduled function that expires matches nobody opened a conversation with.
+ * Both sides get a warning a day before the match expires. Expired pairs are
+ * recorded in `matchExpirations` so they can match again after a cooldown.
+ * Only unopened entries carry `expiresAt`, so opened matches are never read.
+ */
+export const expireStaleMatches = onSchedule("every 6 hours", async (event) => {
+  try {
+    const db = admin.firestore();
+    const now = new Date();
+    const pageSize = 200;
+    // Matches expiring later than this are still active, so only sooner ones need looking at
+    const warnCutoff = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    let lastMatchDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let warnedCount = 0;
+    let expiredCount = 0;
+    // Each pair is handled once per run, from whichever side's doc comes up
+    // first, so a pair missing one of its docs still expires
+    const handledPairIds = new Set<string>();
+
+    // Page through unopened matches about to expire across all users
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collectionGroup("matches")
+        .where("expiresAt", "<=", admin.firestore.Timestamp.fromDate(warnCutoff))
+        .orderBy("expiresAt")
+        .limit(pageSize);
+      if (lastMatchDoc) {
+        query = query.startAfter(lastMatchDoc);
+      }
+      const matchesSnapshot = await query.get();
+      if (matchesSnapshot.empty) {
+        break;
       }
-      await writeBatch.commit();
-    }
 
-    // Process new matches and send notifications if any were found
-    if (newMatchesData.length > 0) {
-      try {
-        // Process new matches and send notifications
-        await processNewMatchesAndNotify(
-          currentUserId,
-          userProfile.displayName || "A user",
-          newMatchesData
-        );
-        functions.logger.info(`Processed notifications for ${newMatchesData.length} new matches`);
-      } catch (notifyError) {
-        // Log error but don't fail the entire function
-        functions.logger.error("Error processing match notifications:", notifyError);
+      for (const matchDoc of matchesSnapshot.docs) {
+        const userId = matchDoc.ref.parent.parent?.id;
+        const match = matchDoc.data() as MatchData;
+        if (!userId || match.chattingWith) continue;
+        const pairId = getPairId(userId, match.userId);
+        if (handledPairIds.has(pairId)) continue;
+        handledPairIds.add(pairId);
+
+        const stage = getMatchExpiryStage(match.matchTimestamp.toDate(), now, MATCH_EXPIRY_DAYS);
+        if (stage === "warn") {
+          if (await warnAboutExpiringMatch(userId, match)) {
+            warnedCount++;
+          }
+        } else if (stage === "expire") {
+          if (await expireMatch(userId, match.userId, now)) {
+            expiredCount++;
+          }
+        }
       }
+
+      lastMatchDoc = matchesSnapshot.docs[matchesSnapshot.docs.length - 1];
     }
 
-    // IMPORTANT: Always include cooldownEnd in the response object
-    // This ensures the client gets the cooldown info regardless of match count
-    const responseObject = {
-      success: true,
-      newMatches: newMatchesData,
-      matchCount: newMatchesData.length,
-      cooldownEnd: cooldownEnd.toISOString(), // Always return cooldown time
-      message: newMatchesData.length > 0 ? `Found ${newMatchesData.length} new matches!` : "No new matches found"
-    };
-    
-    return responseObject;
-  } catch (error: any) {
-    functions.logger.error("Error in searchUserMatches:", error);
-    throw new HttpsError(
-      "internal",
-      `Failed to search for matches: ${error.message || error}`
-    );
+    functions.logger.info(`Match expiry complete: warned ${warnedCount} pairs, expired ${expiredCount} pairs`);
+  } catch (error) {
+    functions.logger.error("Error expiring stale matches:", error);
+  }
+});
+
+/**
+ * Works out the `expiresAt` stored on a match entry nobody has opened yet
+ * @param {admin.firestore.Timestamp} matchTimestamp When the match was created
+ * @return {admin.firestore.Timestamp} The expiry time
+ */
+function getStoredExpiresAt(matchTimestamp: admin.firestore.Timestamp): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromDate(getMatchExpiresAt(matchTimestamp.toDate(), MATCH_EXPIRY_DAYS));
+}
+
+/**
+ * Notifies both sides of a match that it expires in a day, once per pair
+ * @param {string} userId The user whose match doc is being processed
+ * @param {MatchData} match The match doc in that user's matches subcollection
+ * @return {Promise<boolean>} True if a warning was sent
+ */
+async function warnAboutExpiringMatch(userId: string, match: MatchData): Promise<boolean> {
+  const db = admin.firestore();
+  const pairId = getPairId(userId, match.userId);
+  const expirationRef = db.collection("matchExpirations").doc(pairId);
+
+  // Only warn once per match, even though the job runs several times a day
+  const alreadyWarned = await db.runTransaction(async (transaction) => {
+    const expirationDoc = await transaction.get(expirationRef);
+    const warnedAt: admin.firestore.Timestamp | undefined = expirationDoc.data()?.warnedAt;
+    if (warnedAt && warnedAt.toMillis() >= match.matchTimestamp.toMillis()) {
+      return true;
+    }
+    transaction.set(expirationRef, {
+      users: [userId, match.userId],
+      warnedAt: FieldValue.serverTimestamp(),
+    }, {merge: true});
+    return false;
+  });
+
+  if (alreadyWarned) {
+    return false;
+  }
+
+  const userDoc = await db.collection("users").doc(userId).get();
+  const userName: string | undefined = userDoc.data()?.profile?.displayName;
+
+  await Promise.all([
+    sendMatchExpiryNotification(userId, match.userId, match.displayName),
+    sendMatchExpiryNotification(match.userId, userId, userName || "your match"),
+  ]);
+  return true;
+}
+
+/**
+ * Removes an unopened match from both users' matches in one transaction,
+ * deleting whichever of the two docs exist
+ * @param {string} userId One side of the match
+ * @param {string} matchedUserId The other side of the match
+ * @param {Date} now The current time
+ * @return {Promise<boolean>} True if the match was expired
+ */
+async function expireMatch(userId: string, matchedUserId: string, now: Date): Promise<boolean> {
+  const db = admin.firestore();
+  const matchRef = getMatchesRef(userId).doc(matchedUserId);
+  const reverseMatchRef = getMatchesRef(matchedUserId).doc(userId);
+  const expirationRef = db.collection("matchExpirations").doc(getPairId(userId, matchedUserId));
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const [matchDoc, reverseMatchDoc] = await transaction.getAll(matchRef, reverseMatchRef);
+
+      // Re-check inside the transaction in case a conversation was just opened
+      if (matchDoc.data()?.chattingWith || reverseMatchDoc.data()?.chattingWith) {
+        return false;
+      }
+      if (!matchDoc.exists && !reverseMatchDoc.exists) {
+        return false;
+      }
+
+      // Either side may be missing for pairs that were half deleted
+      if (matchDoc.exists) {
+        transaction.delete(matchRef);
+      }
+      if (reverseMatchDoc.exists) {
+        transaction.delete(reverseMatchRef);
+      }
+
+      transaction.set(expirationRef, {
+        users: [userId, matchedUserId],
+        expiredAt: admin.firestore.Timestamp.fromDate(now),
+        eligibleAgainAt: admin.firestore.Timestamp.fromDate(
+          new Date(now.getTime() + REMATCH_COOLDOWN_DAYS * 24 * 60 * 60 * 1000)
+        ),
+      }, {merge: true});
+      return true;
+    });
+  } catch (error) {
+    functions.logger.error(`Error expiring match between ${userId} and ${matchedUserId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Converts the photo unlock fields of a stored match entry to plain milliseconds
+ * @param {MatchData} entry The stored match entry
+ * @return {PhotoUnlockFields<number>} The unlock state
+ */
+function getPhotoUnlockState(entry: MatchData): PhotoUnlockFields<number> {
+  return {
+    photoUnlocked: entry.photoUnlocked,
+    photoUnlockAt: entry.photoUnlockAt?.toMillis(),
+    sentMessage: entry.sentMessage,
+    revealRequested: entry.revealRequested,
+  };
+}
+
+/**
+ * Records a step towards unlocking a pair's photos and unlocks them on both
+ * sides once a rule is met
+ * @param {string} userId The user who took the step, or either side when only checking
+ * @param {string} otherUserId The other side of the match
+ * @param {Pick<PhotoUnlockFields, "sentMessage" | "revealRequested">} progress What the user just did
+ * @return {Promise<PhotoUnlockReason | null>} Why the photos unlocked, or null if they stay locked
+ */
+async function updatePhotoUnlock(
+  userId: string,
+  otherUserId: string,
+  progress: Pick<PhotoUnlockFields, "sentMessage" | "revealRequested"> = {}
+): Promise<PhotoUnlockReason | null> {
+  const db = admin.firestore();
+  const entryRef = getMatchesRef(userId).doc(otherUserId);
+  const otherEntryRef = getMatchesRef(otherUserId).doc(userId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const [entryDoc, otherEntryDoc] = await transaction.getAll(entryRef, otherEntryRef);
+      if (!entryDoc.exists || !otherEntryDoc.exists) return null;
+      const entry = entryDoc.data() as MatchData;
+      const otherEntry = otherEntryDoc.data() as MatchData;
+
+      const reason = getPhotoUnlockReason(
+        {...getPhotoUnlockState(entry), ...progress},
+        getPhotoUnlockState(otherEntry),
+        Date.now(),
+        PHOTO_UNLOCK_RULES
+      );
+
+      if (!reason) {
+        // Nothing to record once the photos are unlocked or the step was already taken
+        if (entry.photoUnlocked !== false) return null;
+        if (progress.sentMessage && !entry.sentMessage) {
+          transaction.update(entryRef, {sentMessage: true});
+        }
+        if (progress.revealRequested && !entry.revealRequested) {
+          transaction.update(entryRef, {revealRequested: true});
+          transaction.update(otherEntryRef, {otherRequestedReveal: true});
+        }
+        return null;
+      }
+
+      // The entries and the conversation only hold blurred photos while
+      // locked, so the real ones come from the private photo docs
+      const conversationRef = db.collection("conversations").doc(getConversationId(userId, otherUserId));
+      const [userDoc, otherUserDoc, privatePhotoDoc, otherPrivatePhotoDoc, conversationDoc] = await transaction.getAll(
+        db.collection("users").doc(userId),
+        db.collection("users").doc(otherUserId),
+        getPrivatePhotoRef(userId),
+        getPrivatePhotoRef(otherUserId),
+        conversationRef
+      );
+      const photos = getRealPhotos(privatePhotoDoc, userDoc);
+      const otherPhotos = getRealPhotos(otherPrivatePhotoDoc, otherUserDoc);
+      transaction.update(entryRef, {
+        ...progress,
+        ...otherPhotos,
+        photoUnlocked: true,
+        photoUnlockAt: FieldValue.delete(),
+      });
+      transaction.update(otherEntryRef, {
+        ...photos,
+        photoUnlocked: true,
+        photoUnlockAt: FieldValue.delete(),
+      });
+      if (conversationDoc.exists) {
+        transaction.update(conversationRef, {
+          [`participantPhotos.${userId}`]: photos.profilePic,
+          [`participantPhotos.${otherUserId}`]: otherPhotos.profilePic,
+        });
+      }
+      return reason;
+    });
+  } catch (error) {
+    functions.logger.error(`Error updating photo unlock between ${userId} and ${otherUserId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Scheduled function that unlocks the photos of matches that have been
+ * locked for long enough. Unlocking removes `photoUnlockAt`, so only pending
+ * entries are ever queried.
+ */
+export const unlockMatchPhotos = onSchedule("every 60 minutes", async (event) => {
+  if (PHOTO_UNLOCK_RULES.unlockAfterHours <= 0) {
+    return;
+  }
+
+  try {
+    const db = admin.firestore();
+    const now = admin.firestore.Timestamp.now();
+    const pageSize = 200;
+    const handledPairIds = new Set<string>();
+    let lastEntryDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let unlockedCount = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collectionGroup("matches")
+        .where("photoUnlockAt", "<=", now)
+        .orderBy("photoUnlockAt")
+        .limit(pageSize);
+      if (lastEntryDoc) {
+        query = query.startAfter(lastEntryDoc);
+      }
+      const entriesSnapshot = await query.get();
+      if (entriesSnapshot.empty) {
+        break;
+      }
+
+      for (const entryDoc of entriesSnapshot.docs) {
+        const userId = entryDoc.ref.parent.parent?.id;
+        const otherUserId = entryDoc.id;
+        // Both sides of a pair are due at the same time, so handle each pair once
+        if (!userId || handledPairIds.has(getPairId(userId, otherUserId))) continue;
+        handledPairIds.add(getPairId(userId, otherUserId));
+
+        if (await updatePhotoUnlock(userId, otherUserId)) {
+          unlockedCount++;
+        }
+      }
+
+      lastEntryDoc = entriesSnapshot.docs[entriesSnapshot.docs.length - 1];
+    }
+
+    functions.logger.info(`Photo unlock complete: unlocked ${unlockedCount} pairs`);
+  } catch (error) {
+    functions.logger.error("Error unlocking match photos:", error);
+  }
+});
+
+/**
+ * Commits a list of writes in batches that stay under Firestore's 500 writes per batch
+ * @param {Array<function(admin.firestore.WriteBatch): void>} writes Callbacks that each add one write
+ * @return {Promise<void>}
+ */
+async function commitInBatches(
+  writes: ((batch: admin.firestore.WriteBatch) => void)[]
+): Promise<void> {
+  const db = admin.firestore();
+  const maxWritesPerBatch = 450;
+  for (let i = 0; i < writes.length; i += maxWritesPerBatch) {
+    const batch = db.batch();
+    writes.slice(i, i + maxWritesPerBatch).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Firestore trigger that copies profile edits onto the denormalized snapshots
+ * other users hold: their match docs for this user and the names on shared
+ * conversations. A change of favorites also refreshes the shared favorites on
+ * both sides of every pair. Photos are copied by `syncProfilePhoto` instead.
+ * Writes absolute values, so re-runs are harmless.
+ */
+export const syncProfileSnapshots = onDocumentUpdated("users/{userId}", async (event) => {
+  const userId = event.params.userId;
+  const changes = getChangedSnapshotFields(
+    event.data?.before.data()?.profile,
+    event.data?.after.data()?.profile
+  );
+  // The profile only holds the blurred photo, which syncProfilePhoto writes
+  // along with the snapshots
+  if (changes) {
+    delete changes.profilePic;
+  }
+  if (!changes || Object.keys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    const db = admin.firestore();
+    const writes: ((batch: admin.firestore.WriteBatch) => void)[] = [];
+
+    // The user's own match and suggestion docs only need the other side's
+    // favorites, and only when the shared favorites have to be recomputed
+    const newFavoriteShowIds = changes.favoriteShowIds;
+    const ownFields = newFavoriteShowIds ? ["favoriteShowIds"] : [];
+    const matchesSnapshot = await getMatchesRef(userId).select(...ownFields).get();
+    const candidatesSnapshot = await getCandidatesRef(userId).select(...ownFields).get();
+    const pairs = [
+      ...matchesSnapshot.docs.map((ownDoc) => ({ownDoc, counterpartRef: getMatchesRef(ownDoc.id).doc(userId)})),
+      ...candidatesSnapshot.docs.map((ownDoc) => ({ownDoc, counterpartRef: getCandidatesRef(ownDoc.id).doc(userId)})),
+    ];
+
+    let showGenres: Record<string, number[]> = {};
+    if (newFavoriteShowIds) {
+      const showIds = new Set(newFavoriteShowIds);
+      pairs.forEach(({ownDoc}) => (ownDoc.get("favoriteShowIds") || []).forEach((id: string) => showIds.add(id)));
+      showGenres = Object.fromEntries(await getCachedShowGenres(Array.from(showIds)));
+    }
+
+    // Counterpart docs, skipping any the other side has already removed
+    for (let i = 0; i < pairs.length; i += 100) {
+      const chunk = pairs.slice(i, i + 100);
+      const counterpartDocs = await db.getAll(...chunk.map(({counterpartRef}) => counterpartRef));
+      counterpartDocs.forEach((counterpartDoc, index) => {
+        if (!counterpartDoc.exists) return;
+        if (!newFavoriteShowIds) {
+          writes.push((batch) => batch.update(counterpartDoc.ref, changes));
+          return;
+        }
+
+        // Both sides list what the pair shares in their own favorites order
+        const {ownDoc} = chunk[index];
+        const otherFavoriteShowIds: string[] = ownDoc.get("favoriteShowIds") || [];
+        writes.push((batch) => batch.update(
+          ownDoc.ref,
+          {...getSharedFavorites(newFavoriteShowIds, otherFavoriteShowIds, showGenres)}
+        ));
+        writes.push((batch) => batch.update(
+          counterpartDoc.ref,
+          {...changes, ...getSharedFavorites(otherFavoriteShowIds, newFavoriteShowIds, showGenres)}
+        ));
+      });
+    }
+
+    // Conversation headers carry the name as well
+    if (changes.displayName !== undefined) {
+      const conversationChanges = {[`participantNames.${userId}`]: changes.displayName};
+      const conversationsSnapshot = await db.collection("conversations")
+        .where("participants", "array-contains", userId)
+        .get();
+      conversationsSnapshot.docs.forEach((conversationDoc) => {
+        writes.push((batch) => batch.update(conversationDoc.ref, conversationChanges));
+      });
+    }
+
+    await commitInBatches(writes);
+    functions.logger.info(
+      `Refreshed ${Object.keys(changes).join(", ")} for ${userId} across ${writes.length} docs`
+    );
+  } catch (error) {
+    functions.logger.error(`Error refreshing profile snapshots for ${userId}:`, error);
+    throw error;
+  }
+});
+
+/**
+ * Copies a user's real photos to everywhere other users see them. The
+ * profile, suggestions and locked match entries get blurred copies; unlocked
+ * match entries and the conversations of unlocked pairs get the real photos.
+ * Blurred copies of photos that haven't changed are reused.
+ * @param {string} userId The user whose photos changed
+ * @param {ProfilePhotos} photos The real photos
+ * @param {ProfilePhotos | null} previous The real photos the profile's blurred copies were made from, if known
+ * @return {Promise<number>} The number of docs written
+ */
+async function publishProfilePhotos(
+  userId: string,
+  photos: ProfilePhotos,
+  previous: ProfilePhotos | null
+): Promise<number> {
+  const db = admin.firestore();
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  const userRef = db.collection("users").doc(userId);
+  const profile = (await userRef.get()).data()?.profile || {};
+
+  // The profile's copies line up with the photos they were made from
+  const blurredCopies = new Map<string, string>();
+  if (previous) {
+    const publicPics: unknown[] = Array.isArray(profile.additionalPics) ? profile.additionalPics : [];
+    [[previous.profilePic, profile.profilePic] as const, ...previous.additionalPics.map((url, i) => [url, publicPics[i]] as const)]
+      .forEach(([url, blurred]) => {
+        if (url && isBlurredPhotoUrl(blurred, cloudName)) blurredCopies.set(url, blurred);
+      });
+  }
+  const blur = async (url: string) => blurredCopies.get(url) ?? await createBlurredPhoto(url);
+  const blurred: ProfilePhotos = {
+    profilePic: photos.profilePic ? await blur(photos.profilePic) : "",
+    additionalPics: await Promise.all(photos.additionalPics.map(blur)),
+  };
+
+  const writes: ((batch: admin.firestore.WriteBatch) => void)[] = [
+    (batch) => batch.update(userRef, {
+      "profile.profilePic": blurred.profilePic,
+      "profile.additionalPics": blurred.additionalPics,
+    }),
+  ];
+
+  // Both sides of a pair unlock at once, so the user's own entries tell
+  // which pairs have unlocked. Suggestions are always locked
+  const matchesSnapshot = await getMatchesRef(userId).select("photoUnlocked").get();
+  const unlockedUserIds = new Set(matchesSnapshot.docs
+    .filter((matchDoc) => matchDoc.get("photoUnlocked") !== false)
+    .map((matchDoc) => matchDoc.id));
+  const candidatesSnapshot = await getCandidatesRef(userId).select().get();
+  const counterpartRefs = [
+    ...matchesSnapshot.docs.map((ownDoc) => getMatchesRef(ownDoc.id).doc(userId)),
+    ...candidatesSnapshot.docs.map((ownDoc) => getCandidatesRef(ownDoc.id).doc(userId)),
+  ];
+
+  // Counterpart docs, skipping any the other side has already removed
+  for (let i = 0; i < counterpartRefs.length; i += 100) {
+    const counterpartDocs = await db.getAll(...counterpartRefs.slice(i, i + 100));
+    counterpartDocs.forEach((counterpartDoc) => {
+      if (!counterpartDoc.exists) return;
+      const unlocked = counterpartDoc.ref.parent.id === "matches" && counterpartDoc.get("photoUnlocked") !== false;
+      writes.push((batch) => batch.update(counterpartDoc.ref, unlocked ?
+        {...photos} :
+        {profilePic: blurred.profilePic, additionalPics: FieldValue.delete()}
+      ));
+    });
+  }
+
+  const conversationsSnapshot = await db.collection("conversations")
+    .where("participants", "array-contains", userId)
+    .get();
+  conversationsSnapshot.docs.forEach((conversationDoc) => {
+    const participants: string[] = conversationDoc.data().participants || [];
+    const unlocked = participants.every((id) => id === userId || unlockedUserIds.has(id));
+    writes.push((batch) => batch.update(conversationDoc.ref, {
+      [`participantPhotos.${userId}`]: unlocked ? photos.profilePic : blurred.profilePic,
+    }));
+  });
+
+  await commitInBatches(writes);
+  return writes.length;
+}
+
+/**
+ * Firestore trigger that publishes a user's photos whenever the app changes
+ * their private photo doc. Photos that aren't the app's own Cloudinary
+ * uploads are left out. Writes absolute values, so re-runs are harmless.
+ */
+export const syncProfilePhoto = onDocumentWritten("users/{userId}/private/photo", async (event) => {
+  const userId = event.params.userId;
+  // The doc is only deleted along with the account, so there's nothing to copy
+  if (!event.data?.after.exists) {
+    return;
+  }
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  const previous = event.data.before.exists ? getProfilePhotos(event.data.before.data(), cloudName) : null;
+  const photos = getProfilePhotos(event.data.after.data(), cloudName);
+  if (previous && JSON.stringify(previous) === JSON.stringify(photos)) {
+    return;
+  }
+
+  try {
+    const writeCount = await publishProfilePhotos(userId, photos, previous);
+    functions.logger.info(`Refreshed the photos of ${userId} across ${writeCount} docs`);
+  } catch (error) {
+    functions.logger.error(`Error refreshing the photos of ${userId}:`, error);
+    throw error;
+  }
+});
+
+/**
+ * Lists the users a searcher can't be matched with again yet, because their
+ * match expired or one of them passed on the other
+ * @param {string} userId The searching user's ID
+ * @param {Date} now The current time
+ * @return {Promise<string[]>} The suppressed user IDs
+ */
+async function getSuppressedUserIds(userId: string, now: Date): Promise<string[]> {
+  const db = admin.firestore();
+  const [expirationsSnapshot, passesSnapshot] = await Promise.all([
+    db.collection("matchExpirations").where("users", "array-contains", userId).get(),
+    db.collection("matchPasses").where("users", "array-contains", userId).get(),
+  ]);
+
+  const suppressedUserIds: string[] = [];
+  [...expirationsSnapshot.docs, ...passesSnapshot.docs].forEach((doc) => {
+    const {users, eligibleAgainAt} = doc.data();
+    if (eligibleAgainAt && eligibleAgainAt.toMillis() > now.getTime()) {
+      suppressedUserIds.push(...(users as string[]).filter((id) => id !== userId));
+    }
+  });
+  return suppressedUserIds;
+}
+
+/**
+ * Internal helper to perform the actual deletion steps for a conversation.
+ * Assumes conversationRef is valid.
+ * @param {string} conversationId The ID of the conversation.
+ * @param {admin.firestore.DocumentReference} conversationRef Reference to the conversation document.
+ * @return {Promise<void>}
+ */
+async function performConversationDeletion(
+  conversationId: string,
+  conversationRef: admin.firestore.DocumentReference
+): Promise<void> {
+  // Delete messageBatches subcollection
+  const batchesRef = conversationRef.collection("messageBatches");
+  await deleteCollection(batchesRef); // Use helper function
+  functions.logger.info(`Deleted messageBatches subcollection for conversation ${conversationId}`);
+
+  // Delete typing indicators
+  await deleteCollection(conversationRef.collection("typing"));
+
+  // Delete Storage archives folder
+  const storageFolderPath = `archives/${conversationId}/`;
+  await deleteStorageFolder(storageFolderPath); // Use helper function
+  functions.logger.info(`Deleted Storage folder ${storageFolderPath}`);
+
+  // Delete the main conversation document
+  await conversationRef.delete();
+  functions.logger.info(`Deleted main conversation document ${conversationId}`);
+}
+
+/**
+ * Opens the conversation between the caller and one of their matches,
+ * creating it if needed. The ID is derived from the pair and the doc is
+ * created in a transaction, so both users opening the chat at once get the
+ * same conversation. The same transaction marks the match as opened on both
+ * sides (`chattingWith`) and clears `expiresAt`, so `expireStaleMatches` never
+ * removes a match that has a conversation.
+ */
+export const openConversation = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "openConversation");
+
+  const userId = request.auth.uid;
+  const otherUserId = request.data?.otherUserId;
+  if (typeof otherUserId !== "string" || !otherUserId || otherUserId.includes("/")) {
+    throw new HttpsError("invalid-argument", "A valid otherUserId is required.");
+  }
+  const conversationId = getConversationId(userId, otherUserId);
+
+  try {
+    const db = admin.firestore();
+    const conversationRef = db.collection("conversations").doc(conversationId);
+
+    const created = await db.runTransaction(async (transaction) => {
+      const matchRef = getMatchesRef(userId).doc(otherUserId);
+      const reverseMatchRef = getMatchesRef(otherUserId).doc(userId);
+      const [conversationDoc, matchDoc, reverseMatchDoc] = await transaction.getAll(
+        conversationRef,
+        matchRef,
+        reverseMatchRef
+      );
+
+      // Also repairs pairs whose conversation was opened without marking the match
+      const markOpened = () => {
+        [matchDoc, reverseMatchDoc].forEach((entryDoc) => {
+          if (entryDoc.exists && (!entryDoc.data()?.chattingWith || entryDoc.data()?.expiresAt)) {
+            transaction.update(entryDoc.ref, {chattingWith: true, expiresAt: FieldValue.delete()});
+          }
+        });
+      };
+
+      if (conversationDoc.exists) {
+        markOpened();
+        return false;
+      }
+
+      const [userDoc, otherUserDoc] = await Promise.all([
+        transaction.get(db.collection("users").doc(userId)),
+        transaction.get(db.collection("users").doc(otherUserId)),
+      ]);
+      if (!userDoc.exists || !otherUserDoc.exists) {
+        throw new HttpsError("not-found", "User profile not found.");
+      }
+      if (!matchDoc.exists) {
+        throw new HttpsError("failed-precondition", "You can only chat with your matches.");
+      }
+
+      // Each side's match entry holds the photo the other may see: blurred
+      // until the pair's photos unlock
+      const profile = userDoc.data()?.profile || {};
+      const otherProfile = otherUserDoc.data()?.profile || {};
+      transaction.set(conversationRef, buildConversation(
+        {userId, displayName: profile.displayName || "User", profilePic: reverseMatchDoc.data()?.profilePic || ""},
+        {userId: otherUserId, displayName: otherProfile.displayName || "User", profilePic: matchDoc.data()?.profilePic || ""},
+        admin.firestore.Timestamp.now()
+      ));
+      markOpened();
+      return true;
+    });
+
+    return {success: true, conversationId, created};
+  } catch (error: any) {
+    functions.logger.error(`Error opening conversation ${conversationId}:`, error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to open conversation: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * HTTPS Callable function to delete all data associated with a conversation.
+ * Called when a user unmatches or blocks another user.
+ */
+export const deleteConversationData = onCall(async (request) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "deleteConversationData");
+
+  const currentUserId = request.auth.uid;
+  const otherUserId = request.data.otherUserId;
+
+  if (!otherUserId || typeof otherUserId !== "string") {
+    throw new HttpsError(
+      "invalid-argument",
+      "The function requires an 'otherUserId' parameter (string)."
+    );
+  }
+
+  const db = admin.firestore();
+
+  try {
+    // 2. Find the pair's conversation, plus any duplicates created under
+    // random IDs before conversation IDs were derived from the pair
+    const conversationsRef = db.collection("conversations");
+    const pairConversationRef = conversationsRef.doc(getConversationId(currentUserId, otherUserId));
+    const [pairConversationDoc, querySnapshot] = await Promise.all([
+      pairConversationRef.get(),
+      conversationsRef.where("participants", "array-contains", currentUserId).get(),
+    ]);
+
+    const conversationRefs = new Map<string, admin.firestore.DocumentReference>();
+    if (pairConversationDoc.exists) {
+      conversationRefs.set(pairConversationRef.id, pairConversationRef);
+    }
+    querySnapshot.forEach((doc) => {
+      const participants = doc.data().participants;
+      if (participants && participants.includes(otherUserId)) {
+        conversationRefs.set(doc.id, doc.ref);
+      }
+    });
+
+    // 3. If conversations exist, proceed with deletion
+    if (conversationRefs.size > 0) {
+      const conversationIds = [...conversationRefs.keys()];
+      functions.logger.info(
+        `Found conversations ${conversationIds.join(", ")} between ${currentUserId} and ${otherUserId}.`
+      );
+      functions.logger.info("Preparing for deletion.");
+
+      // Call the dedicated deletion helper function
+      for (const [conversationId, conversationRef] of conversationRefs) {
+        await performConversationDeletion(conversationId, conversationRef);
+      }
+
+      return {
+        success: true,
+        message: `Successfully deleted conversation data for ${conversationIds.join(", ")}`,
+      };
+    } else {
+      functions.logger.info(
+        `No conversation found between ${currentUserId} and ${otherUserId}. ` +
+        "No data deleted."
+      );
+      // It's okay if no conversation exists, maybe they unmatched before chatting
+      return {
+        success: true,
+        message: "No active conversation found to delete.",
+      };
+    }
+  } catch (error: unknown) {
+    // Break the logger call to satisfy max-len
+    functions.logger.error(
+      `Error deleting conversation data between ${currentUserId} and ${otherUserId}:`,
+      error
+    );
+    // Check if error is an object with a message property before accessing it
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new HttpsError(
+      "internal",
+      `Failed to delete conversation data: ${errorMessage}`
+    );
+  }
+});
+
+/**
+ * Reads the TMDB API key from the environment
+ * The project-prefixed variable takes precedence over the regular one
+ * @return {string | undefined} The API key, if configured
+ */
+function getTMDBApiKey(): string | undefined {
+  return process.env["mio-deployment.TMDB_API_KEY"] || process.env.TMDB_API_KEY;
+}
+
+/**
+ * Fetches the genre IDs of a show from TMDB
+ * @param {string} showId The TMDB show ID
+ * @return {Promise<number[] | null>} The genre IDs, or null if they couldn't be fetched
+ */
+async function fetchShowGenreIds(showId: string): Promise<number[] | null> {
+  const apiKey = getTMDBApiKey();
+  if (!apiKey) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(buildTMDBUrl(validateTMDBRequest(`/tv/${showId}`, {}), apiKey));
+    if (!response.ok) {
+      functions.logger.warn(`Unable to fetch genres for show ${showId}: ${response.status}`);
+      return null;
+    }
+    const details = await response.json();
+    return (details.genres || []).map((genre: {id: number}) => genre.id);
+  } catch (error) {
+    functions.logger.warn(`Unable to fetch genres for show ${showId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reads the genre IDs cached on the `showUsers` docs of the given shows
+ * @param {string[]} showIds The show IDs to look up
+ * @return {Promise<Map<string, number[]>>} Genre IDs keyed by show ID
+ */
+async function getCachedShowGenres(showIds: string[]): Promise<Map<string, number[]>> {
+  const db = admin.firestore();
+  const showGenres = new Map<string, number[]>();
+  const batchSize = 100;
+
+  for (let i = 0; i < showIds.length; i += batchSize) {
+    const showRefs = showIds.slice(i, i + batchSize).map((id) => db.collection("showUsers").doc(id));
+    const showDocs = await db.getAll(...showRefs);
+    showDocs.forEach((showDoc) => {
+      const genreIds = showDoc.data()?.genreIds;
+      if (Array.isArray(genreIds)) {
+        showGenres.set(showDoc.id, genreIds);
+      }
+    });
+  }
+
+  return showGenres;
+}
+
+/**
+ * Converts a user's removal state to what the app receives
+ * @param {FavoritesQuota} quota The removal state
+ * @return {{removalCount: number, cooldownEndTime: string | null}} The state with an ISO timestamp
+ */
+function toFavoritesQuotaResponse(quota: FavoritesQuota): {removalCount: number; cooldownEndTime: string | null} {
+  return {
+    removalCount: quota.removalCount,
+    cooldownEndTime: quota.cooldownEndTime !== null ? new Date(quota.cooldownEndTime).toISOString() : null,
+  };
+}
+
+/**
+ * Adds or removes a favorite in a transaction, applying the favorites limits
+ * and keeping the show's `showUsers` doc in step
+ * @param {string} userId The user whose favorites change
+ * @param {string} showId The show to add or remove
+ * @param {"add" | "remove"} action What to do
+ * @return {Promise<FavoriteChange>} The outcome, with the favorites and removal state after it
+ */
+async function changeFavorite(userId: string, showId: string, action: "add" | "remove"): Promise<FavoriteChange> {
+  const db = admin.firestore();
+  const userRef = db.collection("users").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User profile not found.");
+    }
+
+    const favoriteShowIds: string[] = userDoc.data()?.profile?.favoriteShows || [];
+    const now = Date.now();
+    const quota = getFavoritesQuota(userDoc.data()?.favoritesQuota, now);
+    const change = action === "add" ?
+      addToFavorites(favoriteShowIds, quota, showId) :
+      removeFromFavorites(favoriteShowIds, quota, showId, now);
+    if (!change.allowed || change.favoriteShowIds === favoriteShowIds) {
+      return change;
+    }
+
+    transaction.update(userRef, {
+      "profile.favoriteShows": change.favoriteShowIds,
+      "favoritesQuota": change.quota,
+      // Removal state that older app versions kept on the profile
+      "profile.weeklyRemovals": FieldValue.delete(),
+      "profile.lastRemovalTime": FieldValue.delete(),
+      "profile.cooldownEndTime": FieldValue.delete(),
+    });
+    transaction.set(db.collection("showUsers").doc(showId), {
+      showId,
+      users: action === "add" ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId),
+    }, {merge: true});
+    return change;
+  });
+}
+
+/**
+ * Adds a show to the user's favorites, up to the favorites limit
+ */
+export const addFavorite = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "addFavorite");
+
+  const showId = request.data?.showId;
+  if (!isValidShowId(showId)) {
+    throw new HttpsError("invalid-argument", "A valid showId is required.");
+  }
+
+  try {
+    const change = await changeFavorite(request.auth.uid, showId, "add");
+    if (!change.allowed) {
+      throw new HttpsError("failed-precondition", change.reason || "Can't add this favorite.", {
+        favoriteShows: change.favoriteShowIds,
+        quota: toFavoritesQuotaResponse(change.quota),
+      });
+    }
+    return {
+      success: true,
+      favoriteShows: change.favoriteShowIds,
+      quota: toFavoritesQuotaResponse(change.quota),
+    };
+  } catch (error: any) {
+    functions.logger.error("Error in addFavorite:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to add favorite: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Removes a show from the user's favorites, unless removals are on cooldown
+ */
+export const removeFavorite = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "removeFavorite");
+
+  const showId = request.data?.showId;
+  if (!isValidShowId(showId)) {
+    throw new HttpsError("invalid-argument", "A valid showId is required.");
+  }
+
+  try {
+    const change = await changeFavorite(request.auth.uid, showId, "remove");
+    if (!change.allowed) {
+      throw new HttpsError("failed-precondition", change.reason || "Can't remove this favorite.", {
+        favoriteShows: change.favoriteShowIds,
+        quota: toFavoritesQuotaResponse(change.quota),
+      });
+    }
+    return {
+      success: true,
+      favoriteShows: change.favoriteShowIds,
+      quota: toFavoritesQuotaResponse(change.quota),
+    };
+  } catch (error: any) {
+    functions.logger.error("Error in removeFavorite:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to remove favorite: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Converts a quota status to what the app receives
+ * @param {SearchQuotaStatus} status Searches left and when the next one frees up
+ * @return {{remaining: number, nextAvailableAt: string | null}} The status with an ISO timestamp
+ */
+function toSearchQuotaResponse(status: SearchQuotaStatus): {remaining: number; nextAvailableAt: string | null} {
+  return {
+    remaining: status.remaining,
+    nextAvailableAt: status.nextAvailableAt !== null ? new Date(status.nextAvailableAt).toISOString() : null,
+  };
+}
+
+/**
+ * Returns how many match searches the user has left and, once they're used
+ * up, when the next one frees up. Favorites added since the last check are
+ * credited here, so the app sees bonus searches before searching.
+ */
+export const getSearchQuota = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "getSearchQuota");
+
+  const currentUserId = request.auth.uid;
+
+  try {
+    const db = admin.firestore();
+    const userDoc = await db.collection("users").doc(currentUserId).get();
+    const favoriteShowIds: string[] = userDoc.data()?.profile?.favoriteShows || [];
+    const quotaRef = db.collection("searchQuotas").doc(currentUserId);
+
+    const status = await db.runTransaction(async (transaction) => {
+      const quotaDoc = await transaction.get(quotaRef);
+      const state = refreshSearchQuota(
+        quotaDoc.data() as SearchQuotaState | undefined,
+        favoriteShowIds,
+        Date.now(),
+        SEARCH_QUOTA_RULES
+      );
+      transaction.set(quotaRef, state);
+      return getSearchQuotaStatus(state, SEARCH_QUOTA_RULES);
+    });
+
+    return {success: true, ...toSearchQuotaResponse(status)};
+  } catch (error: any) {
+    functions.logger.error("Error in getSearchQuota:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to get search quota: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Gives a user back a search that failed after it was paid for
+ * @param {string} userId The user who searched
+ * @param {SearchCharge} charge What the search was paid with
+ * @return {Promise<void>}
+ */
+async function refundSearchQuota(userId: string, charge: SearchCharge): Promise<void> {
+  const db = admin.firestore();
+  const quotaRef = db.collection("searchQuotas").doc(userId);
+  try {
+    await db.runTransaction(async (transaction) => {
+      const quotaDoc = await transaction.get(quotaRef);
+      if (!quotaDoc.exists) return;
+      transaction.set(quotaRef, refundSearch(quotaDoc.data() as SearchQuotaState, charge, SEARCH_QUOTA_RULES));
+    });
+  } catch (error) {
+    functions.logger.error(`Error refunding a search for ${userId}:`, error);
+  }
+}
+
+/**
+ * Cloud function to search for user matches
+ * This moves the matching algorithm to the server for better security and performance
+ */
+export const searchUserMatches = onCall(async (request) => {
+  // Verify authentication
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "searchUserMatches");
+
+  const currentUserId = request.auth.uid;
+  // Set once the search is paid for, so a search that fails afterwards is given back
+  let charge: SearchCharge | null = null;
+
+  try {
+    const db = admin.firestore();
+    const userRef = db.collection("users").doc(currentUserId);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists) {
+      throw new HttpsError(
+        "not-found",
+        "User profile not found."
+      );
+    }
+
+    const userData = userDoc.data();
+    const userProfile: MatchProfile | undefined = userData?.profile;
+    // Favorites are only changed through addFavorite and removeFavorite, so the profile is trusted
+    const currentUserFavoriteShowIds: string[] = userProfile?.favoriteShows || [];
+
+    const searchBlocker = getSearchBlocker(userProfile, currentUserFavoriteShowIds);
+    if (searchBlocker || !userProfile) {
+      throw new HttpsError("failed-precondition", searchBlocker || "User profile not found.");
+    }
+
+    // Use up a search before doing any work, so parallel calls can't both get through
+    const quotaRef = db.collection("searchQuotas").doc(currentUserId);
+    const quota = await db.runTransaction(async (transaction) => {
+      const quotaDoc = await transaction.get(quotaRef);
+      const quotaResult = takeSearch(
+        quotaDoc.data() as SearchQuotaState | undefined,
+        currentUserFavoriteShowIds,
+        Date.now(),
+        SEARCH_QUOTA_RULES
+      );
+      transaction.set(quotaRef, quotaResult.state);
+      return quotaResult;
+    });
+    if (!quota.allowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        "You've used all your searches for today. Add new favorites to earn bonus searches.",
+        toSearchQuotaResponse(quota.status)
+      );
+    }
+    charge = quota.charge;
+
+    // List the user on the showUsers doc of each favorite, in case older app versions missed one
+    const batch = db.batch();
+    for (const showId of currentUserFavoriteShowIds) {
+      const showUserRef = db.collection("showUsers").doc(showId);
+      batch.set(showUserRef, {
+        showId: showId,
+        users: admin.firestore.FieldValue.arrayUnion(currentUserId),
+      }, {merge: true});
+    }
+    await batch.commit();
+
+    // Read the showUsers docs for the user's favorites
+    const shows: Record<string, ShowAudience> = {};
+    const showsMissingGenres: string[] = [];
+    for (const showId of currentUserFavoriteShowIds) {
+      const showUserDoc = await db.collection("showUsers").doc(showId).get();
+      if (!showUserDoc.exists) continue;
+
+      const showData = showUserDoc.data();
+      shows[showId] = {users: showData?.users || [], genreIds: showData?.genreIds};
+      if (!Array.isArray(showData?.genreIds)) {
+        showsMissingGenres.push(showId);
+      }
+    }
+
+    // Cache genres for the user's shows on their showUsers docs the first time they're seen
+    if (showsMissingGenres.length > 0) {
+      const genreBatch = db.batch();
+      for (const showId of showsMissingGenres) {
+        const genreIds = await fetchShowGenreIds(showId);
+        if (!genreIds) continue;
+        shows[showId].genreIds = genreIds;
+        genreBatch.set(db.collection("showUsers").doc(showId), {genreIds}, {merge: true});
+      }
+      await genreBatch.commit();
+    }
+
+    // Only the IDs of existing matches and pending suggestions are needed, so skip reading their fields
+    const existingMatchesSnapshot = await getMatchesRef(currentUserId).select().get();
+    const pendingCandidatesSnapshot = await getCandidatesRef(currentUserId).select().get();
+
+    const now = new Date();
+    const searchContext = {
+      userId: currentUserId,
+      profile: userProfile,
+      favoriteShowIds: currentUserFavoriteShowIds,
+      existingMatchIds: [...existingMatchesSnapshot.docs, ...pendingCandidatesSnapshot.docs].map((doc) => doc.id),
+      suppressedUserIds: await getSuppressedUserIds(currentUserId, now),
+      shows,
+    };
+
+    // Batch get candidate profiles
+    const potentialUserIds = collectCandidateIds(searchContext);
+    const batchSize = 10;
+    const candidates: CandidateProfile[] = [];
+
+    for (let i = 0; i < potentialUserIds.length; i += batchSize) {
+      const batchIds = potentialUserIds.slice(i, i + batchSize);
+      const userRefs = batchIds.map((id) => db.collection("users").doc(id));
+      const userDocs = await db.getAll(...userRefs);
+
+      for (const candidateDoc of userDocs) {
+        if (!candidateDoc.exists) continue;
+        candidates.push({userId: candidateDoc.id, profile: candidateDoc.data()?.profile || {}});
+      }
+    }
+
+    // Look up cached genres for every show the candidates have favorited
+    const candidateShowIds = new Set<string>();
+    candidates.forEach((candidate) => {
+      (candidate.profile.favoriteShows || []).forEach((showId) => candidateShowIds.add(showId));
+    });
+    const showGenres = Object.fromEntries(await getCachedShowGenres(Array.from(candidateShowIds)));
+
+    const result = runMatchSearch({
+      ...searchContext,
+      candidates,
+      showGenres,
+      now,
+    });
+
+    // Clear the fields the old per-search cooldown kept on the user document
+    if (userData?.matchSearchCount !== undefined) {
+      await userRef.update({
+        matchSearchCount: FieldValue.delete(),
+        lastMatchSearch: FieldValue.delete(),
+        cooldownEndTime: FieldValue.delete(),
+      });
+    }
+
+    // Store admin Timestamps rather than plain Dates on the suggestions, and
+    // only the profile's blurred copy until the pair's photos unlock. Profiles
+    // that still have their real photo get none
+    const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+    const toStoredCandidate = (match: EngineMatchData): MatchCandidate => ({
+      ...toCandidate({...match, matchTimestamp: admin.firestore.Timestamp.fromDate(match.matchTimestamp)}),
+      profilePic: isBlurredPhotoUrl(match.profilePic, cloudName) ? match.profilePic : "",
+      photoUnlocked: false,
+    });
+    const newCandidatesData = result.newMatches.map(toStoredCandidate);
+
+    // Both sides of every pair get a suggestion to like or pass on; the match
+    // itself is only created once both have liked each other
+    await commitInBatches(result.matchWrites.flatMap((write) => [
+      (batch: admin.firestore.WriteBatch) => batch.set(
+        getCandidatesRef(currentUserId).doc(write.matchData.userId),
+        toStoredCandidate(write.matchData)
+      ),
+      (batch: admin.firestore.WriteBatch) => batch.set(
+        getCandidatesRef(write.matchData.userId).doc(currentUserId),
+        toStoredCandidate(write.otherUserMatchData)
+      ),
+    ]));
+
+    const responseObject = {
+      success: true,
+      newCandidates: newCandidatesData,
+      candidateCount: newCandidatesData.length,
+      ...toSearchQuotaResponse(quota.status), // What's left after this search
+      message: newCandidatesData.length > 0 ?
+        `Found ${newCandidatesData.length} new suggestions!` :
+        "No new suggestions found",
+    };
+    
+    return responseObject;
+  } catch (error: any) {
+    functions.logger.error("Error in searchUserMatches:", error);
+    if (charge) {
+      await refundSearchQuota(currentUserId, charge);
+    }
+    // Re-throw HttpsErrors directly, wrap others
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to search for matches: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Records a like or pass on a suggested profile. A like waits for the other
+ * side; once both have liked each other the match is created on both sides and
+ * the user who liked first is notified. A pass removes the suggestion for both
+ * and keeps the pair from being suggested again for a while.
+ */
+export const respondToCandidate = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "respondToCandidate");
+
+  const currentUserId = request.auth.uid;
+  const candidateId = request.data?.candidateId;
+  const decision = request.data?.decision as CandidateDecision;
+  if (typeof candidateId !== "string" || !candidateId || candidateId === currentUserId) {
+    throw new HttpsError("invalid-argument", "A valid candidateId is required.");
+  }
+  if (decision !== "like" && decision !== "pass") {
+    throw new HttpsError("invalid-argument", "decision must be \"like\" or \"pass\".");
+  }
+
+  try {
+    const db = admin.firestore();
+    const ownRef = getCandidatesRef(currentUserId).doc(candidateId);
+    const otherRef = getCandidatesRef(candidateId).doc(currentUserId);
+    const now = admin.firestore.Timestamp.now();
+    const photoUnlockAt = getPhotoUnlockAt(now.toMillis(), PHOTO_UNLOCK_RULES);
+    const toLockedMatch = (candidate: MatchCandidate): MatchData => ({
+      ...toMatch(candidate, now),
+      expiresAt: getStoredExpiresAt(now),
+      photoUnlocked: false,
+      ...(photoUnlockAt !== null && {photoUnlockAt: admin.firestore.Timestamp.fromMillis(photoUnlockAt)}),
+    });
+
+    const {outcome, ownCandidate, otherCandidate} = await db.runTransaction(async (transaction) => {
+      const [ownDoc, otherDoc] = await transaction.getAll(ownRef, otherRef);
+      if (!ownDoc.exists) {
+        throw new HttpsError("not-found", "This suggestion is no longer available.");
+      }
+      const ownCandidate = ownDoc.data() as MatchCandidate;
+      if (ownCandidate.decision) {
+        throw new HttpsError("failed-precondition", "You already responded to this suggestion.");
+      }
+
+      // The other side's suggestion disappears when they delete their account
+      if (!otherDoc.exists) {
+        transaction.delete(ownRef);
+        return {outcome: "unavailable" as const, ownCandidate, otherCandidate: null};
+      }
+      const otherCandidate = otherDoc.data() as MatchCandidate;
+
+      const outcome = getPairOutcome(decision, otherCandidate.decision);
+      if (outcome === "waiting") {
+        transaction.update(ownRef, {decision, decidedAt: now});
+      } else if (outcome === "match") {
+        transaction.set(getMatchesRef(currentUserId).doc(candidateId), toLockedMatch(ownCandidate));
+        transaction.set(getMatchesRef(candidateId).doc(currentUserId), toLockedMatch(otherCandidate));
+        transaction.delete(ownRef);
+        transaction.delete(otherRef);
+      } else {
+        transaction.delete(ownRef);
+        transaction.delete(otherRef);
+        transaction.set(db.collection("matchPasses").doc(getPairId(currentUserId, candidateId)), {
+          users: [currentUserId, candidateId],
+          passedBy: currentUserId,
+          passedAt: now,
+          eligibleAgainAt: admin.firestore.Timestamp.fromMillis(
+            now.toMillis() + PASS_COOLDOWN_DAYS * 24 * 60 * 60 * 1000
+          ),
+        });
+      }
+      return {outcome, ownCandidate, otherCandidate};
+    });
+
+    if (outcome === "match" && otherCandidate) {
+      // The other side's entry describes the current user
+      await sendMatchNotification(
+        candidateId,
+        currentUserId,
+        otherCandidate.displayName || "A user",
+        otherCandidate.matchLevel
+      );
+    }
+
+    functions.logger.info(`${currentUserId} responded to ${candidateId}: ${decision} (${outcome})`);
+    return {
+      success: true,
+      outcome,
+      match: outcome === "match" ? toLockedMatch(ownCandidate) : null,
+    };
+  } catch (error: any) {
+    functions.logger.error("Error in respondToCandidate:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to respond to suggestion: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Asks to reveal photos with a match before they unlock by themselves. The
+ * other side sees the request, and the photos unlock once both have asked.
+ */
+export const requestPhotoReveal = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "requestPhotoReveal");
+
+  const currentUserId = request.auth.uid;
+  const matchedUserId = request.data?.matchedUserId;
+  if (typeof matchedUserId !== "string" || !matchedUserId || matchedUserId === currentUserId) {
+    throw new HttpsError("invalid-argument", "A valid matchedUserId is required.");
+  }
+  if (!PHOTO_UNLOCK_RULES.unlockOnMutualReveal) {
+    throw new HttpsError("failed-precondition", "Revealing photos early is turned off.");
+  }
+
+  try {
+    const matchDoc = await getMatchesRef(currentUserId).doc(matchedUserId).get();
+    if (!matchDoc.exists) {
+      throw new HttpsError("not-found", "This match is no longer available.");
+    }
+
+    const reason = await updatePhotoUnlock(currentUserId, matchedUserId, {revealRequested: true});
+    return {success: true, unlocked: reason !== null};
+  } catch (error: any) {
+    functions.logger.error("Error in requestPhotoReveal:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      "internal",
+      `Failed to request photo reveal: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * One-time migration that moves the `matches` array off every user document
+ * into that user's matches subcollection. Safe to run again: entries that
+ * already have a match doc are left alone and the array is removed either way.
+ */
+export const migrateMatchesToCollection = onCall(async (request) => {
+  if (!request.auth || !request.auth.token.email) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "migrateMatchesToCollection");
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Admin email is not configured."
+    );
+  }
+
+  if (request.auth.token.email !== adminEmail) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can run migrations"
+    );
+  }
+
+  try {
+    const db = admin.firestore();
+    const pageSize = 100;
+    let lastUserDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let migratedUsers = 0;
+    let migratedMatches = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collection("users").orderBy("__name__").limit(pageSize);
+      if (lastUserDoc) {
+        query = query.startAfter(lastUserDoc);
+      }
+      const usersSnapshot = await query.get();
+      if (usersSnapshot.empty) {
+        break;
+      }
+
+      for (const userDoc of usersSnapshot.docs) {
+        const legacyMatches: MatchData[] | undefined = userDoc.data().matches;
+        if (!Array.isArray(legacyMatches)) continue;
+
+        const matchesRef = getMatchesRef(userDoc.id);
+        const existingSnapshot = await matchesRef.select().get();
+        const existingIds = new Set(existingSnapshot.docs.map((doc) => doc.id));
+        const pendingMatches = legacyMatches.filter((match) => match.userId && !existingIds.has(match.userId));
+
+        await commitInBatches(pendingMatches.map((match) =>
+          (batch: admin.firestore.WriteBatch) => batch.set(matchesRef.doc(match.userId), {
+            ...match,
+            ...(!match.chattingWith && match.matchTimestamp && {expiresAt: getStoredExpiresAt(match.matchTimestamp)}),
+          })
+        ));
+
+        // Only drop the array once every entry is safely in the subcollection
+        await userDoc.ref.update({matches: FieldValue.delete()});
+        migratedUsers++;
+        migratedMatches += pendingMatches.length;
+      }
+
+      lastUserDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    }
+
+    functions.logger.info(`Migrated ${migratedMatches} matches for ${migratedUsers} users`);
+    return {success: true, migratedUsers, migratedMatches};
+  } catch (error: any) {
+    functions.logger.error("Error migrating matches:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to migrate matches: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * One-time migration that adds `expiresAt` to match entries created before
+ * `expireStaleMatches` queried on it. Safe to run again: opened matches and
+ * entries that already have it are left alone.
+ */
+export const migrateMatchExpiry = onCall(async (request) => {
+  if (!request.auth || !request.auth.token.email) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "migrateMatchExpiry");
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Admin email is not configured."
+    );
+  }
+
+  if (request.auth.token.email !== adminEmail) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can run migrations"
+    );
+  }
+
+  try {
+    const db = admin.firestore();
+    const pageSize = 100;
+    let lastUserDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let migratedMatches = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collection("users").orderBy("__name__").limit(pageSize);
+      if (lastUserDoc) {
+        query = query.startAfter(lastUserDoc);
+      }
+      const usersSnapshot = await query.get();
+      if (usersSnapshot.empty) {
+        break;
+      }
+
+      for (const userDoc of usersSnapshot.docs) {
+        const matchesSnapshot = await getMatchesRef(userDoc.id).get();
+        const pendingDocs = matchesSnapshot.docs.filter((matchDoc) => {
+          const match = matchDoc.data() as MatchData;
+          return !match.chattingWith && !match.expiresAt && match.matchTimestamp;
+        });
+
+        await commitInBatches(pendingDocs.map((matchDoc) =>
+          (batch: admin.firestore.WriteBatch) => batch.update(matchDoc.ref, {
+            expiresAt: getStoredExpiresAt(matchDoc.data().matchTimestamp),
+          })
+        ));
+        migratedMatches += pendingDocs.length;
+      }
+
+      lastUserDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    }
+
+    functions.logger.info(`Added an expiry to ${migratedMatches} matches`);
+    return {success: true, migratedMatches};
+  } catch (error: any) {
+    functions.logger.error("Error migrating match expiry:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to migrate match expiry: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * Merges a pair's conversations into the one stored under the pair's ID:
+ * batch docs are copied over, archive files moved to its folder, and the
+ * duplicates deleted once the merged header is written.
+ * @param {string} conversationId The pair's conversation ID
+ * @param {admin.firestore.DocumentSnapshot[]} conversationDocs Every conversation of the pair
+ * @return {Promise<void>}
+ */
+async function mergePairConversations(
+  conversationId: string,
+  conversationDocs: admin.firestore.DocumentSnapshot[]
+): Promise<void> {
+  const db = admin.firestore();
+  const conversationRef = db.collection("conversations").doc(conversationId);
+  const duplicateDocs = conversationDocs.filter((doc) => doc.id !== conversationId);
+  const bucket = admin.storage().bucket();
+
+  for (const duplicateDoc of duplicateDocs) {
+    const batchesSnapshot = await duplicateDoc.ref.collection("messageBatches").get();
+    await commitInBatches(batchesSnapshot.docs.map((batchDoc) =>
+      (batch: admin.firestore.WriteBatch) =>
+        batch.set(conversationRef.collection("messageBatches").doc(batchDoc.id), batchDoc.data())
+    ));
+
+    const archives: ArchiveMetadata[] = duplicateDoc.data()?.archives || [];
+    for (const archive of archives) {
+      await bucket.file(archive.path).move(getMergedArchivePath(archive.path, conversationId));
+    }
+  }
+
+  const merged = mergeConversations(
+    conversationId,
+    conversationDocs.map((doc) => doc.data() as Partial<ConversationData<admin.firestore.Timestamp>>)
+  );
+  await conversationRef.set(merged);
+
+  // Batches and archives now live under the merged conversation, so this only
+  // removes the duplicate docs
+  for (const duplicateDoc of duplicateDocs) {
+    await performConversationDeletion(duplicateDoc.id, duplicateDoc.ref);
+  }
+}
+
+/**
+ * One-time migration that moves every conversation to the ID derived from
+ * its pair of participants, merging duplicate conversations of the same pair.
+ * Safe to run again: conversations already under their pair's ID are left
+ * alone.
+ */
+export const migrateDuplicateConversations = onCall(async (request) => {
+  if (!request.auth || !request.auth.token.email) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "migrateDuplicateConversations");
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Admin email is not configured."
+    );
+  }
+
+  if (request.auth.token.email !== adminEmail) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can run migrations"
+    );
+  }
+
+  try {
+    const db = admin.firestore();
+    const pageSize = 200;
+    let lastConversationDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    const docsByPair = new Map<string, admin.firestore.DocumentSnapshot[]>();
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collection("conversations").orderBy("__name__").limit(pageSize);
+      if (lastConversationDoc) {
+        query = query.startAfter(lastConversationDoc);
+      }
+      const conversationsSnapshot = await query.get();
+      if (conversationsSnapshot.empty) {
+        break;
+      }
+
+      conversationsSnapshot.docs.forEach((doc) => {
+        const participants: string[] = doc.data().participants || [];
+        if (participants.length !== 2 || participants[0] === participants[1]) {
+          functions.logger.warn(`Skipping conversation ${doc.id} with participants ${participants.join(", ")}`);
+          return;
+        }
+        const conversationId = getConversationId(participants[0], participants[1]);
+        docsByPair.set(conversationId, [...(docsByPair.get(conversationId) || []), doc]);
+      });
+
+      lastConversationDoc = conversationsSnapshot.docs[conversationsSnapshot.docs.length - 1];
+    }
+
+    let migratedPairs = 0;
+    let mergedConversations = 0;
+    for (const [conversationId, conversationDocs] of docsByPair) {
+      if (conversationDocs.every((doc) => doc.id === conversationId)) continue;
+
+      await mergePairConversations(conversationId, conversationDocs);
+      migratedPairs++;
+      mergedConversations += conversationDocs.filter((doc) => doc.id !== conversationId).length;
+    }
+
+    functions.logger.info(`Moved ${mergedConversations} conversations into ${migratedPairs} pair conversations`);
+    return {success: true, migratedPairs, mergedConversations};
+  } catch (error: any) {
+    functions.logger.error("Error migrating conversations:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to migrate conversations: ${error.message || error}`
+    );
+  }
+});
+
+/**
+ * One-time migration that moves real photos off the world-readable user docs
+ * into each user's private photo doc, and replaces photos blurred by adding a
+ * transformation to the original's URL with separate blurred copies.
+ * `syncProfilePhoto` then publishes them to match entries and conversations.
+ * Safe to run again: profiles that only hold blurred copies are left alone.
+ */
+export const migrateProfilePhotos = onCall(async (request) => {
+  if (!request.auth || !request.auth.token.email) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "migrateProfilePhotos");
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Admin email is not configured."
+    );
+  }
+
+  if (request.auth.token.email !== adminEmail) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can run migrations"
+    );
+  }
+
+  try {
+    const db = admin.firestore();
+    const pageSize = 100;
+    let lastUserDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let migratedUsers = 0;
+    const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collection("users").orderBy("__name__").limit(pageSize);
+      if (lastUserDoc) {
+        query = query.startAfter(lastUserDoc);
+      }
+      const usersSnapshot = await query.get();
+      if (usersSnapshot.empty) {
+        break;
+      }
+
+      for (const userDoc of usersSnapshot.docs) {
+        const profile = userDoc.data().profile || {};
+        const publicPics: unknown[] = [profile.profilePic, ...(profile.additionalPics || [])];
+        if (publicPics.every((url) => !url || isBlurredPhotoUrl(url, cloudName))) continue;
+
+        // Photos set after the private doc was introduced already live there,
+        // so only the public copies need redoing
+        const privatePhotoDoc = await getPrivatePhotoRef(userDoc.id).get();
+        if (privatePhotoDoc.exists) {
+          await publishProfilePhotos(userDoc.id, getProfilePhotos(privatePhotoDoc.data(), cloudName), null);
+        } else {
+          await getPrivatePhotoRef(userDoc.id).set(getProfilePhotos(profile, cloudName));
+        }
+        migratedUsers++;
+      }
+
+      lastUserDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    }
+
+    functions.logger.info(`Moved the photos of ${migratedUsers} users to their private docs`);
+    return {success: true, migratedUsers};
+  } catch (error: any) {
+    functions.logger.error("Error migrating profile photos:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to migrate profile photos: ${error.message || error}`
+    );
+  }
+});
+
+// Validates and saves the caller's notification preferences
+export const updateNotificationSettings = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "updateNotificationSettings");
+
+  const settings = validateNotificationSettings(request.data);
+
+  try {
+    await admin.firestore().collection("users").doc(request.auth.uid).update({
+      "profile.notificationSettings": settings,
+    });
+    return {success: true, settings};
+  } catch (error: any) {
+    functions.logger.error("Error updating notification settings:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to update notification settings: ${error.message || error}`
+    );
+  }
+});
+
+// Longest announcement text accepted, matching what fits in a push
+const ANNOUNCEMENT_TITLE_MAX_LENGTH = 65;
+const ANNOUNCEMENT_BODY_MAX_LENGTH = 240;
+
+// Admin-only function to post an announcement to every user's activity feed
+// and push it to their devices
+export const sendAnnouncement = onCall(async (request) => {
+  if (!request.auth || !request.auth.token.email) {
+    throw new HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  await enforceRateLimit(request.auth.uid, "sendAnnouncement");
+
+  const adminEmail = process.env.ADMIN_EMAIL;
+  if (!adminEmail) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Admin email is not configured."
+    );
+  }
+
+  if (request.auth.token.email !== adminEmail) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can send announcements"
+    );
+  }
+
+  const title = typeof request.data?.title === "string" ? request.data.title.trim() : "";
+  const body = typeof request.data?.body === "string" ? request.data.body.trim() : "";
+  if (!title || !body) {
+    throw new HttpsError(
+      "invalid-argument",
+      "An announcement needs a title and a body."
+    );
+  }
+  if (title.length > ANNOUNCEMENT_TITLE_MAX_LENGTH || body.length > ANNOUNCEMENT_BODY_MAX_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Titles are limited to ${ANNOUNCEMENT_TITLE_MAX_LENGTH} and bodies to ` +
+        `${ANNOUNCEMENT_BODY_MAX_LENGTH} characters.`
+    );
+  }
+
+  try {
+    const db = admin.firestore();
+    const announcementRef = db.collection("announcements").doc();
+    await announcementRef.set({
+      title,
+      body,
+      sentBy: request.auth.uid,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    const pageSize = 100;
+    let lastUserDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let recipients = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let query = db.collection("users")
+        .orderBy("__name__")
+        .select("profile.pushToken", "profile.notificationSettings")
+        .limit(pageSize);
+      if (lastUserDoc) {
+        query = query.startAfter(lastUserDoc);
+      }
+      const usersSnapshot = await query.get();
+      if (usersSnapshot.empty) {
+        break;
+      }
+
+      await Promise.all(usersSnapshot.docs.map((userDoc) => sendAnnouncementNotification(
+        userDoc.id,
+        userDoc.data(),
+        announcementRef.id,
+        title,
+        body
+      )));
+      recipients += usersSnapshot.size;
+
+      lastUserDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    }
+
+    await announcementRef.update({recipients});
+    functions.logger.info(`Sent announcement ${announcementRef.id} to ${recipients} users`);
+    return {success: true, announcementId: announcementRef.id, recipients};
+  } catch (error: any) {
+    functions.logger.error("Error sending announcement:", error);
+    throw new HttpsError(
+      "internal",
+      `Failed to send announcement: ${error.message || error}`
+    );
   }
 });
 
-// Cloudinary signed upload function
+// Cloudinary signed upload function. Profile photos go to a shared folder;
+// with a conversationId, a participant gets a signature for that
+// conversation's photo folder instead
 export const getCloudinarySignature = onCall(async (request) => {
   // Ensure user is authenticated
   if (!request.auth) {
@@ -777,6 +2731,8 @@ export const getCloudinarySignature = onCall(async (request) => {
     );
   }
 
+  await enforceRateLimit(request.auth.uid, "getCloudinarySignature");
+
   try {
     // Get Cloudinary credentials from environment variables
     const apiKey = process.env.CLOUDINARY_API_KEY;
@@ -793,7 +2749,20 @@ export const getCloudinarySignature = onCall(async (request) => {
 
     // Create parameters for the signature
     const timestamp = Math.round(new Date().getTime() / 1000);
-    const folder = "mio_app_profiles";
+    let folder = PROFILE_UPLOAD_FOLDER;
+
+    const conversationId = request.data?.conversationId;
+    if (conversationId !== undefined) {
+      if (typeof conversationId !== "string" || !conversationId || conversationId.includes("/")) {
+        throw new HttpsError("invalid-argument", "A valid conversationId is required.");
+      }
+      const conversationDoc = await admin.firestore().collection("conversations").doc(conversationId).get();
+      const participants: string[] = conversationDoc.data()?.participants || [];
+      if (!participants.includes(request.auth.uid)) {
+        throw new HttpsError("permission-denied", "You're not part of this conversation.");
+      }
+      folder = getChatUploadFolder(conversationId);
+    }
 
     // Create the string to sign
     // Note: Include all parameters that should be signed
@@ -816,6 +2785,9 @@ export const getCloudinarySignature = onCall(async (request) => {
     };
   } catch (error) {
     console.error("Error generating Cloudinary signature:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError(
       "internal",
       "Unable to generate signature"
@@ -833,6 +2805,8 @@ export const checkAdminStatus = onCall(async (request) => {
     );
   }
 
+  await enforceRateLimit(request.auth.uid, "checkAdminStatus");
+
   try {
     // Get admin email from environment variable
     const adminEmail = process.env.ADMIN_EMAIL;
@@ -870,6 +2844,8 @@ export const setAdminClaim = onCall(async (request) => {
     );
   }
 
+  await enforceRateLimit(request.auth.uid, "setAdminClaim");
+
   // Get admin email from environment variable
   const adminEmail = process.env.ADMIN_EMAIL;
 
@@ -923,34 +2899,13 @@ export const getTMDBData = onCall(async (request) => {
     );
   }
 
-  try {
-    // Validate required parameters
-    const {endpoint, params} = request.data;
-    if (!endpoint) {
-      throw new HttpsError(
-        "invalid-argument",
-        "The 'endpoint' parameter is required."
-      );
-    }
+  await enforceRateLimit(request.auth.uid, "getTMDBData");
 
-    // Get TMDB API key from environment variable - try both formats
-    // Try the project-prefixed version first
-    let apiKey = process.env["mio-deployment.TMDB_API_KEY"];
-    
-    // If not found, try the regular version as fallback
-    if (!apiKey) {
-      apiKey = process.env.TMDB_API_KEY;
-    }
-    
-    functions.logger.info("Attempting to read TMDB_API_KEY from process.env");
-    functions.logger.info(`Prefixed value found: ${process.env["mio-deployment.TMDB_API_KEY"] ? 'Exists' : 'Missing'}`);
-    functions.logger.info(`Regular value found: ${process.env.TMDB_API_KEY ? 'Exists' : 'Missing'}`);
-    functions.logger.info(`Final value used: ${apiKey ? 'Exists' : 'Missing or Empty'}`);
-    
-    if (apiKey) {
-      functions.logger.info(`API Key starts with: ${apiKey.substring(0, 4)}`);
-    }
+  try {
+    // Only allowlisted endpoints with schema-checked params get through
+    const tmdbRequest = validateTMDBRequest(request.data?.endpoint, request.data?.params);
 
+    const apiKey = getTMDBApiKey();
     if (!apiKey) {
       console.error("TMDB API key is missing in environment variables.");
       throw new HttpsError(
@@ -959,31 +2914,25 @@ export const getTMDBData = onCall(async (request) => {
       );
     }
 
-    // Construct the URL with query parameters
-    const safeEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    let url = `https://api.themoviedb.org/3${safeEndpoint}?api_key=${apiKey}`;
-
-    // Add any additional parameters
-    if (params && typeof params === "object") {
-      Object.entries(params).forEach(([key, value]) => {
-        url += `&${key}=${encodeURIComponent(String(value))}`;
-      });
-    }
-
-    // NOTE: 'fetch' is globally available in newer Cloud Functions runtimes (Node 18+)
-    const response = await fetch(url);
+    // Serve from the tmdbCache collection when possible; only go to TMDB on a miss or refresh
+    return await getWithCache(tmdbRequest.endpoint, tmdbRequest.params, async () => {
+      // NOTE: 'fetch' is globally available in newer Cloud Functions runtimes (Node 18+)
+      const response = await fetch(buildTMDBUrl(tmdbRequest, apiKey));
 
-    if (!response.ok) {
-      const errorBody = await response.text(); // Get error details from TMDB
-      functions.logger.error(`TMDB API error for URL ${url}: ${response.status} ${response.statusText}`, {errorBody});
-      throw new HttpsError(
-        "internal", // Use a more specific code like 'unavailable' if appropriate
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
+      if (!response.ok) {
+        const errorBody = await response.text(); // Get error details from TMDB
+        functions.logger.error(
+          `TMDB API error for ${tmdbRequest.endpoint}: ${response.status} ${response.statusText}`,
+          {errorBody}
+        );
+        throw new HttpsError(
+          "internal", // Use a more specific code like 'unavailable' if appropriate
+          `TMDB API error: ${response.status} ${response.statusText}`
+        );
+      }
 
-    const result = await response.json();
-    return result;
+      return response.json();
+    });
   } catch (error: any) {
     functions.logger.error("Error fetching from TMDB:", error);
     // Re-throw HttpsErrors directly, wrap others
@@ -1008,11 +2957,16 @@ export const deleteUserAccount = onCall(async (request) => {
       "The function must be called while authenticated."
     );
   }
+
+  await enforceRateLimit(request.auth.uid, "deleteUserAccount");
+
   const userIdToDelete = request.auth.uid;
   functions.logger.info(`Attempting to delete account for user: ${userIdToDelete}`);
 
   const db = admin.firestore();
-  const batch = db.batch(); // Use a batch for multiple Firestore writes
+  // Collected and committed in chunks, since a user with many matches can go
+  // over the 500 writes a single batch allows
+  const writes: ((batch: admin.firestore.WriteBatch) => void)[] = [];
 
   try {
     // 2. Get User Data (including matches and favorite shows)
@@ -1025,52 +2979,48 @@ export const deleteUserAccount = onCall(async (request) => {
     } else {
       const userData = userDoc.data() || {};
       // Read fields according to the detailed structure provided
-      const userMatches: MatchData[] = userData.matches || []; // Assuming MatchData type is defined/imported
       const userProfile = userData.profile || {}; // Get the profile map
       const userFavoriteShows: string[] = userProfile.favoriteShows || []; // Read from profile map
 
-      // 3. Cleanup Matches: Remove deleting user from other users' match lists
-      if (userMatches.length > 0) {
-        functions.logger.info(`Cleaning up matches for ${userIdToDelete}. Found ${userMatches.length} matches.`);
-        const matchedUserIds = userMatches.map((match) => match.userId);
-        const matchedUserRefs = matchedUserIds.map((id) => db.collection("users").doc(id));
-
-        // Batch read matched user docs for efficiency
-        if (matchedUserRefs.length > 0) {
-            const matchedUserDocs = await db.getAll(...matchedUserRefs);
-            matchedUserDocs.forEach((matchedUserDoc) => {
-              if (matchedUserDoc.exists) {
-                const matchedUserId = matchedUserDoc.id;
-                const matchedUserData = matchedUserDoc.data() || {};
-                const otherUserMatches: MatchData[] = matchedUserData.matches || [];
-                // Filter out the user being deleted
-                const updatedMatches = otherUserMatches.filter(
-                  (m: MatchData) => m.userId !== userIdToDelete
-                );
-                // Update only if the matches list changed
-                if (updatedMatches.length < otherUserMatches.length) {
-                    batch.update(matchedUserDoc.ref, {matches: updatedMatches});
-                    functions.logger.info(
-                      `Scheduled removal of ${userIdToDelete} from matches of ${matchedUserId}`
-                    );
-                }
-              } else {
-                  // Log if a matched user document wasn't found (might have been deleted)
-                  functions.logger.warn(`Matched user document ${matchedUserDoc.id} not found during cleanup for ${userIdToDelete}.`);
-              }
-            });
-        }
+      // 3. Cleanup Matches: Remove deleting user from other users' matches
+      const userMatchesRef = getMatchesRef(userIdToDelete);
+      const userMatchesSnapshot = await userMatchesRef.select().get();
+      if (!userMatchesSnapshot.empty) {
+        functions.logger.info(
+          `Cleaning up matches for ${userIdToDelete}. Found ${userMatchesSnapshot.size} matches.`
+        );
+        userMatchesSnapshot.docs.forEach((matchDoc) => {
+          writes.push((batch) => batch.delete(getMatchesRef(matchDoc.id).doc(userIdToDelete)));
+        });
+        // The user's own match docs aren't removed along with the user document
+        await deleteCollection(userMatchesRef);
       } else {
            functions.logger.info(`No matches to clean up for user ${userIdToDelete}.`);
       }
 
+      // Pending suggestions on both sides
+      const userCandidatesRef = getCandidatesRef(userIdToDelete);
+      const userCandidatesSnapshot = await userCandidatesRef.select().get();
+      userCandidatesSnapshot.docs.forEach((candidateDoc) => {
+        writes.push((batch) => batch.delete(getCandidatesRef(candidateDoc.id).doc(userIdToDelete)));
+      });
+      await deleteCollection(userCandidatesRef);
+
+      // Registered devices, the activity feed, the private photo and rate
+      // limit buckets live in subcollections, which aren't removed with their
+      // parent docs
+      await deleteCollection(userRef.collection("pushTokens"));
+      await deleteCollection(userRef.collection("private"));
+      await deleteCollection(userRef.collection("notifications"));
+      await deleteCollection(db.collection("rateLimits").doc(userIdToDelete).collection("buckets"));
+
       // 4. Cleanup showUsers: Remove user from show lists
       if (userFavoriteShows.length > 0) {
         functions.logger.info(`Cleaning up ${userFavoriteShows.length} showUsers entries for ${userIdToDelete}.`);
         for (const showId of userFavoriteShows) {
           const showUserRef = db.collection("showUsers").doc(showId);
           // Update using FieldValue.arrayRemove within the batch
-          batch.update(showUserRef, {users: FieldValue.arrayRemove(userIdToDelete)});
+          writes.push((batch) => batch.update(showUserRef, {users: FieldValue.arrayRemove(userIdToDelete)}));
         }
       } else {
             functions.logger.info(`No favorite shows to clean up for user ${userIdToDelete}.`);
@@ -1086,9 +3036,16 @@ export const deleteUserAccount = onCall(async (request) => {
         functions.logger.info(`Found ${conversationsSnapshot.size} conversations to delete for user ${userIdToDelete}`);
         // Deleting conversations involves subcollections and storage, handle outside the main batch
         // Ensure performConversationDeletion is defined and imported correctly
+        // Typing docs go with each conversation, and the message push
+        // throttles of every participant with it
         const deletionPromises = conversationsSnapshot.docs.map((convDoc) =>
           performConversationDeletion(convDoc.id, convDoc.ref)
         );
+        conversationsSnapshot.docs.forEach((convDoc) => {
+          (convDoc.data().participants || []).forEach((participantId: string) => {
+            writes.push((batch) => batch.delete(db.collection("messagePushes").doc(`${convDoc.id}_${participantId}`)));
+          });
+        });
         const results = await Promise.allSettled(deletionPromises);
         results.forEach((result, index) => {
             if (result.status === 'rejected') {
@@ -1102,13 +3059,29 @@ export const deleteUserAccount = onCall(async (request) => {
         functions.logger.info(`No conversations found involving user ${userIdToDelete}.`);
       }
 
-      // 6. Add User Document to the batch for deletion
-      batch.delete(userRef);
+      // 6. Add User Document, its rate limit buckets and search quota to the batch for deletion
+      writes.push((batch) => batch.delete(userRef));
+      writes.push((batch) => batch.delete(db.collection("rateLimits").doc(userIdToDelete)));
+      writes.push((batch) => batch.delete(db.collection("searchQuotas").doc(userIdToDelete)));
       functions.logger.info(`Scheduled deletion of user document ${userIdToDelete} in batch.`);
     }
 
-    // Commit the Firestore batch operations (matches, showUsers, user doc)
-    await batch.commit();
+    // Data kept outside the user document goes even if the document is already
+    // gone: presence, held pushes, push tickets (which carry device tokens) and
+    // the pair records of expired and passed matches
+    writes.push((batch) => batch.delete(db.collection("presence").doc(userIdToDelete)));
+    writes.push((batch) => batch.delete(db.collection("deferredPushes").doc(userIdToDelete)));
+    const [ticketsSnapshot, expirationsSnapshot, passesSnapshot] = await Promise.all([
+      db.collection("pushTickets").where("userId", "==", userIdToDelete).select().get(),
+      db.collection("matchExpirations").where("users", "array-contains", userIdToDelete).select().get(),
+      db.collection("matchPasses").where("users", "array-contains", userIdToDelete).select().get(),
+    ]);
+    [...ticketsSnapshot.docs, ...expirationsSnapshot.docs, ...passesSnapshot.docs].forEach((doc) => {
+      writes.push((batch) => batch.delete(doc.ref));
+    });
+
+    // Commit the Firestore batch operations (matches, showUsers, user doc and the records above)
+    await commitInBatches(writes);
     functions.logger.info(`Committed Firestore batch deletions for ${userIdToDelete}.`);
 
     // 7. Delete Auth Account (Must be done *after* Firestore cleanup potentially needing UID)
@@ -0,0 +1,124 @@
+/**
+ * Compatibility scoring for the matching algorithm.
+ *
+ * Shared shows are weighted by how rare they are (IDF-style over the size of
+ * each show's `showUsers.users` list), so two fans of an obscure anime score
+ * higher than two people who both liked this week's most trending show.
+ * Overlapping TMDB genres add partial credit on top of the shared shows.
+ */
+
+// Audience size at which a shared show is worth ln(2) points
+const REFERENCE_AUDIENCE = 100;
+// Floor so that even blockbusters still count for something
+const MIN_SHOW_WEIGHT = 0.25;
+// Maximum points awarded for a perfect genre overlap
+const GENRE_WEIGHT = 2;
+
+// Score bands used to decide the match level
+export const MATCH_SCORE_THRESHOLD = 3;
+export const SUPER_MATCH_SCORE_THRESHOLD = 8;
+
+export type ScoredMatchLevel = "match" | "superMatch";
+
+export interface ScoreBreakdown {
+  sharedShows: number; // Number of favorites both users have in common
+  showScore: number; // Rarity-weighted points from the shared shows
+  genreScore: number; // Partial credit from overlapping genres
+}
+
+export interface CompatibilityResult {
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+/**
+ * Rounds a score to two decimals so it stores cleanly in Firestore
+ * @param {number} value The raw score
+ * @return {number} The rounded score
+ */
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Weight of a single shared show based on how many users have it favorited
+ * @param {number} audienceSize Number of users in the show's `showUsers` doc
+ * @return {number} The show's weight
+ */
+export function getShowWeight(audienceSize: number): number {
+  // A show shared by two people always has at least those two fans
+  const audience = Math.max(audienceSize, 2);
+  return Math.max(MIN_SHOW_WEIGHT, Math.log(1 + REFERENCE_AUDIENCE / audience));
+}
+
+/**
+ * Jaccard similarity of two genre lists
+ * @param {number[]} genresA First user's genre IDs
+ * @param {number[]} genresB Second user's genre IDs
+ * @return {number} Similarity between 0 and 1
+ */
+export function getGenreSimilarity(genresA: number[], genresB: number[]): number {
+  const setA = new Set(genresA);
+  const setB = new Set(genresB);
+  if (setA.size === 0 || setB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  setA.forEach((genreId) => {
+    if (setB.has(genreId)) shared++;
+  });
+
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Calculates the compatibility score between two users
+ * @param {number[]} sharedShowAudiences Audience size of every show both users share
+ * @param {number[]} userGenres Genre IDs across the first user's favorites
+ * @param {number[]} candidateGenres Genre IDs across the second user's favorites
+ * @return {CompatibilityResult} The total score and its breakdown
+ */
+export function calculateCompatibility(
+  sharedShowAudiences: number[],
+  userGenres: number[],
+  candidateGenres: number[]
+): CompatibilityResult {
+  const showScore = sharedShowAudiences.reduce(
+    (total, audienceSize) => total + getShowWeight(audienceSize), 0
+  );
+  const genreScore = GENRE_WEIGHT * getGenreSimilarity(userGenres, candidateGenres);
+
+  return {
+    score: roundScore(showScore + genreScore),
+    breakdown: {
+      sharedShows: sharedShowAudiences.length,
+      showScore: roundScore(showScore),
+      genreScore: roundScore(genreScore),
+    },
+  };
+}
+
+/**
+ * Cheap pre-check used before fetching a candidate's profile: even a perfect
+ * genre overlap can't lift a pair of blockbuster-only fans into a match
+ * @param {number[]} sharedShowAudiences Audience size of every show both users share
+ * @return {boolean} True if the pair could still reach the match threshold
+ */
+export function canReachMatchThreshold(sharedShowAudiences: number[]): boolean {
+  const showScore = sharedShowAudiences.reduce(
+    (total, audienceSize) => total + getShowWeight(audienceSize), 0
+  );
+  return showScore + GENRE_WEIGHT >= MATCH_SCORE_THRESHOLD;
+}
+
+/**
+ * Maps a compatibility score onto a match level
+ * @param {number} score The compatibility score
+ * @return {ScoredMatchLevel | null} The match level, or null if the score is too low
+ */
+export function getMatchLevelForScore(score: number): ScoredMatchLevel | null {
+  if (score >= SUPER_MATCH_SCORE_THRESHOLD) return "superMatch";
+  if (score >= MATCH_SCORE_THRESHOLD) return "match";
+  return null;
+}
@@ -0,0 +1,509 @@
+/**
+ * Pure matching engine used by the `searchUserMatches` callable.
+ *
+ * Everything in here works on plain data (profiles, `showUsers` contents and a
+ * clock value) so the matching rules can be unit tested without Firestore.
+ * Reading and writing documents stays in the cloud function adapter.
+ */
+import {
+  calculateCompatibility,
+  canReachMatchThreshold,
+  getMatchLevelForScore,
+  ScoreBreakdown,
+} from "./matchScoring";
+
+export type MatchLevel = "match" | "superMatch";
+
+// Approximate position on a 0.1 degree grid, written by the app's edit profile screen
+export interface CoarseLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// Match entry stored on a user's document. The timestamp type is left open so the
+// engine can work with plain Dates while the adapter stores admin Timestamps.
+export interface MatchData<TTimestamp = Date> {
+  userId: string;
+  displayName: string;
+  profilePic: string;
+  matchLevel: MatchLevel;
+  favoriteShowIds: string[];
+  matchTimestamp: TTimestamp;
+  age?: number | string;
+  location?: string;
+  gender?: string;
+  chattingWith?: boolean;
+  compatibilityScore: number;
+  scoreBreakdown: ScoreBreakdown;
+  // Why the pair matched, kept in sync when either side edits their favorites
+  commonShowIds: string[];
+  sharedGenreIds: number[];
+}
+
+// Favorites two users have in common
+export interface SharedFavorites {
+  commonShowIds: string[];
+  sharedGenreIds: number[];
+}
+
+export type CandidateDecision = "like" | "pass";
+
+// Suggested profile waiting for a like or pass, stored in `users/{uid}/candidates/{otherUid}`.
+// It becomes a match entry once both sides have liked each other.
+export interface MatchCandidate<TTimestamp = Date>
+  extends Omit<MatchData<TTimestamp>, "matchTimestamp" | "chattingWith"> {
+  suggestedAt: TTimestamp;
+  decision: CandidateDecision | null; // This user's answer, null until they respond
+  decidedAt?: TTimestamp;
+}
+
+// What happens to a pair after one side responds to the other's suggestion
+export type PairOutcome = "match" | "waiting" | "pass";
+
+// Subset of `users/{uid}.profile` the engine looks at
+export interface MatchProfile {
+  displayName?: string;
+  profilePic?: string;
+  age?: number | string;
+  gender?: string;
+  location?: string;
+  matchWith?: string;
+  matchLocation?: string;
+  // Accepted age range, null or missing means "any"
+  matchAgeMin?: number | null;
+  matchAgeMax?: number | null;
+  // Radius for "local" matching, used when both users shared a coarse location
+  matchDistanceKm?: number | null;
+  coarseLocation?: CoarseLocation | null;
+  blockedUsers?: string[];
+  favoriteShows?: string[];
+}
+
+// Profile fields copied onto the other user's match entry at match time
+export type MatchSnapshot = Pick<
+  MatchData, "displayName" | "profilePic" | "favoriteShowIds" | "age" | "gender" | "location"
+>;
+
+export interface CandidateProfile {
+  userId: string;
+  profile: MatchProfile;
+}
+
+// Contents of a `showUsers/{showId}` document
+export interface ShowAudience {
+  users: string[];
+  genreIds?: number[];
+}
+
+export interface MatchSearchInput {
+  userId: string;
+  profile: MatchProfile;
+  favoriteShowIds: string[];
+  existingMatchIds: string[];
+  // Users the searcher can't be matched with again yet, e.g. after a match expired
+  suppressedUserIds: string[];
+  // `showUsers` docs for the searching user's favorites, keyed by show ID
+  shows: Record<string, ShowAudience>;
+  // Profiles of the users returned by `collectCandidateIds`
+  candidates: CandidateProfile[];
+  // Cached genre IDs for the candidates' favorites, keyed by show ID
+  showGenres: Record<string, number[]>;
+  now: Date;
+}
+
+// Entries for a newly found pair: one for each side
+export interface MatchWrite {
+  matchData: MatchData;
+  otherUserMatchData: MatchData;
+}
+
+export interface MatchSearchResult {
+  newMatches: MatchData[];
+  matchWrites: MatchWrite[];
+}
+
+// Unopened matches expire after this many days; a warning goes out a day earlier
+export const DEFAULT_MATCH_EXPIRY_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MatchExpiryStage = "active" | "warn" | "expire";
+
+// "Local" radius for users who shared a location but never picked a distance
+export const DEFAULT_MATCH_DISTANCE_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Stable ID for a pair of users, independent of who comes first
+ * @param {string} userIdA One user's ID
+ * @param {string} userIdB The other user's ID
+ * @return {string} The pair ID
+ */
+export function getPairId(userIdA: string, userIdB: string): string {
+  return [userIdA, userIdB].sort().join("_");
+}
+
+/**
+ * Works out which shows and genres two users both love
+ * @param {string[]} showIdsA One user's favorite show IDs
+ * @param {string[]} showIdsB The other user's favorite show IDs
+ * @param {Record<string, number[]>} showGenres Genre IDs of the shows, keyed by show ID
+ * @return {SharedFavorites} The common shows, in the first user's order, and the shared genres
+ */
+export function getSharedFavorites(
+  showIdsA: string[],
+  showIdsB: string[],
+  showGenres: Record<string, number[]>
+): SharedFavorites {
+  const showIdsBSet = new Set(showIdsB);
+  const genreIdsB = new Set(showIdsB.flatMap((showId) => showGenres[showId] || []));
+  const sharedGenreIds = new Set(
+    showIdsA.flatMap((showId) => showGenres[showId] || []).filter((genreId) => genreIdsB.has(genreId))
+  );
+
+  return {
+    commonShowIds: showIdsA.filter((showId) => showIdsBSet.has(showId)),
+    sharedGenreIds: Array.from(sharedGenreIds).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Profile fields as they are copied onto the other user's match entry
+ * @param {MatchProfile} profile The matched user's profile
+ * @return {MatchSnapshot} The denormalized snapshot
+ */
+export function getMatchSnapshot(profile: MatchProfile): MatchSnapshot {
+  return {
+    displayName: profile.displayName || "",
+    profilePic: profile.profilePic || "",
+    favoriteShowIds: profile.favoriteShows || [],
+    age: profile.age || "",
+    gender: profile.gender || "",
+    location: profile.location || "",
+  };
+}
+
+/**
+ * Compares two versions of a profile and returns the snapshot fields that changed
+ * @param {MatchProfile | undefined} before The profile before the edit
+ * @param {MatchProfile | undefined} after The profile after the edit
+ * @return {Partial<MatchSnapshot> | null} The changed fields, or null if nothing denormalized changed
+ */
+export function getChangedSnapshotFields(
+  before: MatchProfile | undefined,
+  after: MatchProfile | undefined
+): Partial<MatchSnapshot> | null {
+  if (!after) return null;
+
+  const previous = getMatchSnapshot(before || {});
+  const next = getMatchSnapshot(after);
+  const changes: Partial<MatchSnapshot> = {};
+  let changed = false;
+
+  (Object.keys(next) as (keyof MatchSnapshot)[]).forEach((field) => {
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      Object.assign(changes, {[field]: next[field]});
+      changed = true;
+    }
+  });
+
+  return changed ? changes : null;
+}
+
+/**
+ * Turns a pair found by a search into a suggestion awaiting a decision
+ * @param {MatchData} match The entry describing the other user
+ * @return {MatchCandidate} The candidate entry
+ */
+export function toCandidate<TTimestamp>(match: MatchData<TTimestamp>): MatchCandidate<TTimestamp> {
+  const {matchTimestamp, chattingWith, ...candidate} = match;
+  return {...candidate, suggestedAt: matchTimestamp, decision: null};
+}
+
+/**
+ * Turns an accepted suggestion into a match entry
+ * @param {MatchCandidate} candidate The candidate entry describing the other user
+ * @param {TTimestamp} matchTimestamp When both sides had liked each other
+ * @return {MatchData} The match entry
+ */
+export function toMatch<TTimestamp>(candidate: MatchCandidate<TTimestamp>, matchTimestamp: TTimestamp): MatchData<TTimestamp> {
+  const {suggestedAt, decision, decidedAt, ...match} = candidate;
+  return {...match, matchTimestamp, chattingWith: false};
+}
+
+/**
+ * Works out what a response to a suggestion leads to
+ * @param {CandidateDecision} decision The responding user's decision
+ * @param {CandidateDecision | null | undefined} otherDecision The other side's decision so far
+ * @return {PairOutcome} A match once both liked, a pass if either passed, otherwise waiting
+ */
+export function getPairOutcome(
+  decision: CandidateDecision,
+  otherDecision: CandidateDecision | null | undefined
+): PairOutcome {
+  if (decision === "pass" || otherDecision === "pass") return "pass";
+  return otherDecision === "like" ? "match" : "waiting";
+}
+
+/**
+ * Works out when an unopened match expires
+ * @param {Date} matchedAt When the match was created
+ * @param {number} expiryDays Days an unopened match lives for
+ * @return {Date} The expiry time
+ */
+export function getMatchExpiresAt(matchedAt: Date, expiryDays: number): Date {
+  return new Date(matchedAt.getTime() + expiryDays * DAY_MS);
+}
+
+/**
+ * Works out where an unopened match is in its lifecycle
+ * @param {Date} matchedAt When the match was created
+ * @param {Date} now The current time
+ * @param {number} expiryDays Days an unopened match lives for
+ * @return {MatchExpiryStage} Whether to leave the match, warn about it or expire it
+ */
+export function getMatchExpiryStage(matchedAt: Date, now: Date, expiryDays: number): MatchExpiryStage {
+  const expiresAt = getMatchExpiresAt(matchedAt, expiryDays).getTime();
+  if (now.getTime() >= expiresAt) return "expire";
+  if (now.getTime() >= expiresAt - DAY_MS) return "warn";
+  return "active";
+}
+
+/**
+ * Checks whether the searching user can look for matches at all
+ * @param {MatchProfile | undefined} profile The searching user's profile
+ * @param {string[]} favoriteShowIds The searching user's favorite shows
+ * @return {string | null} A message explaining what's missing, or null if the search can run
+ */
+export function getSearchBlocker(
+  profile: MatchProfile | undefined,
+  favoriteShowIds: string[]
+): string | null {
+  if (!profile || !profile.displayName || !profile.age || !profile.gender) {
+    return "Please complete your profile before searching for matches.";
+  }
+  if (favoriteShowIds.length === 0) {
+    return "Add some favorite shows first to find matches!";
+  }
+  return null;
+}
+
+/**
+ * Groups the users found through the searcher's favorite shows, recording the
+ * audience size of every show each of them shares with the searcher
+ * @param {MatchSearchInput} input The search input (only user, matches and shows are read)
+ * @return {Map<string, number[]>} Shared-show audience sizes keyed by candidate ID
+ */
+function getSharedShowAudiences(
+  input: Pick<MatchSearchInput, "userId" | "profile" | "favoriteShowIds" | "existingMatchIds" | "suppressedUserIds" | "shows">
+): Map<string, number[]> {
+  const existingMatchIds = new Set(input.existingMatchIds);
+  const suppressedUserIds = new Set(input.suppressedUserIds);
+  const blockedUsers = new Set(input.profile.blockedUsers || []);
+  const audiences = new Map<string, number[]>();
+
+  for (const showId of input.favoriteShowIds) {
+    const userIds = input.shows[showId]?.users || [];
+    for (const candidateId of userIds) {
+      if (candidateId === input.userId || existingMatchIds.has(candidateId) ||
+          suppressedUserIds.has(candidateId) || blockedUsers.has(candidateId)) {
+        continue;
+      }
+      const sharedAudiences = audiences.get(candidateId) || [];
+      sharedAudiences.push(userIds.length);
+      audiences.set(candidateId, sharedAudiences);
+    }
+  }
+
+  return audiences;
+}
+
+/**
+ * Lists the users whose profiles are worth fetching for a search
+ * @param {MatchSearchInput} input The search input (only user, matches and shows are read)
+ * @return {string[]} Candidate user IDs that could reach the match threshold
+ */
+export function collectCandidateIds(
+  input: Pick<MatchSearchInput, "userId" | "profile" | "favoriteShowIds" | "existingMatchIds" | "suppressedUserIds" | "shows">
+): string[] {
+  const audiences = getSharedShowAudiences(input);
+  return Array.from(audiences.keys())
+    .filter((candidateId) => canReachMatchThreshold(audiences.get(candidateId) || []));
+}
+
+/**
+ * Checks whether an age falls within someone's accepted age range
+ * @param {MatchProfile} seeker The profile whose age range is applied
+ * @param {number | string | undefined} age The other user's age
+ * @return {boolean} True if the age is accepted
+ */
+export function isAgeAccepted(seeker: MatchProfile, age: number | string | undefined): boolean {
+  const minAge = seeker.matchAgeMin ?? null;
+  const maxAge = seeker.matchAgeMax ?? null;
+  if (minAge === null && maxAge === null) {
+    return true;
+  }
+
+  // Ages are stored as strings by the registration form
+  const numericAge = Number(age);
+  if (age === undefined || age === "" || !Number.isFinite(numericAge)) {
+    return false;
+  }
+
+  return (minAge === null || numericAge >= minAge) && (maxAge === null || numericAge <= maxAge);
+}
+
+/**
+ * Checks that a stored location holds usable coordinates
+ * @param {CoarseLocation | null | undefined} location The stored location
+ * @return {boolean} True if both coordinates are finite numbers
+ */
+function hasCoordinates(location: CoarseLocation | null | undefined): location is CoarseLocation {
+  return !!location && Number.isFinite(location.latitude) && Number.isFinite(location.longitude);
+}
+
+/**
+ * Great-circle distance between two locations (haversine formula)
+ * @param {CoarseLocation} from The first location
+ * @param {CoarseLocation} to The second location
+ * @return {number} The distance in kilometres
+ */
+export function getDistanceKm(from: CoarseLocation, to: CoarseLocation): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Checks whether someone is close enough for a seeker who wants local matches.
+ * Uses the distance between coarse locations when both users have one and
+ * falls back to comparing countries otherwise.
+ * @param {MatchProfile} seeker The profile whose location preference is applied
+ * @param {MatchProfile} other The other user's profile
+ * @return {boolean} True if the other user is accepted
+ */
+export function isLocationAccepted(seeker: MatchProfile, other: MatchProfile): boolean {
+  if ((seeker.matchLocation || "worldwide") !== "local") {
+    return true;
+  }
+
+  if (hasCoordinates(seeker.coarseLocation) && hasCoordinates(other.coarseLocation)) {
+    const maxDistanceKm = seeker.matchDistanceKm || DEFAULT_MATCH_DISTANCE_KM;
+    return getDistanceKm(seeker.coarseLocation, other.coarseLocation) <= maxDistanceKm;
+  }
+
+  return (seeker.location || "") === (other.location || "");
+}
+
+/**
+ * Checks that two users fit each other's gender, age and location preferences
+ * @param {MatchProfile} profile The searching user's profile
+ * @param {MatchProfile} candidate The candidate's profile
+ * @return {boolean} True if both sides' preferences are satisfied
+ */
+export function arePreferencesMutual(profile: MatchProfile, candidate: MatchProfile): boolean {
+  const userGenderPreference = profile.matchWith || "everyone";
+  const userGender = profile.gender || "";
+  const preferredGender = candidate.matchWith || "everyone";
+
+  const genderMatch = (userGenderPreference === "everyone" || userGenderPreference === candidate.gender) &&
+                      (preferredGender === "everyone" || preferredGender === userGender);
+
+  const ageMatch = isAgeAccepted(profile, candidate.age) && isAgeAccepted(candidate, profile.age);
+
+  const locationMatch = isLocationAccepted(profile, candidate) && isLocationAccepted(candidate, profile);
+
+  return genderMatch && ageMatch && locationMatch;
+}
+
+/**
+ * Runs the matching rules over the fetched candidate profiles
+ * @param {MatchSearchInput} input Everything the search needs to know
+ * @return {MatchSearchResult} The new matches and the writes for both sides
+ */
+export function runMatchSearch(input: MatchSearchInput): MatchSearchResult {
+  const {userId, profile, favoriteShowIds, now} = input;
+  const audiences = getSharedShowAudiences(input);
+
+  const userGenreIds = new Set<number>();
+  favoriteShowIds.forEach((showId) => {
+    (input.shows[showId]?.genreIds || []).forEach((genreId) => userGenreIds.add(genreId));
+  });
+
+  // Genres of both sides' favorites, for the shared favorites stored on each match
+  const genresByShow: Record<string, number[]> = {...input.showGenres};
+  favoriteShowIds.forEach((showId) => {
+    genresByShow[showId] = input.shows[showId]?.genreIds || genresByShow[showId] || [];
+  });
+
+  const matchWrites: MatchWrite[] = [];
+
+  for (const candidate of input.candidates) {
+    const candidateProfile = candidate.profile;
+    const sharedAudiences = audiences.get(candidate.userId);
+
+    // Skip users who were never candidates, e.g. already matched or blocked by the searcher
+    if (!sharedAudiences) continue;
+
+    // Skip if profile is incomplete
+    if (!candidateProfile.displayName || !candidateProfile.gender) continue;
+
+    // Check if potential match has blocked current user
+    if ((candidateProfile.blockedUsers || []).includes(userId)) continue;
+
+    if (!arePreferencesMutual(profile, candidateProfile)) continue;
+
+    const candidateFavoriteShowIds = candidateProfile.favoriteShows || [];
+    const candidateGenreIds = candidateFavoriteShowIds.flatMap((showId) => input.showGenres[showId] || []);
+
+    // Score the pair and derive the match level from the score bands
+    const {score, breakdown} = calculateCompatibility(
+      sharedAudiences,
+      Array.from(userGenreIds),
+      candidateGenreIds
+    );
+    const matchLevel = getMatchLevelForScore(score);
+    if (!matchLevel) continue;
+
+    // Each entry lists the common shows in the order of its owner's favorites
+    const candidateShared = getSharedFavorites(favoriteShowIds, candidateFavoriteShowIds, genresByShow);
+    const searcherShared = getSharedFavorites(candidateFavoriteShowIds, favoriteShowIds, genresByShow);
+
+    matchWrites.push({
+      matchData: {
+        ...getMatchSnapshot(candidateProfile),
+        userId: candidate.userId,
+        matchLevel,
+        matchTimestamp: now,
+        chattingWith: false,
+        compatibilityScore: score,
+        scoreBreakdown: breakdown,
+        ...candidateShared,
+      },
+      otherUserMatchData: {
+        ...getMatchSnapshot(profile),
+        userId,
+        matchLevel,
+        // The favorites this search ran with
+        favoriteShowIds,
+        matchTimestamp: now,
+        chattingWith: false,
+        compatibilityScore: score,
+        scoreBreakdown: breakdown,
+        ...searcherShared,
+      },
+    });
+  }
+
+  // Most compatible matches first
+  matchWrites.sort((a, b) => b.matchData.compatibilityScore - a.matchData.compatibilityScore);
+
+  return {
+    newMatches: matchWrites.map((write) => write.matchData),
+    matchWrites,
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Sending chat messages.
+ *
+ * Messages are stored in `conversations/{id}/messageBatches`, up to
+ * `MESSAGE_BATCH_SIZE` per batch doc. The `sendMessage` callable reads the
+ * conversation in a transaction and uses `planMessageSend` to decide which
+ * batch a message goes into, so two people sending at once can neither both
+ * start a new batch nor overflow the current one. Checking the message and
+ * planning the writes stays pure here; the cloud function adapter runs the
+ * transaction.
+ *
+ * A message is either text or a photo. Photos are uploaded to Cloudinary by
+ * the app, into a folder per conversation (`getChatUploadFolder`), and the
+ * message carries the URL, the dimensions and a blurhash placeholder.
+ */
+
+import {HttpsError} from "firebase-functions/v2/https";
+
+export const MESSAGE_BATCH_SIZE = 20; // Number of messages per batch
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_IMAGE_DIMENSION = 10000; // Pixels, on either side
+export const MAX_BLURHASH_LENGTH = 100;
+
+const BLURHASH_PATTERN = /^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]+$/;
+
+export type MessageType = "text" | "image";
+
+export interface MessageImage {
+  url: string;
+  width: number;
+  height: number;
+  blurhash: string | null; // Placeholder shown while the photo loads
+}
+
+// What a message says, checked before it's stored
+export interface MessageContent {
+  type: MessageType;
+  text: string; // A photo's caption, possibly empty
+  image?: MessageImage;
+}
+
+// The conversation fields sending a message depends on
+export interface ConversationState {
+  participants: string[];
+  participantNames?: Record<string, string>;
+  currentBatchId?: string | null;
+  messageCount?: number;
+}
+
+export interface ChatMessage<TTimestamp> {
+  id: string;
+  type: MessageType;
+  text: string;
+  image?: MessageImage;
+  senderId: string;
+  senderName: string;
+  timestamp: TTimestamp;
+  read?: boolean; // Only on older messages. Read state is kept on the conversation, see readReceipts.ts
+}
+
+export interface MessageSendPlan<TTimestamp> {
+  batchId: string;
+  isNewBatch: boolean; // Whether the batch doc has to be created
+  message: ChatMessage<TTimestamp>;
+  recipientIds: string[];
+  messageCount: number; // The conversation's count after this message
+}
+
+/**
+ * The Cloudinary folder a conversation's photos are uploaded to
+ * @param {string} conversationId The conversation's ID
+ * @return {string} The folder name
+ */
+export function getChatUploadFolder(conversationId: string): string {
+  return `mio_app_chats/${conversationId}`;
+}
+
+/**
+ * Checks a message's text before it's stored
+ * @param {unknown} text The text sent by the app
+ * @return {string} The trimmed text
+ */
+export function validateMessageText(text: unknown): string {
+  if (typeof text !== "string" || !text.trim()) {
+    throw new HttpsError("invalid-argument", "A message can't be empty.");
+  }
+  const trimmed = text.trim();
+  if (trimmed.length > MAX_MESSAGE_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Messages can be at most ${MAX_MESSAGE_LENGTH} characters long.`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Checks a photo sent with a message. It has to be a Cloudinary upload in the
+ * conversation's own folder, so messages can't point at arbitrary URLs.
+ * @param {unknown} image The image metadata sent by the app
+ * @param {string} conversationId The conversation the message is sent in
+ * @param {string | undefined} cloudName The Cloudinary cloud uploads go to, if configured
+ * @return {MessageImage} The image to store
+ */
+export function validateMessageImage(image: unknown, conversationId: string, cloudName?: string): MessageImage {
+  const {url, width, height, blurhash} = (image || {}) as Record<string, unknown>;
+
+  const uploadPrefix = cloudName ? `https://res.cloudinary.com/${cloudName}/image/upload/` : "https://res.cloudinary.com/";
+  if (
+    typeof url !== "string" ||
+    !url.startsWith(uploadPrefix) ||
+    !url.includes(`/${getChatUploadFolder(conversationId)}/`)
+  ) {
+    throw new HttpsError("invalid-argument", "The photo has to be uploaded to this conversation.");
+  }
+
+  const isDimension = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value > 0 && value <= MAX_IMAGE_DIMENSION;
+  if (!isDimension(width) || !isDimension(height)) {
+    throw new HttpsError("invalid-argument", "The photo's width and height are required.");
+  }
+
+  if (
+    blurhash !== undefined && blurhash !== null &&
+    (typeof blurhash !== "string" || blurhash.length > MAX_BLURHASH_LENGTH || !BLURHASH_PATTERN.test(blurhash))
+  ) {
+    throw new HttpsError("invalid-argument", "The photo's placeholder isn't a valid blurhash.");
+  }
+
+  return {url, width, height, blurhash: typeof blurhash === "string" ? blurhash : null};
+}
+
+/**
+ * Checks what a message says before it's stored: text for text messages, or
+ * a photo with an optional caption
+ * @param {{type?: unknown, text?: unknown, image?: unknown}} data The message sent by the app
+ * @param {string} conversationId The conversation the message is sent in
+ * @param {string | undefined} cloudName The Cloudinary cloud uploads go to, if configured
+ * @return {MessageContent} The checked content
+ */
+export function validateMessageContent(
+  data: {type?: unknown; text?: unknown; image?: unknown},
+  conversationId: string,
+  cloudName?: string
+): MessageContent {
+  const type = data.type ?? "text";
+  if (type === "text") {
+    return {type, text: validateMessageText(data.text)};
+  }
+  if (type !== "image") {
+    throw new HttpsError("invalid-argument", "Unknown message type.");
+  }
+
+  const hasCaption = typeof data.text === "string" && data.text.trim() !== "";
+  return {
+    type,
+    text: hasCaption ? validateMessageText(data.text) : "",
+    image: validateMessageImage(data.image, conversationId, cloudName),
+  };
+}
+
+/**
+ * The text shown for a message outside the chat, in the inbox and in pushes
+ * @param {{type?: MessageType, text?: string}} message A stored message
+ * @return {string} The text, or a photo label with the caption
+ */
+export function getMessagePreview(message: {type?: MessageType; text?: string}): string {
+  if (message.type === "image") {
+    return message.text ? `📷 ${message.text}` : "📷 Photo";
+  }
+  return message.text || "";
+}
+
+/**
+ * Fills in the fields messages stored before photos were supported lack, so
+ * readers of the message batches and archives can rely on `type`
+ * @param {Partial<ChatMessage<TTimestamp>>} message A stored message
+ * @return {ChatMessage<TTimestamp>} The message with a type and text
+ */
+export function normalizeMessage<TTimestamp>(message: Partial<ChatMessage<TTimestamp>>): ChatMessage<TTimestamp> {
+  return {
+    ...message,
+    type: message.type || "text",
+    text: message.text || "",
+  } as ChatMessage<TTimestamp>;
+}
+
+/**
+ * Works out where a new message goes, based on the conversation as read in
+ * the sending transaction. A new batch is started for the first message and
+ * whenever the current one is full.
+ * @param {ConversationState} conversation The conversation as read in the transaction
+ * @param {string} senderId The sending user's ID
+ * @param {MessageContent} content Content from `validateMessageContent`
+ * @param {TTimestamp} timestamp When the server received the message
+ * @param {{batchId: string, messageId: string}} newIds Fresh IDs for the message and a possible new batch
+ * @return {MessageSendPlan<TTimestamp>} The message to store and where to store it
+ */
+export function planMessageSend<TTimestamp>(
+  conversation: ConversationState,
+  senderId: string,
+  content: MessageContent,
+  timestamp: TTimestamp,
+  newIds: {batchId: string; messageId: string}
+): MessageSendPlan<TTimestamp> {
+  if (!conversation.participants.includes(senderId)) {
+    throw new HttpsError("permission-denied", "You're not part of this conversation.");
+  }
+
+  const messageCount = conversation.messageCount || 0;
+  const isNewBatch = !conversation.currentBatchId || messageCount % MESSAGE_BATCH_SIZE === 0;
+
+  return {
+    batchId: isNewBatch ? newIds.batchId : conversation.currentBatchId as string,
+    isNewBatch,
+    message: {
+      id: newIds.messageId,
+      type: content.type,
+      text: content.text,
+      ...(content.image ? {image: content.image} : {}),
+      senderId,
+      senderName: conversation.participantNames?.[senderId] || "",
+      timestamp,
+    },
+    recipientIds: conversation.participants.filter((id) => id !== senderId),
+    messageCount: messageCount + 1,
+  };
+}
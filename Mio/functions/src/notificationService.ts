@@ -1,9 +1,10 @@
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
-import { Expo, ExpoPushMessage } from "expo-server-sdk";
+import { Expo, ExpoPushMessage, ExpoPushTicket } from "expo-server-sdk";
+import { decidePush, NotificationCategory, normalizeNotificationSettings } from "./notificationSettings";
 
 // Initialize Expo SDK
-const expo = new Expo();
+export const expo = new Expo();
 
 /**
  * Sends push notifications to a list of users
@@ -11,13 +12,17 @@ const expo = new Expo();
  * @param title - Notification title
  * @param body - Notification body
  * @param data - Optional data to send with the notification
+ * @param badge - Optional app icon badge count
+ * @param recipientId - The user the tokens belong to, kept with the tickets so they go with the account
  * @returns Promise that resolves when notifications are sent
  */
 export async function sendPushNotifications(
   tokens: string[],
   title: string,
   body: string,
-  data: Record<string, any> = {}
+  data: Record<string, any> = {},
+  badge?: number,
+  recipientId?: string
 ): Promise<void> {
   // Filter out invalid tokens
   const validTokens = tokens.filter((token) => 
@@ -36,6 +41,7 @@ export async function sendPushNotifications(
     title,
     body,
     data,
+    badge,
   }));
 
   // Chunk messages to avoid Expo rate limits
@@ -47,6 +53,9 @@ export async function sendPushNotifications(
       const ticketChunk = await expo.sendPushNotificationsAsync(chunk);
       functions.logger.info("Push notification sent", { ticketChunk });
       
+      // Keep the ticket IDs so delivery can be verified once receipts are ready
+      await storePushTickets(ticketChunk, chunk, String(data.type || "unknown"), recipientId);
+      
       // Process tickets to handle errors or other statuses
       ticketChunk.forEach((ticket, index) => {
         if (ticket.status === "error") {
@@ -70,37 +79,289 @@ export async function sendPushNotifications(
 }
 
 /**
- * Handles an invalid token by removing it from the user's record
+ * Stores the IDs of successfully queued pushes in `pushTickets` for the receipt check
+ * @param tickets - Tickets returned by Expo for a chunk of messages
+ * @param messages - The messages in that chunk, in the same order
+ * @param type - The notification type the messages were sent as
+ * @param recipientId - The user the messages went to, if known
+ */
+async function storePushTickets(
+  tickets: ExpoPushTicket[],
+  messages: ExpoPushMessage[],
+  type: string,
+  recipientId?: string
+): Promise<void> {
+  try {
+    const db = admin.firestore();
+    const batch = db.batch();
+    let stored = 0;
+    
+    tickets.forEach((ticket, index) => {
+      if (ticket.status !== "ok") return;
+      batch.set(db.collection("pushTickets").doc(ticket.id), {
+        token: messages[index].to,
+        type,
+        ...(recipientId && { userId: recipientId }),
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      stored++;
+    });
+    
+    if (stored > 0) {
+      await batch.commit();
+    }
+  } catch (error) {
+    functions.logger.error("Error storing push tickets", error);
+  }
+}
+
+/**
+ * Handles an invalid token by removing the device it belongs to
+ * Other devices of the same user are left alone
  * @param token - The invalid Expo push token
  */
-async function handleInvalidToken(token: string): Promise<void> {
+export async function handleInvalidToken(token: string): Promise<void> {
   try {
     const db = admin.firestore();
     
-    // Find user with this token
+    // Find the device docs registered with this token
+    const devicesSnapshot = await db
+      .collectionGroup("pushTokens")
+      .where("token", "==", token)
+      .get();
+    
+    await Promise.all(devicesSnapshot.docs.map((deviceDoc) => deviceDoc.ref.delete()));
+    
+    // Also clear the single token stored by app versions from before device tracking
     const usersSnapshot = await db
       .collection("users")
       .where("profile.pushToken", "==", token)
-      .limit(1)
       .get();
     
-    if (usersSnapshot.empty) {
-      functions.logger.info("No user found with invalid token", { token });
+    await Promise.all(usersSnapshot.docs.map((userDoc) => userDoc.ref.update({
+      "profile.pushToken": null
+    })));
+    
+    if (devicesSnapshot.empty && usersSnapshot.empty) {
+      functions.logger.info("No device found with invalid token", { token });
       return;
     }
     
-    // Remove token from user's profile
-    const userDoc = usersSnapshot.docs[0];
-    await userDoc.ref.update({
-      "profile.pushToken": null
+    functions.logger.info("Removed invalid token", {
+      devices: devicesSnapshot.docs.map((deviceDoc) => deviceDoc.ref.path)
     });
-    
-    functions.logger.info("Removed invalid token from user", { userId: userDoc.id });
   } catch (error) {
     functions.logger.error("Error handling invalid token", error);
   }
 }
 
+// Devices that haven't opened the app for this long are skipped
+const PUSH_TOKEN_MAX_AGE_MS = 60 * 24 * 60 * 60 * 1000;
+
+/**
+ * Collects the push tokens of all of a user's recently active devices
+ * @param userId - The user to look up
+ * @param legacyToken - The `profile.pushToken` stored by older app versions, if any
+ * @returns The unique push tokens
+ */
+export async function getUserPushTokens(
+  userId: string,
+  legacyToken?: string | null
+): Promise<string[]> {
+  const devicesSnapshot = await admin.firestore()
+    .collection("users")
+    .doc(userId)
+    .collection("pushTokens")
+    .get();
+  
+  const now = Date.now();
+  const tokens = new Set<string>();
+  devicesSnapshot.forEach((deviceDoc) => {
+    const { token, lastSeenAt } = deviceDoc.data();
+    if (!token) return;
+    if (lastSeenAt && now - lastSeenAt.toMillis() > PUSH_TOKEN_MAX_AGE_MS) return;
+    tokens.add(token);
+  });
+  
+  if (legacyToken) {
+    tokens.add(legacyToken);
+  }
+  
+  return Array.from(tokens);
+}
+
+// What a push shows and carries, also kept while a push is deferred
+export interface PushContent {
+  title: string;
+  body: string;
+  data: Record<string, any>;
+}
+
+// Entry in a user's in-app activity feed, stored in `users/{uid}/notifications`
+export interface Activity extends PushContent {
+  type: "match" | "matchExpiring" | "message" | "announcement";
+}
+
+/**
+ * Adds an unread entry to a user's activity feed
+ * @param recipientId - User ID of the recipient
+ * @param activity - The entry to add
+ * @param activityId - Optional fixed doc ID, so a newer entry replaces an older one
+ */
+export async function recordActivity(
+  recipientId: string,
+  activity: Activity,
+  activityId?: string
+): Promise<void> {
+  try {
+    const notificationsRef = admin.firestore()
+      .collection("users")
+      .doc(recipientId)
+      .collection("notifications");
+    const activityRef = activityId ? notificationsRef.doc(activityId) : notificationsRef.doc();
+    
+    await activityRef.set({
+      ...activity,
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  } catch (error) {
+    functions.logger.error("Error recording activity", { recipientId, error });
+  }
+}
+
+/**
+ * Counts a user's unread activity entries, used as the app icon badge
+ * @param recipientId - The user to count for
+ * @returns The unread count, or undefined if it couldn't be counted
+ */
+export async function getUnreadActivityCount(recipientId: string): Promise<number | undefined> {
+  try {
+    const countSnapshot = await admin.firestore()
+      .collection("users")
+      .doc(recipientId)
+      .collection("notifications")
+      .where("read", "==", false)
+      .count()
+      .get();
+    return countSnapshot.data().count;
+  } catch (error) {
+    functions.logger.error("Error counting unread activity", { recipientId, error });
+    return undefined;
+  }
+}
+
+/**
+ * Holds a push until the recipient's quiet hours end. Pushes deferred for the
+ * same user are collected on one doc in `deferredPushes`
+ * @param recipientId - User ID of the recipient
+ * @param push - The push to send later
+ * @param sendAfter - When quiet hours end, in milliseconds
+ */
+async function deferPush(recipientId: string, push: PushContent, sendAfter: number): Promise<void> {
+  await admin.firestore().collection("deferredPushes").doc(recipientId).set({
+    pushes: admin.firestore.FieldValue.arrayUnion(push),
+    sendAfter: admin.firestore.Timestamp.fromMillis(sendAfter)
+  }, { merge: true });
+  
+  functions.logger.info("Push deferred until quiet hours end", {
+    recipientId,
+    sendAfter: new Date(sendAfter).toISOString()
+  });
+}
+
+/**
+ * Sends a push to all of a user's devices, unless their notification settings
+ * turn it off or their quiet hours defer it
+ * @param recipientId - User ID of the recipient
+ * @param recipientData - The recipient's user document
+ * @param category - The kind of push, checked against the recipient's settings
+ * @param push - The push to send
+ * @param beforeSend - Optional last check right before sending; resolving to false cancels the push
+ * @returns True if the push was sent
+ */
+async function deliverPush(
+  recipientId: string,
+  recipientData: admin.firestore.DocumentData | undefined,
+  category: NotificationCategory,
+  push: PushContent,
+  beforeSend?: () => Promise<boolean>
+): Promise<boolean> {
+  const settings = normalizeNotificationSettings(recipientData?.profile?.notificationSettings);
+  const decision = decidePush(settings, category, Date.now());
+  
+  if (decision.action === "skip") {
+    functions.logger.info("Push skipped by notification settings", {
+      recipientId,
+      category,
+      reason: decision.reason
+    });
+    return false;
+  }
+  
+  if (decision.action === "defer") {
+    await deferPush(recipientId, push, decision.sendAfter);
+    return false;
+  }
+  
+  const tokens = await getUserPushTokens(recipientId, recipientData?.profile?.pushToken);
+  if (tokens.length === 0) {
+    functions.logger.info("Recipient has no push token", { recipientId });
+    return false;
+  }
+  
+  if (beforeSend && !(await beforeSend())) {
+    return false;
+  }
+  
+  await sendPushNotifications(
+    tokens, push.title, push.body, push.data, await getUnreadActivityCount(recipientId), recipientId
+  );
+  return true;
+}
+
+/**
+ * Combines the pushes held during quiet hours into the one to send
+ * @param pushes - The deferred pushes, oldest first
+ * @returns The single push as is, or a summary pointing to the activity feed
+ */
+export function getDeferredPushContent(pushes: PushContent[]): PushContent {
+  if (pushes.length === 1) {
+    return pushes[0];
+  }
+  return {
+    title: "While you were away",
+    body: `You have ${pushes.length} new notifications`,
+    data: { type: "activity" }
+  };
+}
+
+/**
+ * Sends the pushes held for a user once their quiet hours are over
+ * @param recipientId - User ID of the recipient
+ * @param pushes - The deferred pushes, oldest first
+ */
+export async function sendDeferredPushes(recipientId: string, pushes: PushContent[]): Promise<void> {
+  try {
+    if (pushes.length === 0) return;
+    
+    const recipientDoc = await admin.firestore().collection("users").doc(recipientId).get();
+    if (!recipientDoc.exists) return;
+    
+    const tokens = await getUserPushTokens(recipientId, recipientDoc.data()?.profile?.pushToken);
+    if (tokens.length === 0) return;
+    
+    const push = getDeferredPushContent(pushes);
+    await sendPushNotifications(
+      tokens, push.title, push.body, push.data, await getUnreadActivityCount(recipientId), recipientId
+    );
+    
+    functions.logger.info("Deferred pushes sent", { recipientId, count: pushes.length });
+  } catch (error) {
+    functions.logger.error("Error sending deferred pushes", { recipientId, error });
+  }
+}
+
 /**
  * Sends a match notification to a user
  * @param recipientId - User ID of the recipient
@@ -117,7 +378,7 @@ export async function sendMatchNotification(
   try {
     const db = admin.firestore();
     
-    // Get recipient's push token
+    // Get recipient's notification settings
     const recipientDoc = await db.collection("users").doc(recipientId).get();
     
     if (!recipientDoc.exists) {
@@ -127,35 +388,26 @@ export async function sendMatchNotification(
     
     const recipientData = recipientDoc.data();
     
-    if (!recipientData || !recipientData.profile || !recipientData.profile.pushToken) {
-      functions.logger.info("Recipient has no push token", { recipientId });
-      return;
-    }
-    
-    // Check if user has opted out of match notifications
-    if (recipientData.profile.notificationSettings?.matchNotifications === false) {
-      functions.logger.info("Recipient has opted out of match notifications", { recipientId });
-      return;
-    }
-    
-    const token = recipientData.profile.pushToken;
-    
     // Create notification message
     const isSuper = matchLevel === "superMatch";
     const title = isSuper ? "New Super Match! 🌟" : "New Match! 🎉";
     const body = `You matched with ${matchingUserName}! ${isSuper ? "You have a lot in common!" : ""}`;
+    const data = {
+      type: "match",
+      matchId: matchingUserId,
+      matchLevel
+    };
+    
+    // The activity feed is kept even when pushes are turned off
+    await recordActivity(recipientId, { type: "match", title, body, data });
     
     // Send the notification
-    await sendPushNotifications(
-      [token],
+    const sent = await deliverPush(recipientId, recipientData, isSuper ? "superMatches" : "matches", {
       title,
       body,
-      {
-        type: "match",
-        matchId: matchingUserId,
-        matchLevel
-      }
-    );
+      data
+    });
+    if (!sent) return;
     
     // Log notification sent
     functions.logger.info("Match notification sent", {
@@ -167,3 +419,255 @@ export async function sendMatchNotification(
     functions.logger.error("Error sending match notification", error);
   }
 }
+
+/**
+ * Warns a user that an unopened match is about to expire
+ * @param recipientId - User ID of the recipient
+ * @param matchedUserId - User ID of the other side of the match
+ * @param matchedUserName - Display name of the other side of the match
+ */
+export async function sendMatchExpiryNotification(
+  recipientId: string,
+  matchedUserId: string,
+  matchedUserName: string
+): Promise<void> {
+  try {
+    const db = admin.firestore();
+    
+    // Get recipient's notification settings
+    const recipientDoc = await db.collection("users").doc(recipientId).get();
+    const recipientData = recipientDoc.data();
+    
+    const title = "Your match is expiring ⏳";
+    const body = `Say hi to ${matchedUserName} before your match expires tomorrow!`;
+    const data = {
+      type: "matchExpiring",
+      matchId: matchedUserId
+    };
+    
+    await recordActivity(recipientId, { type: "matchExpiring", title, body, data });
+    
+    const sent = await deliverPush(recipientId, recipientData, "matchExpiry", { title, body, data });
+    if (!sent) return;
+    
+    functions.logger.info("Match expiry notification sent", {
+      recipientId,
+      matchedUserId
+    });
+  } catch (error) {
+    functions.logger.error("Error sending match expiry notification", error);
+  }
+}
+
+// A chat open within this window counts as "currently viewing" it
+const ACTIVE_CONVERSATION_TTL_MS = 10 * 60 * 1000;
+// Further messages within this window of a push don't trigger another one
+export const MESSAGE_PUSH_COLLAPSE_MS = 60 * 1000;
+
+/**
+ * Checks whether the recipient has a conversation open right now
+ * @param activeConversation - The `activeConversation` marker on the recipient's user document
+ * @param conversationId - The conversation the message was sent in
+ * @param now - The current time in milliseconds
+ * @returns True if the recipient is viewing that conversation
+ */
+export function isViewingConversation(
+  activeConversation: { id?: string; updatedAt?: admin.firestore.Timestamp } | null | undefined,
+  conversationId: string,
+  now: number
+): boolean {
+  if (!activeConversation || activeConversation.id !== conversationId || !activeConversation.updatedAt) {
+    return false;
+  }
+  return now - activeConversation.updatedAt.toMillis() < ACTIVE_CONVERSATION_TTL_MS;
+}
+
+// Messages held back by the push throttle, stored on the conversation's `messagePushes` doc
+// and sent as one summary push once the collapse window closes
+export interface PendingMessagePush {
+  recipientId: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  count: number;
+  lastText: string;
+}
+
+/**
+ * Builds the push text for one or more new messages
+ * @param senderName - Display name of the sender
+ * @param messageTexts - Texts of the new messages, oldest first
+ * @param messageCount - How many messages the push covers, if more than the texts given
+ * @returns The notification title and body
+ */
+export function getMessagePushContent(
+  senderName: string,
+  messageTexts: string[],
+  messageCount: number = messageTexts.length
+): { title: string; body: string } {
+  if (messageCount === 1) {
+    const text = messageTexts[messageTexts.length - 1];
+    return { title: senderName, body: text.length > 100 ? `${text.slice(0, 97)}...` : text };
+  }
+  return { title: senderName, body: `Sent you ${messageCount} new messages` };
+}
+
+/**
+ * Checks whether a message push falls into the collapse window of the last one
+ * @param lastSentAt - When the last push for the conversation went out, in milliseconds
+ * @param now - The current time in milliseconds
+ * @returns When the window closes, or null if the push can go out right away
+ */
+export function getMessagePushCollapsedUntil(lastSentAt: number | undefined, now: number): number | null {
+  if (lastSentAt === undefined || now - lastSentAt >= MESSAGE_PUSH_COLLAPSE_MS) {
+    return null;
+  }
+  return lastSentAt + MESSAGE_PUSH_COLLAPSE_MS;
+}
+
+/**
+ * Sends a new message notification, collapsing rapid bursts into a single push
+ * @param recipientId - User ID of the recipient
+ * @param conversationId - The conversation the messages were sent in
+ * @param senderId - User ID of the sender
+ * @param senderName - Display name of the sender
+ * @param messageTexts - Texts of the new messages, oldest first
+ */
+export async function sendMessageNotification(
+  recipientId: string,
+  conversationId: string,
+  senderId: string,
+  senderName: string,
+  messageTexts: string[]
+): Promise<void> {
+  try {
+    const db = admin.firestore();
+    const now = Date.now();
+    
+    // Get recipient's notification settings
+    const recipientDoc = await db.collection("users").doc(recipientId).get();
+    const recipientData = recipientDoc.data();
+    
+    if (isViewingConversation(recipientData?.activeConversation, conversationId, now)) {
+      functions.logger.info("Recipient is viewing the conversation", { recipientId, conversationId });
+      return;
+    }
+    
+    const { title, body } = getMessagePushContent(senderName, messageTexts);
+    const data = {
+      type: "message",
+      conversationId,
+      senderId
+    };
+    
+    // One feed entry per conversation, replaced by the latest messages
+    await recordActivity(recipientId, { type: "message", title, body, data }, `message_${conversationId}`);
+    
+    // Only one push per conversation and recipient within the collapse window.
+    // Messages arriving inside it are held for one summary push when it closes
+    const pushStateRef = db.collection("messagePushes").doc(`${conversationId}_${recipientId}`);
+    const claimPushSlot = async () => {
+      const isCollapsed = await db.runTransaction(async (transaction) => {
+        const pushStateDoc = await transaction.get(pushStateRef);
+        const lastSentAt: admin.firestore.Timestamp | undefined = pushStateDoc.data()?.lastSentAt;
+        const collapsedUntil = getMessagePushCollapsedUntil(lastSentAt?.toMillis(), now);
+        if (collapsedUntil !== null) {
+          transaction.set(pushStateRef, {
+            recipientId,
+            conversationId,
+            senderId,
+            senderName,
+            pendingCount: admin.firestore.FieldValue.increment(messageTexts.length),
+            pendingText: messageTexts[messageTexts.length - 1],
+            summaryDueAt: admin.firestore.Timestamp.fromMillis(collapsedUntil)
+          }, { merge: true });
+          return true;
+        }
+        transaction.set(pushStateRef, {
+          lastSentAt: admin.firestore.Timestamp.fromMillis(now)
+        });
+        return false;
+      });
+      
+      if (isCollapsed) {
+        functions.logger.info("Message push held for a summary push", { recipientId, conversationId });
+      }
+      return !isCollapsed;
+    };
+    
+    const sent = await deliverPush(recipientId, recipientData, "messages", { title, body, data }, claimPushSlot);
+    if (!sent) return;
+    
+    functions.logger.info("Message notification sent", {
+      recipientId,
+      conversationId
+    });
+  } catch (error) {
+    functions.logger.error("Error sending message notification", error);
+  }
+}
+
+/**
+ * Sends the one push summing up the messages held back during a collapse window
+ * @param pending - The held messages, taken off their `messagePushes` doc
+ */
+export async function sendMessagePushSummary(pending: PendingMessagePush): Promise<void> {
+  const { recipientId, conversationId, senderId } = pending;
+  try {
+    const recipientDoc = await admin.firestore().collection("users").doc(recipientId).get();
+    if (!recipientDoc.exists) return;
+    const recipientData = recipientDoc.data();
+    
+    if (isViewingConversation(recipientData?.activeConversation, conversationId, Date.now())) {
+      functions.logger.info("Recipient is viewing the conversation", { recipientId, conversationId });
+      return;
+    }
+    
+    const { title, body } = getMessagePushContent(pending.senderName, [pending.lastText], pending.count);
+    const data = {
+      type: "message",
+      conversationId,
+      senderId
+    };
+    
+    const sent = await deliverPush(recipientId, recipientData, "messages", { title, body, data });
+    if (!sent) return;
+    
+    functions.logger.info("Message summary notification sent", {
+      recipientId,
+      conversationId,
+      count: pending.count
+    });
+  } catch (error) {
+    functions.logger.error("Error sending message summary notification", error);
+  }
+}
+
+/**
+ * Delivers an admin announcement to a user's activity feed and devices
+ * @param recipientId - User ID of the recipient
+ * @param recipientData - The recipient's user document
+ * @param announcementId - ID of the announcement in `announcements`
+ * @param title - Announcement title
+ * @param body - Announcement text
+ */
+export async function sendAnnouncementNotification(
+  recipientId: string,
+  recipientData: admin.firestore.DocumentData | undefined,
+  announcementId: string,
+  title: string,
+  body: string
+): Promise<void> {
+  try {
+    const data = {
+      type: "announcement",
+      announcementId
+    };
+    
+    await recordActivity(recipientId, { type: "announcement", title, body, data }, `announcement_${announcementId}`);
+    
+    await deliverPush(recipientId, recipientData, "announcements", { title, body, data });
+  } catch (error) {
+    functions.logger.error("Error sending announcement notification", { recipientId, error });
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Notification preferences.
+ *
+ * Users choose which kinds of pushes they get and can set quiet hours in their
+ * own time zone. Settings are stored on `profile.notificationSettings` and only
+ * written through the `updateNotificationSettings` callable, which validates
+ * them. Anything read back is normalized, so missing fields (including those of
+ * users who never opened the settings screen) fall back to the defaults.
+ */
+
+import {HttpsError} from "firebase-functions/v2/https";
+
+// One toggle per kind of push
+export type NotificationCategory = "matches" | "superMatches" | "messages" | "matchExpiry" | "announcements";
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // Local time as "HH:MM", e.g. "22:00"
+  end: string; // Local time as "HH:MM"; earlier than start means quiet hours span midnight
+  timeZone: string; // IANA time zone, e.g. "Europe/Berlin"
+}
+
+export interface NotificationSettings {
+  matchNotifications: boolean;
+  superMatchNotifications: boolean;
+  messageNotifications: boolean;
+  matchExpiryNotifications: boolean;
+  announcementNotifications: boolean;
+  quietHours: QuietHours;
+}
+
+// The settings field behind each category
+export const CATEGORY_SETTINGS: Record<NotificationCategory, keyof Omit<NotificationSettings, "quietHours">> = {
+  matches: "matchNotifications",
+  superMatches: "superMatchNotifications",
+  messages: "messageNotifications",
+  matchExpiry: "matchExpiryNotifications",
+  announcements: "announcementNotifications",
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  matchNotifications: true,
+  superMatchNotifications: true,
+  messageNotifications: true,
+  matchExpiryNotifications: true,
+  announcementNotifications: true,
+  quietHours: {
+    enabled: false,
+    start: "22:00",
+    end: "08:00",
+    timeZone: "UTC",
+  },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Checks that a time zone name is known to the runtime
+ * @param {string} timeZone The IANA time zone name
+ * @return {boolean} True if dates can be formatted in it
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone});
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Converts an "HH:MM" time to minutes after midnight
+ * @param {string} time The time to convert
+ * @return {number} Minutes after midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Fills in defaults for whatever is missing or malformed in stored settings
+ * @param {unknown} stored The `profile.notificationSettings` value, if any
+ * @return {NotificationSettings} Complete settings
+ */
+export function normalizeNotificationSettings(stored: unknown): NotificationSettings {
+  const raw = (stored && typeof stored === "object" ? stored : {}) as Record<string, any>;
+  const settings: NotificationSettings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    quietHours: {...DEFAULT_NOTIFICATION_SETTINGS.quietHours},
+  };
+
+  for (const field of Object.values(CATEGORY_SETTINGS)) {
+    if (typeof raw[field] === "boolean") {
+      settings[field] = raw[field];
+    }
+  }
+
+  const quietHours = raw.quietHours;
+  if (
+    quietHours && typeof quietHours === "object" &&
+    typeof quietHours.enabled === "boolean" &&
+    TIME_PATTERN.test(quietHours.start) &&
+    TIME_PATTERN.test(quietHours.end) &&
+    typeof quietHours.timeZone === "string" && isValidTimeZone(quietHours.timeZone)
+  ) {
+    settings.quietHours = {
+      enabled: quietHours.enabled && quietHours.start !== quietHours.end,
+      start: quietHours.start,
+      end: quietHours.end,
+      timeZone: quietHours.timeZone,
+    };
+  }
+
+  return settings;
+}
+
+/**
+ * Validates settings sent by the app
+ * @param {unknown} input The callable's request data
+ * @return {NotificationSettings} The settings, ready to store
+ * @throws {HttpsError} invalid-argument if anything is missing or malformed
+ */
+export function validateNotificationSettings(input: unknown): NotificationSettings {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new HttpsError("invalid-argument", "Notification settings must be an object.");
+  }
+  const raw = input as Record<string, any>;
+
+  const allowedFields = [...Object.values(CATEGORY_SETTINGS), "quietHours"];
+  const unknownField = Object.keys(raw).find((field) => !allowedFields.includes(field));
+  if (unknownField) {
+    throw new HttpsError("invalid-argument", `Unknown notification setting: ${unknownField}`);
+  }
+
+  for (const field of Object.values(CATEGORY_SETTINGS)) {
+    if (typeof raw[field] !== "boolean") {
+      throw new HttpsError("invalid-argument", `${field} must be true or false.`);
+    }
+  }
+
+  const quietHours = raw.quietHours;
+  if (!quietHours || typeof quietHours !== "object" || Array.isArray(quietHours)) {
+    throw new HttpsError("invalid-argument", "quietHours must be an object.");
+  }
+  if (typeof quietHours.enabled !== "boolean") {
+    throw new HttpsError("invalid-argument", "quietHours.enabled must be true or false.");
+  }
+  if (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+    throw new HttpsError("invalid-argument", "Quiet hours must start and end at a time formatted as HH:MM.");
+  }
+  if (quietHours.start === quietHours.end) {
+    throw new HttpsError("invalid-argument", "Quiet hours can't start and end at the same time.");
+  }
+  if (typeof quietHours.timeZone !== "string" || !isValidTimeZone(quietHours.timeZone)) {
+    throw new HttpsError("invalid-argument", "quietHours.timeZone must be a valid time zone.");
+  }
+
+  return {
+    matchNotifications: raw.matchNotifications,
+    superMatchNotifications: raw.superMatchNotifications,
+    messageNotifications: raw.messageNotifications,
+    matchExpiryNotifications: raw.matchExpiryNotifications,
+    announcementNotifications: raw.announcementNotifications,
+    quietHours: {
+      enabled: quietHours.enabled,
+      start: quietHours.start,
+      end: quietHours.end,
+      timeZone: quietHours.timeZone,
+    },
+  };
+}
+
+/**
+ * Gets the wall clock time in a time zone
+ * @param {number} now The current time in milliseconds
+ * @param {string} timeZone The IANA time zone name
+ * @return {number} Minutes after local midnight
+ */
+function getLocalMinutes(now: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const hours = Number(parts.find((part) => part.type === "hour")?.value);
+  const minutes = Number(parts.find((part) => part.type === "minute")?.value);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Works out when the current quiet hours end
+ * @param {QuietHours} quietHours The user's quiet hours
+ * @param {number} now The current time in milliseconds
+ * @return {number | null} When pushes may be sent again, or null outside quiet hours
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now: number): number | null {
+  if (!quietHours.enabled) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const local = getLocalMinutes(now, quietHours.timeZone);
+
+  const isQuiet = start < end ?
+    local >= start && local < end :
+    local >= start || local < end;
+  if (!isQuiet) return null;
+
+  const minutesLeft = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return now - (now % MINUTE_MS) + minutesLeft * MINUTE_MS;
+}
+
+// Message pushes are dropped rather than deferred during quiet hours. By the
+// morning the chat and activity feed already show them, so a late push is noise
+const DROPPED_DURING_QUIET_HOURS: NotificationCategory[] = ["messages"];
+
+export type PushDecision =
+  | {action: "send"}
+  | {action: "skip"; reason: "optedOut" | "quietHours"}
+  | {action: "defer"; sendAfter: number};
+
+/**
+ * Decides what to do with a push according to the recipient's settings
+ * @param {NotificationSettings} settings The recipient's normalized settings
+ * @param {NotificationCategory} category The kind of push
+ * @param {number} now The current time in milliseconds
+ * @return {PushDecision} Whether to send, skip or defer the push
+ */
+export function decidePush(
+  settings: NotificationSettings,
+  category: NotificationCategory,
+  now: number
+): PushDecision {
+  if (!settings[CATEGORY_SETTINGS[category]]) {
+    return {action: "skip", reason: "optedOut"};
+  }
+
+  const quietHoursEnd = getQuietHoursEnd(settings.quietHours, now);
+  if (quietHoursEnd === null) {
+    return {action: "send"};
+  }
+  if (DROPPED_DURING_QUIET_HOURS.includes(category)) {
+    return {action: "skip", reason: "quietHours"};
+  }
+  return {action: "defer", sendAfter: quietHoursEnd};
+}
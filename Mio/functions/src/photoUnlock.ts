@@ -0,0 +1,190 @@
+/**
+ * Photo unlock rules for new matches.
+ *
+ * Until a pair's photos unlock, each side's match entry only holds a blurred,
+ * low-res Cloudinary rendition of the other user's profile photo. Photos unlock
+ * for both sides at once, when any enabled rule is met: enough time has passed
+ * since the match, both users have sent a message, or both asked to reveal.
+ * Checking the rules stays pure here; the cloud function adapter reads the
+ * match entries and writes the real photos back.
+ *
+ * The real photos are only stored on the owner's private doc
+ * (`users/{uid}/private/photo`). The world-readable profile, locked match
+ * entries, suggestions and the conversation headers of locked pairs only get
+ * blurred copies. Each copy is a separate Cloudinary asset under its own
+ * random public ID, so nothing stored before the unlock points at the
+ * original.
+ */
+
+import * as crypto from "crypto";
+
+export interface PhotoUnlockRules {
+  unlockAfterHours: number; // 0 turns off unlocking by time
+  unlockOnMessageExchange: boolean;
+  unlockOnMutualReveal: boolean;
+}
+
+export const DEFAULT_PHOTO_UNLOCK_RULES: PhotoUnlockRules = {
+  unlockAfterHours: 24,
+  unlockOnMessageExchange: true,
+  unlockOnMutualReveal: true,
+};
+
+// Photo unlock state kept on a match entry. Entries created before photos
+// were locked have none of these fields and are treated as unlocked.
+export interface PhotoUnlockFields<TTimestamp = Date> {
+  photoUnlocked?: boolean;
+  photoUnlockAt?: TTimestamp; // Only set while the photo is locked and time unlocking is on
+  sentMessage?: boolean; // The entry's owner has messaged the other user
+  revealRequested?: boolean; // The entry's owner asked to reveal photos
+  otherRequestedReveal?: boolean; // The other user asked to reveal photos
+  additionalPics?: string[]; // The other user's real extra photos, only once unlocked
+}
+
+// The real photos kept on a user's private doc
+export interface ProfilePhotos {
+  profilePic: string;
+  additionalPics: string[];
+}
+
+export type PhotoUnlockReason = "time" | "messages" | "reveal";
+
+// Folders the app uploads profile photos to and the blurred copies are made in
+export const PROFILE_UPLOAD_FOLDER = "mio_app_profiles";
+export const BLURRED_PHOTO_FOLDER = "mio_app_profiles_blurred";
+export const MAX_ADDITIONAL_PICS = 3;
+
+// Blurred, small and heavily compressed, so the copy can't be sharpened back up
+const BLUR_TRANSFORMATION = "e_blur:2000,w_200,q_auto:low";
+
+/**
+ * Reads the unlock rules from environment variables, falling back to the defaults
+ * @param {Record<string, string | undefined>} env The environment to read, usually `process.env`
+ * @return {PhotoUnlockRules} The rules to apply
+ */
+export function getPhotoUnlockRules(env: Record<string, string | undefined>): PhotoUnlockRules {
+  const hours = Number(env.PHOTO_UNLOCK_HOURS);
+  return {
+    unlockAfterHours: env.PHOTO_UNLOCK_HOURS !== undefined && Number.isFinite(hours) && hours >= 0 ?
+      hours :
+      DEFAULT_PHOTO_UNLOCK_RULES.unlockAfterHours,
+    unlockOnMessageExchange: env.PHOTO_UNLOCK_ON_MESSAGES !== "false",
+    unlockOnMutualReveal: env.PHOTO_UNLOCK_ON_REVEAL !== "false",
+  };
+}
+
+/**
+ * Builds a pattern for Cloudinary delivery URLs of untransformed uploads in a folder
+ * @param {string} folder The folder
+ * @param {string | undefined} cloudName The app's cloud, if configured
+ * @return {RegExp} The pattern
+ */
+function getUploadPattern(folder: string, cloudName?: string): RegExp {
+  const cloud = cloudName ? cloudName.replace(/[^A-Za-z0-9_-]/g, "") : "[^/]+";
+  return new RegExp(`^https://res\\.cloudinary\\.com/${cloud}/image/upload/(v\\d+/)?${folder}/[^/?#]+$`);
+}
+
+/**
+ * Checks that a real profile photo is one the app uploaded: an untransformed
+ * upload in the profile folder of the app's own cloud
+ * @param {unknown} url The URL to check
+ * @param {string | undefined} cloudName The app's cloud, if configured
+ * @return {boolean} Whether the URL can be published as a profile photo
+ */
+export function isProfilePhotoUrl(url: unknown, cloudName?: string): url is string {
+  return typeof url === "string" && getUploadPattern(PROFILE_UPLOAD_FOLDER, cloudName).test(url);
+}
+
+/**
+ * Checks that a URL is one of the blurred copies made by `getBlurredPhotoUpload`
+ * @param {unknown} url The URL to check
+ * @param {string | undefined} cloudName The app's cloud, if configured
+ * @return {boolean} Whether the URL may be shown before the photos unlock
+ */
+export function isBlurredPhotoUrl(url: unknown, cloudName?: string): url is string {
+  return typeof url === "string" && getUploadPattern(BLURRED_PHOTO_FOLDER, cloudName).test(url);
+}
+
+/**
+ * Reads the real photos from a private photo doc or an old profile, dropping
+ * anything that isn't one of the app's own uploads
+ * @param {Record<string, unknown> | undefined} data The doc's data
+ * @param {string | undefined} cloudName The app's cloud, if configured
+ * @return {ProfilePhotos} The photos that can be published
+ */
+export function getProfilePhotos(data: Record<string, unknown> | undefined, cloudName?: string): ProfilePhotos {
+  const additionalPics = Array.isArray(data?.additionalPics) ? data?.additionalPics as unknown[] : [];
+  return {
+    profilePic: isProfilePhotoUrl(data?.profilePic, cloudName) ? data?.profilePic as string : "",
+    additionalPics: additionalPics
+      .filter((url): url is string => isProfilePhotoUrl(url, cloudName))
+      .slice(0, MAX_ADDITIONAL_PICS),
+  };
+}
+
+/**
+ * Builds the signed upload that makes a blurred copy of a profile photo.
+ * Cloudinary fetches the original and only stores the blurred result, under
+ * a public ID that has nothing to do with the original's.
+ * @param {string} photoUrl The real photo
+ * @param {string} publicId A random ID for the copy
+ * @param {number} timestamp The current time in seconds
+ * @param {string} apiSecret The Cloudinary API secret
+ * @return {Record<string, string>} The upload's form fields, without the API key
+ */
+export function getBlurredPhotoUpload(
+  photoUrl: string,
+  publicId: string,
+  timestamp: number,
+  apiSecret: string
+): Record<string, string> {
+  const params: Record<string, string> = {
+    folder: BLURRED_PHOTO_FOLDER,
+    public_id: publicId,
+    timestamp: String(timestamp),
+    transformation: BLUR_TRANSFORMATION,
+  };
+  const stringToSign = Object.keys(params).sort().map((key) => `${key}=${params[key]}`).join("&");
+  const signature = crypto.createHash("sha1").update(stringToSign + apiSecret).digest("hex");
+  return {...params, file: photoUrl, signature};
+}
+
+/**
+ * Works out when a new match's photos unlock by time alone
+ * @param {number} matchedAt When the match was created, in milliseconds
+ * @param {PhotoUnlockRules} rules The unlock rules
+ * @return {number | null} The unlock time in milliseconds, or null if time unlocking is off
+ */
+export function getPhotoUnlockAt(matchedAt: number, rules: PhotoUnlockRules): number | null {
+  if (rules.unlockAfterHours <= 0) return null;
+  return matchedAt + rules.unlockAfterHours * 60 * 60 * 1000;
+}
+
+/**
+ * Checks whether a pair's photos should unlock now
+ * @param {PhotoUnlockFields<number>} entry One side's match entry, with times in milliseconds
+ * @param {PhotoUnlockFields<number>} otherEntry The other side's match entry
+ * @param {number} now The current time in milliseconds
+ * @param {PhotoUnlockRules} rules The unlock rules
+ * @return {PhotoUnlockReason | null} Why the photos unlock, or null if they stay locked
+ */
+export function getPhotoUnlockReason(
+  entry: PhotoUnlockFields<number>,
+  otherEntry: PhotoUnlockFields<number>,
+  now: number,
+  rules: PhotoUnlockRules
+): PhotoUnlockReason | null {
+  if (entry.photoUnlocked !== false && otherEntry.photoUnlocked !== false) return null;
+
+  const unlockAt = entry.photoUnlockAt ?? otherEntry.photoUnlockAt;
+  if (rules.unlockAfterHours > 0 && unlockAt !== undefined && now >= unlockAt) {
+    return "time";
+  }
+  if (rules.unlockOnMessageExchange && entry.sentMessage && otherEntry.sentMessage) {
+    return "messages";
+  }
+  if (rules.unlockOnMutualReveal && entry.revealRequested && otherEntry.revealRequested) {
+    return "reveal";
+  }
+  return null;
+}
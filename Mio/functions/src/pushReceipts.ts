@@ -0,0 +1,107 @@
+/**
+ * Expo push receipt checking.
+ *
+ * Sending a push only returns a ticket. Whether the notification was actually
+ * delivered (or the device is gone) is reported later through receipts, which
+ * Expo keeps for about a day. Tickets are stored in `pushTickets` when a push
+ * is sent and checked by the `checkPushReceipts` scheduled function.
+ */
+
+import * as functions from "firebase-functions";
+import {Expo, ExpoPushReceipt} from "expo-server-sdk";
+
+// Ticket as stored in `pushTickets/{ticketId}`
+export interface StoredPushTicket {
+  ticketId: string;
+  token: string;
+  type: string; // Notification type from the push data, e.g. "match" or "message"
+  createdAtMs: number;
+}
+
+// The part of the Expo client the receipt check needs, so tests can stub it
+export type PushReceiptClient = Pick<Expo, "chunkPushNotificationReceiptIds" | "getPushNotificationReceiptsAsync">;
+
+export interface DeliveryStats {
+  delivered: number;
+  failed: number;
+  errors: Record<string, number>; // Failure count per Expo error code
+}
+
+export interface ReceiptCheckResult {
+  statsByType: Record<string, DeliveryStats>;
+  invalidTokens: string[];
+  resolvedTicketIds: string[]; // Tickets with a receipt, or too old to ever get one
+}
+
+// Expo only makes receipts available after a while and drops them after a day
+export const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+export const RECEIPT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds one receipt outcome to the per-type stats
+ * @param {Record<string, DeliveryStats>} statsByType The stats collected so far
+ * @param {string} type The notification type
+ * @param {ExpoPushReceipt} receipt The receipt to record
+ */
+function recordReceipt(statsByType: Record<string, DeliveryStats>, type: string, receipt: ExpoPushReceipt) {
+  const stats = statsByType[type] || {delivered: 0, failed: 0, errors: {}};
+  if (receipt.status === "ok") {
+    stats.delivered++;
+  } else {
+    stats.failed++;
+    const code = receipt.details?.error || "Unknown";
+    stats.errors[code] = (stats.errors[code] || 0) + 1;
+  }
+  statsByType[type] = stats;
+}
+
+/**
+ * Fetches the receipts of stored tickets in chunks and summarizes them
+ * @param {StoredPushTicket[]} tickets Tickets old enough to have a receipt
+ * @param {PushReceiptClient} client The Expo client, or a stub in tests
+ * @param {number} now The current time in milliseconds
+ * @return {Promise<ReceiptCheckResult>} Stats per notification type, tokens to remove and tickets to delete
+ */
+export async function checkReceipts(
+  tickets: StoredPushTicket[],
+  client: PushReceiptClient,
+  now: number
+): Promise<ReceiptCheckResult> {
+  const ticketsById = new Map(tickets.map((ticket) => [ticket.ticketId, ticket]));
+  const result: ReceiptCheckResult = {statsByType: {}, invalidTokens: [], resolvedTicketIds: []};
+  const invalidTokens = new Set<string>();
+
+  for (const chunk of client.chunkPushNotificationReceiptIds(Array.from(ticketsById.keys()))) {
+    // A failed chunk is simply retried on the next run
+    let receipts: {[id: string]: ExpoPushReceipt};
+    try {
+      receipts = await client.getPushNotificationReceiptsAsync(chunk);
+    } catch (error) {
+      functions.logger.warn("Error fetching push receipts, will retry next run", error);
+      continue;
+    }
+
+    for (const ticketId of chunk) {
+      const ticket = ticketsById.get(ticketId);
+      const receipt = receipts[ticketId];
+      if (!ticket) continue;
+
+      if (!receipt) {
+        // Not ready yet, unless Expo has already dropped it
+        if (now - ticket.createdAtMs > RECEIPT_MAX_AGE_MS) {
+          result.resolvedTicketIds.push(ticketId);
+        }
+        continue;
+      }
+
+      recordReceipt(result.statsByType, ticket.type, receipt);
+      if (receipt.status === "error" && receipt.details?.error === "DeviceNotRegistered") {
+        invalidTokens.add(ticket.token);
+      }
+      result.resolvedTicketIds.push(ticketId);
+    }
+  }
+
+  result.invalidTokens = Array.from(invalidTokens);
+  return result;
+}
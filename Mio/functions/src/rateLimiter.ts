@@ -0,0 +1,174 @@
+/**
+ * Per-user, per-function rate limiting for callable functions.
+ *
+ * Each user gets a token bucket per callable, stored on its own doc at
+ * `rateLimits/{userId}/buckets/{functionName}` so hammering one callable
+ * doesn't contend with the others. A call takes one token; tokens refill
+ * continuously up to the bucket's capacity, so short bursts are fine but
+ * sustained hammering gets a `resource-exhausted` error with a retry-after
+ * hint.
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import {HttpsError} from "firebase-functions/v2/https";
+
+export interface RateLimit {
+  capacity: number; // Calls allowed in a burst
+  refillPerMinute: number; // Tokens added back every minute
+}
+
+// Bucket state stored per function on the user's rate limit document
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // Milliseconds since epoch of the last refill
+}
+
+export interface TokenResult {
+  allowed: boolean;
+  bucket: TokenBucket;
+  retryAfterMs: number; // 0 when the call was allowed
+}
+
+// Limits for every callable, keyed by its exported name
+export const RATE_LIMITS: Record<string, RateLimit> = {
+  getTMDBData: {capacity: 60, refillPerMinute: 30},
+  getCloudinarySignature: {capacity: 10, refillPerMinute: 5},
+  searchUserMatches: {capacity: 10, refillPerMinute: 2},
+  getSearchQuota: {capacity: 30, refillPerMinute: 10},
+  addFavorite: {capacity: 20, refillPerMinute: 10},
+  removeFavorite: {capacity: 20, refillPerMinute: 10},
+  respondToCandidate: {capacity: 60, refillPerMinute: 30},
+  requestPhotoReveal: {capacity: 20, refillPerMinute: 5},
+  deleteConversationData: {capacity: 20, refillPerMinute: 10},
+  sendMessage: {capacity: 30, refillPerMinute: 30},
+  markConversationRead: {capacity: 30, refillPerMinute: 30},
+  openConversation: {capacity: 20, refillPerMinute: 10},
+  manualArchiveMessages: {capacity: 5, refillPerMinute: 1},
+  checkAdminStatus: {capacity: 20, refillPerMinute: 10},
+  setAdminClaim: {capacity: 5, refillPerMinute: 1},
+  deleteUserAccount: {capacity: 3, refillPerMinute: 1},
+  migrateMatchesToCollection: {capacity: 2, refillPerMinute: 0.2},
+  migrateDuplicateConversations: {capacity: 2, refillPerMinute: 0.2},
+  migrateProfilePhotos: {capacity: 2, refillPerMinute: 0.2},
+  migrateMatchExpiry: {capacity: 2, refillPerMinute: 0.2},
+  sendAnnouncement: {capacity: 2, refillPerMinute: 0.2},
+  updateNotificationSettings: {capacity: 20, refillPerMinute: 10},
+};
+
+// Used for callables that haven't been given their own entry yet
+export const DEFAULT_RATE_LIMIT: RateLimit = {capacity: 30, refillPerMinute: 10};
+
+const MINUTE_MS = 60 * 1000;
+
+// gRPC status codes of Firestore failures that aren't the caller's doing
+const INFRASTRUCTURE_ERROR_CODES = new Set<number | string>([
+  4, "deadline-exceeded", // DEADLINE_EXCEEDED
+  13, "internal", // INTERNAL
+  14, "unavailable", // UNAVAILABLE
+]);
+
+/**
+ * Looks up the limit for a callable
+ * @param {string} functionName The callable's exported name
+ * @return {RateLimit} Its configured limit, or the default
+ */
+export function getRateLimit(functionName: string): RateLimit {
+  return RATE_LIMITS[functionName] || DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Refills a bucket for the time elapsed and tries to take one token from it
+ * @param {TokenBucket | undefined} bucket The stored bucket, missing on a user's first call
+ * @param {RateLimit} limit The limit for the callable
+ * @param {number} now The current time in milliseconds
+ * @return {TokenResult} Whether the call is allowed and the bucket to store
+ */
+export function takeToken(bucket: TokenBucket | undefined, limit: RateLimit, now: number): TokenResult {
+  const tokensPerMs = limit.refillPerMinute / MINUTE_MS;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const available = bucket ?
+    Math.min(limit.capacity, bucket.tokens + elapsed * tokensPerMs) :
+    limit.capacity;
+
+  if (available >= 1) {
+    return {
+      allowed: true,
+      bucket: {tokens: available - 1, updatedAt: now},
+      retryAfterMs: 0,
+    };
+  }
+
+  return {
+    allowed: false,
+    bucket: {tokens: available, updatedAt: now},
+    retryAfterMs: Math.ceil((1 - available) / tokensPerMs),
+  };
+}
+
+/**
+ * Whether a limiter failure comes from Firestore being unavailable, as
+ * opposed to contention on the bucket (aborted transactions) or anything else
+ * @param {unknown} error The error the limiter's transaction threw
+ * @return {boolean} True for outages and timeouts
+ */
+export function isInfrastructureError(error: unknown): boolean {
+  const code = (error as {code?: unknown} | null)?.code;
+  return (typeof code === "number" || typeof code === "string") && INFRASTRUCTURE_ERROR_CODES.has(code);
+}
+
+/**
+ * The bucket doc for a user and callable
+ * @param {string} userId The calling user's ID
+ * @param {string} functionName The callable's exported name
+ * @return {admin.firestore.DocumentReference} The doc holding the bucket
+ */
+export function getBucketRef(userId: string, functionName: string): admin.firestore.DocumentReference {
+  return admin.firestore().collection("rateLimits").doc(userId).collection("buckets").doc(functionName);
+}
+
+/**
+ * Takes a token for the user and callable, throwing when the bucket is empty.
+ * Contention on the bucket counts as too many requests, so hammering a
+ * callable can't get past the limiter. Only a Firestore outage lets the call
+ * through rather than blocking the app.
+ * @param {string} userId The calling user's ID
+ * @param {string} functionName The callable's exported name
+ * @return {Promise<void>}
+ */
+export async function enforceRateLimit(userId: string, functionName: string): Promise<void> {
+  const db = admin.firestore();
+  const bucketRef = getBucketRef(userId, functionName);
+  const limit = getRateLimit(functionName);
+
+  let result: TokenResult;
+  try {
+    result = await db.runTransaction(async (transaction) => {
+      const bucketDoc = await transaction.get(bucketRef);
+      const tokenResult = takeToken(bucketDoc.data() as TokenBucket | undefined, limit, Date.now());
+      transaction.set(bucketRef, tokenResult.bucket);
+      return tokenResult;
+    });
+  } catch (error) {
+    if (isInfrastructureError(error)) {
+      functions.logger.error(`Rate limiter unavailable for ${functionName} (${userId}), letting the call through:`, error);
+      return;
+    }
+    functions.logger.warn(`Rate limiter failed for ${functionName} (${userId}), rejecting the call:`, error);
+    throw new HttpsError(
+      "resource-exhausted",
+      "Too many requests. Please try again in a few seconds.",
+      {retryAfterSeconds: 1}
+    );
+  }
+
+  if (!result.allowed) {
+    const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+    functions.logger.warn(`Rate limited ${userId} on ${functionName} for ${retryAfterSeconds}s`);
+    throw new HttpsError(
+      "resource-exhausted",
+      `Too many requests. Please try again in ${retryAfterSeconds} seconds.`,
+      {retryAfterSeconds}
+    );
+  }
+}
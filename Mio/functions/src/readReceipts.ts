@@ -0,0 +1,135 @@
+/**
+ * Read receipts.
+ *
+ * Each participant has a read cursor on the conversation: `lastReadAt.{uid}`,
+ * the time of the newest message they've read, and `readMessageCount.{uid}`,
+ * the conversation's `messageCount` at that point. A participant's unread
+ * count is `messageCount - readMessageCount`, so it's worked out from the
+ * cursor instead of kept as a counter that can drift. Cursors only move
+ * forward: `markConversationRead` moves the caller's to the latest message,
+ * and `sendMessage` moves the sender's past their own message.
+ *
+ * Conversations from before cursors only have `unreadCount.{uid}`. A missing
+ * cursor is derived from it until the participant's cursor is first written.
+ */
+
+// The conversation fields read state depends on
+export interface ReadState<TTimestamp> {
+  participants: string[];
+  messageCount?: number;
+  lastMessageTimestamp?: TTimestamp;
+  lastReadAt?: Record<string, TTimestamp>;
+  readMessageCount?: Record<string, number>;
+  unreadCount?: Record<string, number>; // Only on conversations from before cursors
+}
+
+// Conversation fields to write for a read cursor, as a Firestore update
+export type ReadCursorUpdate<TTimestamp> = Record<string, TTimestamp | number>;
+
+/**
+ * How many of a conversation's messages a participant has read
+ * @param {ReadState<TTimestamp>} conversation The conversation
+ * @param {string} userId The participant's ID
+ * @return {number} The conversation's message count when they last read it
+ */
+export function getReadMessageCount<TTimestamp>(conversation: ReadState<TTimestamp>, userId: string): number {
+  const messageCount = conversation.messageCount || 0;
+  const stored = conversation.readMessageCount?.[userId];
+  if (stored !== undefined) {
+    return Math.min(stored, messageCount);
+  }
+  return Math.max(0, messageCount - (conversation.unreadCount?.[userId] || 0));
+}
+
+/**
+ * How many messages a participant hasn't read yet
+ * @param {ReadState<TTimestamp>} conversation The conversation
+ * @param {string} userId The participant's ID
+ * @return {number} The number of unread messages
+ */
+export function getUnreadCount<TTimestamp>(conversation: ReadState<TTimestamp>, userId: string): number {
+  return (conversation.messageCount || 0) - getReadMessageCount(conversation, userId);
+}
+
+/**
+ * Moves a participant's cursor to the conversation's latest message
+ * @param {ReadState<TTimestamp>} conversation The conversation as read in the transaction
+ * @param {string} userId The participant's ID
+ * @return {ReadCursorUpdate<TTimestamp> | null} The fields to write, or null when everything is read already
+ */
+export function planMarkRead<TTimestamp>(
+  conversation: ReadState<TTimestamp>,
+  userId: string
+): ReadCursorUpdate<TTimestamp> | null {
+  const messageCount = conversation.messageCount || 0;
+  if (
+    conversation.readMessageCount?.[userId] === messageCount ||
+    !conversation.lastMessageTimestamp
+  ) {
+    return null;
+  }
+  return {
+    [`lastReadAt.${userId}`]: conversation.lastMessageTimestamp,
+    [`readMessageCount.${userId}`]: messageCount,
+  };
+}
+
+/**
+ * The cursor fields to write along with a new message. The sender has read
+ * everything up to and including it. Participants without a cursor get one
+ * derived from their old unread count, so the new message counts as unread
+ * for them once `messageCount` goes up.
+ * @param {ReadState<TTimestamp>} conversation The conversation as read in the sending transaction
+ * @param {string} senderId The sending user's ID
+ * @param {number} messageCount The conversation's count after the message
+ * @param {TTimestamp} timestamp The message's timestamp
+ * @return {ReadCursorUpdate<TTimestamp>} The fields to write
+ */
+export function planSenderCursor<TTimestamp>(
+  conversation: ReadState<TTimestamp>,
+  senderId: string,
+  messageCount: number,
+  timestamp: TTimestamp
+): ReadCursorUpdate<TTimestamp> {
+  const update: ReadCursorUpdate<TTimestamp> = {
+    [`lastReadAt.${senderId}`]: timestamp,
+    [`readMessageCount.${senderId}`]: messageCount,
+  };
+  conversation.participants
+    .filter((userId) => userId !== senderId && conversation.readMessageCount?.[userId] === undefined)
+    .forEach((userId) => {
+      update[`readMessageCount.${userId}`] = getReadMessageCount(conversation, userId);
+    });
+  return update;
+}
+
+/**
+ * Merges the read state of duplicate conversations of the same pair. Unread
+ * counts are added up and each participant's latest read time wins.
+ * @param {ReadState<TTimestamp>[]} conversations Every conversation of the pair
+ * @param {number} messageCount The merged conversation's message count
+ * @return {{lastReadAt: Record<string, TTimestamp>, readMessageCount: Record<string, number>}} The merged cursors
+ */
+export function mergeReadState<TTimestamp extends {toMillis(): number}>(
+  conversations: ReadState<TTimestamp>[],
+  messageCount: number
+): {lastReadAt: Record<string, TTimestamp>; readMessageCount: Record<string, number>} {
+  const lastReadAt: Record<string, TTimestamp> = {};
+  const unread: Record<string, number> = {};
+  for (const conversation of conversations) {
+    (conversation.participants || []).forEach((userId) => {
+      unread[userId] = (unread[userId] || 0) + getUnreadCount(conversation, userId);
+    });
+    Object.entries(conversation.lastReadAt || {}).forEach(([userId, readAt]) => {
+      if (!lastReadAt[userId] || readAt.toMillis() > lastReadAt[userId].toMillis()) {
+        lastReadAt[userId] = readAt;
+      }
+    });
+  }
+
+  const readMessageCount: Record<string, number> = {};
+  Object.entries(unread).forEach(([userId, count]) => {
+    readMessageCount[userId] = Math.max(0, messageCount - count);
+  });
+  return {lastReadAt, readMessageCount};
+}
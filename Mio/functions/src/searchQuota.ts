@@ -0,0 +1,166 @@
+/**
+ * Match search quota.
+ *
+ * Each user gets a number of searches per rolling day, plus a few bonus
+ * searches earned by adding new favorites. Regular searches are used up first;
+ * bonus searches don't expire. State lives on `searchQuotas/{userId}`, which
+ * only Cloud Functions can write, and the app is told what's left by the server
+ * instead of working it out from raw fields.
+ */
+
+export interface SearchQuotaRules {
+  searchesPerDay: number;
+  bonusPerNewFavorite: number; // Bonus searches for each favorite added since the last check
+  maxBonusSearches: number; // Most bonus searches that can be saved up
+}
+
+export const DEFAULT_SEARCH_QUOTA_RULES: SearchQuotaRules = {
+  searchesPerDay: 5,
+  bonusPerNewFavorite: 1,
+  maxBonusSearches: 3,
+};
+
+// Quota state stored per user, with times in milliseconds
+export interface SearchQuotaState {
+  searchTimes: number[]; // Regular searches made in the last day
+  bonusSearches: number;
+  knownShowIds: string[]; // Every show ever credited, including ones since removed
+}
+
+export interface SearchQuotaStatus {
+  remaining: number;
+  nextAvailableAt: number | null; // When the next search frees up, null while searches are left
+}
+
+// What a search was paid with, so it can be given back if the search fails
+export type SearchCharge = {kind: "daily"; takenAt: number} | {kind: "bonus"};
+
+export interface SearchQuotaResult {
+  allowed: boolean;
+  state: SearchQuotaState;
+  status: SearchQuotaStatus;
+  charge: SearchCharge | null; // Null when the search isn't allowed
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a non-negative whole number from an environment variable
+ * @param {string | undefined} value The variable's value
+ * @param {number} fallback The value to use when it is missing or malformed
+ * @return {number} The parsed number
+ */
+function readCount(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return value !== undefined && Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
+/**
+ * Reads the quota rules from environment variables, falling back to the defaults
+ * @param {Record<string, string | undefined>} env The environment to read, usually `process.env`
+ * @return {SearchQuotaRules} The rules to apply
+ */
+export function getSearchQuotaRules(env: Record<string, string | undefined>): SearchQuotaRules {
+  return {
+    searchesPerDay: readCount(env.SEARCHES_PER_DAY, DEFAULT_SEARCH_QUOTA_RULES.searchesPerDay),
+    bonusPerNewFavorite: readCount(env.SEARCH_BONUS_PER_FAVORITE, DEFAULT_SEARCH_QUOTA_RULES.bonusPerNewFavorite),
+    maxBonusSearches: readCount(env.MAX_BONUS_SEARCHES, DEFAULT_SEARCH_QUOTA_RULES.maxBonusSearches),
+  };
+}
+
+/**
+ * Brings stored quota state up to date: drops searches older than a day and
+ * credits favorites added since the last check. A user's first check only
+ * records their favorites, so the shows they signed up with earn nothing.
+ * Credited shows stay known after they're removed, so removing a show and
+ * adding it again earns nothing either.
+ * @param {SearchQuotaState | undefined} state The stored state, missing before the first check
+ * @param {string[]} favoriteShowIds The user's current favorites
+ * @param {number} now The current time in milliseconds
+ * @param {SearchQuotaRules} rules The quota rules
+ * @return {SearchQuotaState} The state to store
+ */
+export function refreshSearchQuota(
+  state: SearchQuotaState | undefined,
+  favoriteShowIds: string[],
+  now: number,
+  rules: SearchQuotaRules
+): SearchQuotaState {
+  if (!state) {
+    return {searchTimes: [], bonusSearches: 0, knownShowIds: [...favoriteShowIds]};
+  }
+
+  const knownShowIds = new Set(state.knownShowIds);
+  const newFavoriteCount = favoriteShowIds.filter((showId) => !knownShowIds.has(showId)).length;
+  const earnedBonus = Math.max(state.bonusSearches, Math.min(
+    rules.maxBonusSearches,
+    state.bonusSearches + newFavoriteCount * rules.bonusPerNewFavorite
+  ));
+
+  return {
+    searchTimes: state.searchTimes.filter((searchTime) => now - searchTime < DAY_MS),
+    bonusSearches: earnedBonus,
+    knownShowIds: [...new Set([...state.knownShowIds, ...favoriteShowIds])],
+  };
+}
+
+/**
+ * Works out what's left of a refreshed quota
+ * @param {SearchQuotaState} state Quota state from `refreshSearchQuota`
+ * @param {SearchQuotaRules} rules The quota rules
+ * @return {SearchQuotaStatus} Searches left and when the next one frees up
+ */
+export function getSearchQuotaStatus(state: SearchQuotaState, rules: SearchQuotaRules): SearchQuotaStatus {
+  const remaining = Math.max(0, rules.searchesPerDay - state.searchTimes.length) + state.bonusSearches;
+  if (remaining > 0 || state.searchTimes.length === 0) {
+    return {remaining, nextAvailableAt: null};
+  }
+  return {remaining, nextAvailableAt: Math.min(...state.searchTimes) + DAY_MS};
+}
+
+/**
+ * Uses up one search, from the daily quota while it lasts and from the bonus after that
+ * @param {SearchQuotaState | undefined} state The stored state, missing before the first search
+ * @param {string[]} favoriteShowIds The user's current favorites
+ * @param {number} now The current time in milliseconds
+ * @param {SearchQuotaRules} rules The quota rules
+ * @return {SearchQuotaResult} Whether the search is allowed, the state to store and what's left after it
+ */
+export function takeSearch(
+  state: SearchQuotaState | undefined,
+  favoriteShowIds: string[],
+  now: number,
+  rules: SearchQuotaRules
+): SearchQuotaResult {
+  const refreshed = refreshSearchQuota(state, favoriteShowIds, now, rules);
+
+  let nextState: SearchQuotaState;
+  let charge: SearchCharge;
+  if (refreshed.searchTimes.length < rules.searchesPerDay) {
+    nextState = {...refreshed, searchTimes: [...refreshed.searchTimes, now]};
+    charge = {kind: "daily", takenAt: now};
+  } else if (refreshed.bonusSearches > 0) {
+    nextState = {...refreshed, bonusSearches: refreshed.bonusSearches - 1};
+    charge = {kind: "bonus"};
+  } else {
+    return {allowed: false, state: refreshed, status: getSearchQuotaStatus(refreshed, rules), charge: null};
+  }
+
+  return {allowed: true, state: nextState, status: getSearchQuotaStatus(nextState, rules), charge};
+}
+
+/**
+ * Gives back a search that failed after it was paid for
+ * @param {SearchQuotaState} state The stored state
+ * @param {SearchCharge} charge What `takeSearch` charged for it
+ * @param {SearchQuotaRules} rules The quota rules
+ * @return {SearchQuotaState} The state to store
+ */
+export function refundSearch(state: SearchQuotaState, charge: SearchCharge, rules: SearchQuotaRules): SearchQuotaState {
+  if (charge.kind === "bonus") {
+    return {...state, bonusSearches: Math.min(rules.maxBonusSearches, state.bonusSearches + 1)};
+  }
+  const index = state.searchTimes.indexOf(charge.takenAt);
+  if (index === -1) return state;
+  return {...state, searchTimes: state.searchTimes.filter((_, i) => i !== index)};
+}
@@ -0,0 +1,173 @@
+/**
+ * Firestore-backed cache for the `getTMDBData` proxy.
+ *
+ * Responses are stored in `tmdbCache`, keyed by a hash of the normalized
+ * endpoint and params. Fresh entries are served directly. Stale entries are
+ * still served to everyone except a single caller, who refreshes the entry
+ * from TMDB (stale-while-revalidate). If TMDB errors, any cached copy is
+ * served no matter how old it is.
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import * as crypto from "crypto";
+
+export type TMDBParams = Record<string, unknown>;
+
+export interface CacheTtl {
+  freshMs: number; // Served without contacting TMDB
+  staleMs: number; // Served while one caller refreshes it in the background
+}
+
+export type CacheState = "fresh" | "stale" | "expired" | "missing";
+
+// Entry as stored in `tmdbCache/{keyHash}`
+export interface TMDBCacheEntry {
+  key: string;
+  body: string; // JSON response, stored as a string since TMDB can return nested arrays
+  fetchedAt: number; // Milliseconds since epoch
+  revalidatingUntil?: number; // Set while one caller is refreshing a stale entry
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long a single caller gets to refresh a stale entry before another one may try
+const REVALIDATION_LOCK_MS = 30 * 1000;
+
+// Per-endpoint TTLs, checked in order; the first matching pattern wins
+const CACHE_TTLS: {pattern: RegExp, ttl: CacheTtl}[] = [
+  {pattern: /^\/trending\//, ttl: {freshMs: 3 * HOUR_MS, staleMs: DAY_MS}},
+  {pattern: /^\/search\//, ttl: {freshMs: HOUR_MS, staleMs: DAY_MS}},
+  {pattern: /^\/tv\/(popular|top_rated)$/, ttl: {freshMs: 12 * HOUR_MS, staleMs: 3 * DAY_MS}},
+  {pattern: /^\/tv\/\d+$/, ttl: {freshMs: 3 * DAY_MS, staleMs: 14 * DAY_MS}},
+];
+
+export const DEFAULT_CACHE_TTL: CacheTtl = {freshMs: HOUR_MS, staleMs: DAY_MS};
+
+/**
+ * Normalizes an endpoint so equivalent requests share a cache entry
+ * @param {string} endpoint The endpoint as sent by the client
+ * @return {string} The endpoint with a single leading slash and no trailing slash
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  const trimmed = endpoint.trim().replace(/^\/+|\/+$/g, "");
+  return `/${trimmed}`;
+}
+
+/**
+ * Builds the cache key for a request: the endpoint plus its params sorted by name,
+ * skipping empty values
+ * @param {string} endpoint The TMDB endpoint
+ * @param {TMDBParams | undefined} params The request params
+ * @return {string} The cache key
+ */
+export function getCacheKey(endpoint: string, params?: TMDBParams): string {
+  const query = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([name, value]) => [name, String(value).trim()])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+  return query ? `${normalizeEndpoint(endpoint)}?${query}` : normalizeEndpoint(endpoint);
+}
+
+/**
+ * Looks up the TTL for an endpoint
+ * @param {string} endpoint The TMDB endpoint
+ * @return {CacheTtl} The endpoint's TTL, or the default
+ */
+export function getCacheTtl(endpoint: string): CacheTtl {
+  const normalized = normalizeEndpoint(endpoint);
+  return CACHE_TTLS.find(({pattern}) => pattern.test(normalized))?.ttl || DEFAULT_CACHE_TTL;
+}
+
+/**
+ * Works out whether a cached entry can be served as is
+ * @param {TMDBCacheEntry | undefined} entry The cached entry, if any
+ * @param {CacheTtl} ttl The endpoint's TTL
+ * @param {number} now The current time in milliseconds
+ * @return {CacheState} The state of the entry
+ */
+export function getCacheState(entry: TMDBCacheEntry | undefined, ttl: CacheTtl, now: number): CacheState {
+  if (!entry) return "missing";
+  const age = now - entry.fetchedAt;
+  if (age < ttl.freshMs) return "fresh";
+  if (age < ttl.freshMs + ttl.staleMs) return "stale";
+  return "expired";
+}
+
+/**
+ * Serves a TMDB request from the cache, fetching from TMDB when needed
+ * @param {string} endpoint The TMDB endpoint
+ * @param {TMDBParams | undefined} params The request params
+ * @param {function(): Promise<unknown>} fetchFromTMDB Performs the actual TMDB request
+ * @return {Promise<unknown>} The TMDB response
+ */
+export async function getWithCache(
+  endpoint: string,
+  params: TMDBParams | undefined,
+  fetchFromTMDB: () => Promise<unknown>
+): Promise<unknown> {
+  const db = admin.firestore();
+  const key = getCacheKey(endpoint, params);
+  const entryRef = db.collection("tmdbCache").doc(crypto.createHash("sha256").update(key).digest("hex"));
+  const ttl = getCacheTtl(endpoint);
+  const now = Date.now();
+
+  let entry: TMDBCacheEntry | undefined;
+  try {
+    entry = (await entryRef.get()).data() as TMDBCacheEntry | undefined;
+  } catch (error) {
+    functions.logger.warn(`Unable to read TMDB cache for ${key}:`, error);
+  }
+
+  const state = getCacheState(entry, ttl, now);
+  if (state === "fresh" && entry) {
+    return JSON.parse(entry.body);
+  }
+
+  // Only one caller refreshes a stale entry; everyone else gets the stale copy meanwhile
+  if (state === "stale" && entry && !(await claimRevalidation(entryRef, now))) {
+    return JSON.parse(entry.body);
+  }
+
+  try {
+    const result = await fetchFromTMDB();
+    const freshEntry: TMDBCacheEntry = {key, body: JSON.stringify(result), fetchedAt: Date.now()};
+    await entryRef.set(freshEntry).catch((error) => {
+      functions.logger.warn(`Unable to write TMDB cache for ${key}:`, error);
+    });
+    return result;
+  } catch (error) {
+    if (entry) {
+      functions.logger.warn(`TMDB request failed, serving cached ${key} from ${new Date(entry.fetchedAt).toISOString()}`);
+      return JSON.parse(entry.body);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Marks a stale entry as being refreshed, unless another caller already is
+ * @param {admin.firestore.DocumentReference} entryRef The cache entry
+ * @param {number} now The current time in milliseconds
+ * @return {Promise<boolean>} True if this caller should refresh the entry
+ */
+async function claimRevalidation(entryRef: admin.firestore.DocumentReference, now: number): Promise<boolean> {
+  try {
+    return await admin.firestore().runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      const revalidatingUntil: number | undefined = entryDoc.data()?.revalidatingUntil;
+      if (revalidatingUntil && revalidatingUntil > now) {
+        return false;
+      }
+      transaction.update(entryRef, {revalidatingUntil: now + REVALIDATION_LOCK_MS});
+      return true;
+    });
+  } catch (error) {
+    functions.logger.warn("Unable to claim TMDB cache revalidation:", error);
+    return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Allowlist of the TMDB endpoints the `getTMDBData` proxy may call.
+ *
+ * Every request is matched against an endpoint pattern and every param is
+ * checked against that endpoint's schema, so clients can't reach account or
+ * session endpoints or smuggle extra query params. URLs are built with
+ * `URLSearchParams` rather than string concatenation.
+ */
+
+import {HttpsError} from "firebase-functions/v2/https";
+import {normalizeEndpoint} from "./tmdbCache";
+
+const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+
+export type ParamRule =
+  | {type: "string", maxLength: number, required?: boolean}
+  | {type: "integer", min: number, max: number, required?: boolean}
+  | {type: "enum", values: string[], required?: boolean}
+  | {type: "list", values: string[], required?: boolean}; // Comma-separated subset of values
+
+export interface TMDBEndpoint {
+  name: string;
+  pattern: RegExp;
+  params: Record<string, ParamRule>;
+}
+
+export interface TMDBRequest {
+  endpoint: string;
+  params: Record<string, string>;
+}
+
+// Params shared by most endpoints
+const PAGE: ParamRule = {type: "integer", min: 1, max: 500};
+const LANGUAGE: ParamRule = {type: "string", maxLength: 10};
+
+// Extra sections that can be appended to a show details request
+const APPENDABLE_SECTIONS = [
+  "similar", "recommendations", "credits", "aggregate_credits", "videos",
+  "images", "keywords", "external_ids", "content_ratings", "watch/providers",
+];
+
+export const TMDB_ENDPOINTS: TMDBEndpoint[] = [
+  {
+    name: "search",
+    pattern: /^\/search\/tv$/,
+    params: {
+      query: {type: "string", maxLength: 100, required: true},
+      page: PAGE,
+      language: LANGUAGE,
+      first_air_date_year: {type: "integer", min: 1900, max: 2100},
+      include_adult: {type: "enum", values: ["false"]},
+    },
+  },
+  {
+    name: "trending",
+    pattern: /^\/trending\/tv\/(day|week)$/,
+    params: {page: PAGE, language: LANGUAGE},
+  },
+  {
+    name: "details",
+    pattern: /^\/tv\/\d{1,10}$/,
+    params: {
+      append_to_response: {type: "list", values: APPENDABLE_SECTIONS},
+      language: LANGUAGE,
+    },
+  },
+  {
+    name: "lists",
+    pattern: /^\/tv\/(popular|top_rated|on_the_air|airing_today)$/,
+    params: {page: PAGE, language: LANGUAGE},
+  },
+  {
+    name: "related",
+    pattern: /^\/tv\/\d{1,10}\/(similar|recommendations)$/,
+    params: {page: PAGE, language: LANGUAGE},
+  },
+  {
+    name: "season",
+    pattern: /^\/tv\/\d{1,10}\/season\/\d{1,3}$/,
+    params: {language: LANGUAGE},
+  },
+  {
+    name: "genres",
+    pattern: /^\/genre\/tv\/list$/,
+    params: {language: LANGUAGE},
+  },
+];
+
+/**
+ * Checks a single param against its rule
+ * @param {string} name The param name, used in error messages
+ * @param {unknown} value The value sent by the client
+ * @param {ParamRule} rule The rule for the param
+ * @return {string} The value as it should be sent to TMDB
+ */
+function validateParam(name: string, value: unknown, rule: ParamRule): string {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    throw new HttpsError("invalid-argument", `Parameter '${name}' must be a string or number.`);
+  }
+  const text = String(value).trim();
+
+  switch (rule.type) {
+  case "string":
+    if (!text || text.length > rule.maxLength) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Parameter '${name}' must be between 1 and ${rule.maxLength} characters.`
+      );
+    }
+    return text;
+  case "integer": {
+    const number = Number(text);
+    if (!/^\d+$/.test(text) || number < rule.min || number > rule.max) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Parameter '${name}' must be a whole number between ${rule.min} and ${rule.max}.`
+      );
+    }
+    return String(number);
+  }
+  case "enum":
+    if (!rule.values.includes(text)) {
+      throw new HttpsError("invalid-argument", `Parameter '${name}' must be one of: ${rule.values.join(", ")}.`);
+    }
+    return text;
+  case "list": {
+    const items = text.split(",").map((item) => item.trim());
+    if (items.some((item) => !rule.values.includes(item))) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Parameter '${name}' may only contain: ${rule.values.join(", ")}.`
+      );
+    }
+    return items.join(",");
+  }
+  }
+}
+
+/**
+ * Validates a proxy request against the allowlist
+ * @param {unknown} endpoint The endpoint sent by the client
+ * @param {unknown} params The params sent by the client
+ * @return {TMDBRequest} The normalized endpoint and validated params
+ */
+export function validateTMDBRequest(endpoint: unknown, params: unknown): TMDBRequest {
+  if (typeof endpoint !== "string" || !endpoint.trim()) {
+    throw new HttpsError("invalid-argument", "The 'endpoint' parameter is required.");
+  }
+  if (params !== undefined && params !== null && (typeof params !== "object" || Array.isArray(params))) {
+    throw new HttpsError("invalid-argument", "The 'params' parameter must be an object.");
+  }
+
+  const normalized = normalizeEndpoint(endpoint);
+  const allowed = TMDB_ENDPOINTS.find(({pattern}) => pattern.test(normalized));
+  if (!allowed) {
+    throw new HttpsError("invalid-argument", `The endpoint '${normalized}' is not allowed.`);
+  }
+
+  const validParams: Record<string, string> = {};
+  const sentParams = (params || {}) as Record<string, unknown>;
+
+  Object.entries(sentParams).forEach(([name, value]) => {
+    const rule = allowed.params[name];
+    if (!rule) {
+      throw new HttpsError("invalid-argument", `Parameter '${name}' is not allowed for ${allowed.name} requests.`);
+    }
+    if (value === undefined || value === null || value === "") return;
+    validParams[name] = validateParam(name, value, rule);
+  });
+
+  Object.entries(allowed.params).forEach(([name, rule]) => {
+    if (rule.required && validParams[name] === undefined) {
+      throw new HttpsError("invalid-argument", `Parameter '${name}' is required for ${allowed.name} requests.`);
+    }
+  });
+
+  return {endpoint: normalized, params: validParams};
+}
+
+/**
+ * Builds the TMDB URL for a validated request
+ * @param {TMDBRequest} request The validated request
+ * @param {string} apiKey The TMDB API key
+ * @return {string} The full request URL
+ */
+export function buildTMDBUrl(request: TMDBRequest, apiKey: string): string {
+  const url = new URL(`${TMDB_BASE_URL}${request.endpoint}`);
+  url.search = new URLSearchParams({...request.params, api_key: apiKey}).toString();
+  return url.toString();
+}
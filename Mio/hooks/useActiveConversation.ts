@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../config/firebaseConfig';
+
+// How often the marker is refreshed while the chat stays open; the server
+// ignores markers that haven't been refreshed for a while
+const HEARTBEAT_INTERVAL_MS = 4 * 60 * 1000;
+
+/**
+ * Custom hook that marks a conversation as open on the user's document while the
+ * chat screen is focused and the app is in the foreground, so no message pushes
+ * are sent for a chat the user is already looking at
+ * @param userId - The current user's ID
+ * @param conversationId - The conversation being viewed, if loaded
+ */
+export const useActiveConversation = (userId: string | undefined, conversationId: string | undefined) => {
+  useEffect(() => {
+    if (!userId || !conversationId) return;
+
+    const userRef = doc(db, 'users', userId);
+
+    const markActive = () => {
+      updateDoc(userRef, {
+        activeConversation: { id: conversationId, updatedAt: serverTimestamp() }
+      }).catch(error => console.error('Error marking conversation as active:', error));
+    };
+
+    const clearActive = () => {
+      updateDoc(userRef, { activeConversation: null })
+        .catch(error => console.error('Error clearing active conversation:', error));
+    };
+
+    markActive();
+    const heartbeat = setInterval(() => {
+      if (AppState.currentState === 'active') markActive();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        markActive();
+      } else {
+        clearActive();
+      }
+    });
+
+    return () => {
+      clearInterval(heartbeat);
+      subscription.remove();
+      clearActive();
+    };
+  }, [userId, conversationId]);
+};
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+
+const getRemainingSeconds = (endMs: number | null): number | null => {
+  if (endMs === null) return null;
+  const remainingMs = endMs - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : null;
+};
+
+/**
+ * Formats a countdown as its two largest units, e.g. "2d 5h" or "4m 30s"
+ * @param totalSeconds - Seconds left
+ * @returns The formatted time, or "Ready" once nothing is left
+ */
+export const formatCountdown = (totalSeconds: number): string => {
+  if (totalSeconds <= 0) return 'Ready';
+
+  const days = Math.floor(totalSeconds / (60 * 60 * 24));
+  const hours = Math.floor((totalSeconds % (60 * 60 * 24)) / (60 * 60));
+  const minutes = Math.floor((totalSeconds % (60 * 60)) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+
+  const parts: string[] = [];
+
+  if (days > 0) {
+    parts.push(`${days}d`);
+    if (hours > 0) parts.push(`${hours}h`); // Show hours if days are present
+  } else if (hours > 0) {
+    parts.push(`${hours}h`);
+    if (minutes > 0) parts.push(`${minutes}m`); // Show minutes if hours are present
+  } else if (minutes > 0) {
+    parts.push(`${minutes}m`);
+    if (seconds > 0) parts.push(`${seconds}s`); // Show seconds if minutes are present
+  } else if (seconds > 0) {
+    parts.push(`${seconds}s`); // Only show seconds if nothing else is left
+  }
+
+  return parts.length > 0 ? parts.join(' ') : 'Ready';
+};
+
+/**
+ * Custom hook that counts down to a point in time. It ticks every second while
+ * the app is in the foreground and works from the absolute end time, so it
+ * catches up right away when the app comes back from the background
+ * @param endTime - When the countdown ends, or null when nothing is counting down
+ * @param onEnd - Called once when the countdown reaches zero
+ * @returns Seconds left, or null once the countdown has ended
+ */
+export const useCountdown = (endTime: Date | null, onEnd?: () => void): number | null => {
+  const endMs = endTime ? endTime.getTime() : null;
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(() => getRemainingSeconds(endMs));
+  const onEndRef = useRef(onEnd);
+
+  useEffect(() => {
+    onEndRef.current = onEnd;
+  }, [onEnd]);
+
+  useEffect(() => {
+    if (endMs === null) {
+      setRemainingSeconds(null);
+      return;
+    }
+
+    let ended = false;
+    const update = () => {
+      if (ended) return;
+      const seconds = getRemainingSeconds(endMs);
+      setRemainingSeconds(seconds);
+      if (seconds === null) {
+        ended = true;
+        clearInterval(interval);
+        onEndRef.current?.();
+      }
+    };
+
+    const interval = setInterval(update, 1000);
+    update();
+
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') update();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [endMs]);
+
+  return remainingSeconds;
+};
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { collection, doc, documentId, onSnapshot, query, serverTimestamp, setDoc, where } from 'firebase/firestore';
+import { db } from '../config/firebaseConfig';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  PresenceStatus,
+  StoredPresence,
+  getPresenceStatus,
+} from '../utils/presence';
+
+const USERS_PER_QUERY = 30; // Firestore's limit for 'in' queries
+
+/**
+ * Custom hook that publishes the user's presence while the app is open: online
+ * with a heartbeat in the foreground, offline with a last-seen time when it goes
+ * to the background. Nothing is written while the user hides their last seen
+ * @param userId - The signed-in user's ID
+ */
+export const usePresence = (userId: string | undefined) => {
+  const [hideLastSeen, setHideLastSeen] = useState<boolean | null>(null); // Null until loaded
+  const hideLastSeenRef = useRef(hideLastSeen);
+  hideLastSeenRef.current = hideLastSeen;
+
+  // Follow the privacy setting, which can change from the settings screen
+  useEffect(() => {
+    setHideLastSeen(null);
+    if (!userId) return;
+    return onSnapshot(
+      doc(db, 'presence', userId),
+      snapshot => setHideLastSeen(!!snapshot.data()?.hideLastSeen),
+      error => console.error('Error loading presence settings:', error)
+    );
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || hideLastSeen !== false) return;
+
+    const presenceRef = doc(db, 'presence', userId);
+    const publish = (online: boolean) => {
+      setDoc(presenceRef, { hideLastSeen: false, online, lastSeenAt: serverTimestamp() })
+        .catch(error => console.error('Error updating presence:', error));
+    };
+
+    if (AppState.currentState === 'active') publish(true);
+    const heartbeat = setInterval(() => {
+      if (AppState.currentState === 'active') publish(true);
+    }, PRESENCE_HEARTBEAT_MS);
+
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      publish(nextAppState === 'active');
+    });
+
+    return () => {
+      clearInterval(heartbeat);
+      subscription.remove();
+      // Going offline would store a last-seen time again right after hiding it
+      if (hideLastSeenRef.current === false) publish(false);
+    };
+  }, [userId, hideLastSeen]);
+};
+
+/**
+ * Custom hook that follows other users' presence. Statuses are worked out
+ * again every half minute, so users whose app stopped refreshing drop to
+ * offline without a new snapshot
+ * @param userIds - The users to follow
+ * @returns Each user's presence status, by user ID
+ */
+export const useUsersPresence = (userIds: string[]): Record<string, PresenceStatus> => {
+  const [stored, setStored] = useState<Record<string, StoredPresence>>({});
+  const [now, setNow] = useState(Date.now());
+  const idsKey = [...new Set(userIds.filter(Boolean))].sort().join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    setStored({});
+
+    const unsubscribes: (() => void)[] = [];
+    for (let i = 0; i < ids.length; i += USERS_PER_QUERY) {
+      const chunk = ids.slice(i, i + USERS_PER_QUERY);
+      unsubscribes.push(onSnapshot(
+        query(collection(db, 'presence'), where(documentId(), 'in', chunk)),
+        snapshot => {
+          setStored(prev => {
+            const next = { ...prev };
+            chunk.forEach(id => delete next[id]);
+            snapshot.docs.forEach(presenceDoc => {
+              next[presenceDoc.id] = presenceDoc.data() as StoredPresence;
+            });
+            return next;
+          });
+        },
+        error => console.error('Error loading presence:', error)
+      ));
+    }
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [idsKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return useMemo(() => {
+    const statuses: Record<string, PresenceStatus> = {};
+    Object.entries(stored).forEach(([id, presence]) => {
+      statuses[id] = getPresenceStatus(presence, now);
+    });
+    return statuses;
+  }, [stored, now]);
+};
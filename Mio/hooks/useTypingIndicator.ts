@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { doc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebaseConfig';
+import {
+  StoredTyping,
+  TYPING_IDLE_MS,
+  TYPING_THROTTLE_MS,
+  isTypingNow,
+} from '../utils/presence';
+
+/**
+ * Custom hook for the "typing…" indicator in a conversation. Keystrokes are
+ * throttled to one write every few seconds, and typing stops after a pause,
+ * on send and when the chat closes
+ * @param userId - The current user's ID
+ * @param conversationId - The open conversation, if loaded
+ * @param otherUserId - The other participant, if known
+ * @returns Whether the other participant is typing, plus callbacks for the input
+ */
+export const useTypingIndicator = (
+  userId: string | undefined,
+  conversationId: string | undefined,
+  otherUserId: string | undefined
+) => {
+  const [otherTyping, setOtherTyping] = useState<StoredTyping | undefined>(undefined);
+  const [now, setNow] = useState(Date.now());
+  const isTypingRef = useRef(false);
+  const lastWriteRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Follow the other participant's typing state
+  useEffect(() => {
+    setOtherTyping(undefined);
+    if (!conversationId || !otherUserId) return;
+    return onSnapshot(
+      doc(db, 'conversations', conversationId, 'typing', otherUserId),
+      snapshot => setOtherTyping(snapshot.data() as StoredTyping | undefined),
+      error => console.error('Error loading typing state:', error)
+    );
+  }, [conversationId, otherUserId]);
+
+  // Check again every second while it shows, so a stale state disappears
+  useEffect(() => {
+    if (!otherTyping?.isTyping) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [otherTyping]);
+
+  const writeTyping = useCallback((isTyping: boolean) => {
+    if (!userId || !conversationId) return;
+    isTypingRef.current = isTyping;
+    lastWriteRef.current = Date.now();
+    setDoc(doc(db, 'conversations', conversationId, 'typing', userId), {
+      isTyping,
+      updatedAt: serverTimestamp()
+    }).catch(error => console.error('Error updating typing state:', error));
+  }, [userId, conversationId]);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (isTypingRef.current) writeTyping(false);
+  }, [writeTyping]);
+
+  // Call with the input's text on every change
+  const onTextChange = useCallback((text: string) => {
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+    if (!isTypingRef.current || Date.now() - lastWriteRef.current >= TYPING_THROTTLE_MS) {
+      writeTyping(true);
+    }
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [stopTyping, writeTyping]);
+
+  // Stop typing when the chat closes or switches conversation
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return {
+    isOtherTyping: isTypingNow(otherTyping, now),
+    onTextChange,
+    stopTyping
+  };
+};
@@ -0,0 +1,15 @@
+import { Timestamp } from "firebase/firestore";
+
+// Kinds of entries in the activity feed, matching the push notification types
+export type ActivityType = 'match' | 'matchExpiring' | 'message' | 'announcement';
+
+// Activity feed entry, written by Cloud Functions to users/{uid}/notifications
+export interface ActivityItem {
+  id: string;
+  type: ActivityType;
+  title: string;
+  body: string;
+  data: Record<string, any>; // Same data as the push notification, used for deep linking
+  read: boolean;
+  createdAt?: Timestamp; // Missing until the server timestamp is resolved
+}
@@ -0,0 +1,18 @@
+// Favorite removal limits, as stored by the server on users/{uid}.favoritesQuota
+export interface StoredFavoritesQuota {
+  removalCount: number;
+  cooldownEndTime: number | null; // Milliseconds since epoch
+}
+
+// Favorite removal limits, as returned by the cloud functions
+export interface FavoritesQuota {
+  removalCount: number;
+  cooldownEndTime: string | null; // ISO time removals are allowed again
+}
+
+// Response type from the addFavorite and removeFavorite cloud functions
+export interface FavoriteChangeResponse {
+  success: boolean;
+  favoriteShows: string[];
+  quota: FavoritesQuota;
+}
@@ -3,6 +3,13 @@ import { Timestamp } from "firebase/firestore";
 // Match level types
 export type MatchLevel = 'match' | 'superMatch';
 
+// How a compatibility score was put together
+export interface ScoreBreakdown {
+  sharedShows: number; // Number of favorite shows in common
+  showScore: number; // Points from shared shows, weighted by how rare they are
+  genreScore: number; // Partial credit from overlapping genres
+}
+
 // Match data structure shared between client and server
 export interface MatchData {
   userId: string;
@@ -15,13 +22,47 @@ export interface MatchData {
   location?: string;
   gender?: string;
   chattingWith?: boolean; // Track if users are already in a conversation
+  expiresAt?: Timestamp; // Only until either side opens a conversation
+  compatibilityScore?: number; // Missing on matches created before scoring existed
+  scoreBreakdown?: ScoreBreakdown;
+  // Favorites both users have in common; missing on matches created before they were stored
+  commonShowIds?: string[];
+  sharedGenreIds?: number[];
+  // Photo unlock state, written by the server. Until unlocked, profilePic is a blurred rendition
+  photoUnlocked?: boolean;
+  photoUnlockAt?: Timestamp; // When the photo unlocks by time, if that rule is on
+  revealRequested?: boolean; // The current user asked to reveal photos
+  otherRequestedReveal?: boolean; // The other user asked to reveal photos
+  additionalPics?: string[]; // The other user's extra photos, only once unlocked
+}
+
+export type CandidateDecision = 'like' | 'pass';
+
+// Suggested profile waiting for a like or pass; it becomes a match once both sides like each other
+export interface MatchCandidate extends Omit<MatchData, 'matchTimestamp' | 'chattingWith'> {
+  suggestedAt: Timestamp;
+  decision: CandidateDecision | null; // The current user's answer, null until they respond
+}
+
+// Searches left for the day, as worked out by the server
+export interface SearchQuota {
+  remaining: number;
+  nextAvailableAt: string | null; // ISO time the next search frees up, null while searches are left
 }
 
 // Response type from the cloud function
-export interface SearchMatchesResponse {
+export interface SearchMatchesResponse extends SearchQuota {
   success: boolean;
-  newMatches: MatchData[];
-  matchCount: number;
-  cooldownEnd: string;
+  newCandidates: MatchCandidate[];
+  candidateCount: number;
   message: string;
+}
+
+// 'unavailable' means the other user deleted their account in the meantime
+export type CandidateOutcome = 'match' | 'waiting' | 'pass' | 'unavailable';
+
+export interface RespondToCandidateResponse {
+  success: boolean;
+  outcome: CandidateOutcome;
+  match: MatchData | null;
 } 
\ No newline at end of file
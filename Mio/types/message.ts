@@ -0,0 +1,23 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type MessageType = 'text' | 'image';
+
+// A photo sent in a chat, uploaded to the conversation's Cloudinary folder
+export interface MessageImage {
+  url: string;
+  width: number;
+  height: number;
+  blurhash: string | null; // Placeholder shown while the photo loads
+}
+
+// A single message within a message batch or archive
+export interface Message {
+  id?: string;
+  type?: MessageType; // Missing on messages sent before photos were supported
+  text: string; // A photo's caption, possibly empty
+  image?: MessageImage;
+  senderId: string;
+  senderName: string;
+  timestamp: Timestamp;
+  read?: boolean; // Only on older messages; read state comes from the conversation's read cursors
+}
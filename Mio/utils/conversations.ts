@@ -0,0 +1,57 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { Timestamp } from 'firebase/firestore';
+
+// What the openConversation callable returns
+interface OpenConversationResult {
+  success: boolean;
+  conversationId: string;
+  created: boolean; // False when the pair already had a conversation
+}
+
+// The conversation fields read state depends on. Each participant has a read
+// cursor: the time of the newest message they've read, and the conversation's
+// messageCount at that point
+export interface ConversationReadState {
+  messageCount?: number;
+  lastReadAt?: {[uid: string]: Timestamp};
+  readMessageCount?: {[uid: string]: number};
+  unreadCount?: {[uid: string]: number}; // Only on conversations from before read cursors
+}
+
+/**
+ * Opens the conversation with a match, creating it on the server if the pair
+ * doesn't have one yet. The server derives the ID from the pair, so both users
+ * always land in the same conversation. Every screen that starts a chat goes
+ * through here.
+ * @param otherUserId - The match to chat with
+ * @returns The conversation ID, and whether it was just created
+ */
+export async function openConversation(otherUserId: string): Promise<OpenConversationResult> {
+  const result = await httpsCallable(getFunctions(), 'openConversation')({ otherUserId });
+  return result.data as OpenConversationResult;
+}
+
+/**
+ * How many messages in a conversation a participant hasn't read, worked out
+ * from their read cursor the same way the server does
+ * @param conversation - The conversation doc's data
+ * @param userId - The participant's ID
+ * @returns The number of unread messages
+ */
+export function getUnreadCount(conversation: ConversationReadState, userId: string): number {
+  const messageCount = conversation.messageCount || 0;
+  const readMessageCount = conversation.readMessageCount?.[userId];
+  if (readMessageCount === undefined) {
+    return Math.min(conversation.unreadCount?.[userId] || 0, messageCount);
+  }
+  return Math.max(0, messageCount - readMessageCount);
+}
+
+/**
+ * Marks a conversation as read up to its latest message by moving the user's
+ * read cursor on the server
+ * @param conversationId - The conversation to mark as read
+ */
+export async function markConversationRead(conversationId: string): Promise<void> {
+  await httpsCallable(getFunctions(), 'markConversationRead')({ conversationId });
+}
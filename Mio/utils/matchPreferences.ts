@@ -0,0 +1,100 @@
+/**
+ * Helpers for the age-range and distance matching preferences
+ * An empty age limit means "any", which is also how profiles without a range behave
+ */
+
+import * as Location from 'expo-location';
+
+export const MIN_MATCH_AGE = 18;
+export const MAX_MATCH_AGE = 99;
+
+// "Local" matching radius choices, in kilometres
+export const MATCH_DISTANCE_OPTIONS_KM = [25, 50, 100, 250];
+export const DEFAULT_MATCH_DISTANCE_KM = 50;
+
+// Coordinates are snapped to a 0.1 degree grid (roughly 11 km) before being stored
+const COARSE_LOCATION_PRECISION = 10;
+
+// Approximate position stored on the profile, never the exact device location
+export interface CoarseLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Parse an age limit typed into a form field
+ * @param text - The raw input
+ * @returns The limit as a number, or null when left blank
+ */
+export function parseAgeLimit(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return Number(trimmed);
+}
+
+/**
+ * Validate an age range entered in a form
+ * @param minText - The raw minimum age input
+ * @param maxText - The raw maximum age input
+ * @returns An error message, or null if the range is valid
+ */
+export function validateAgeRange(minText: string, maxText: string): string | null {
+  const min = parseAgeLimit(minText);
+  const max = parseAgeLimit(maxText);
+
+  for (const limit of [min, max]) {
+    if (limit === null) continue;
+    if (!Number.isInteger(limit) || limit < MIN_MATCH_AGE || limit > MAX_MATCH_AGE) {
+      return `Ages must be whole numbers between ${MIN_MATCH_AGE} and ${MAX_MATCH_AGE}`;
+    }
+  }
+
+  if (min !== null && max !== null && min > max) {
+    return 'Minimum age cannot be higher than maximum age';
+  }
+
+  return null;
+}
+
+/**
+ * Format an age range for display
+ * @param min - The stored minimum age, if any
+ * @param max - The stored maximum age, if any
+ * @returns A short label such as "21-30", "25+" or "Any age"
+ */
+export function formatAgeRange(min?: number | null, max?: number | null): string {
+  if (min && max) return `${min}-${max}`;
+  if (min) return `${min}+`;
+  if (max) return `Up to ${max}`;
+  return 'Any age';
+}
+
+/**
+ * Snap exact coordinates to the coarse grid stored on the profile
+ * @param latitude - The device latitude
+ * @param longitude - The device longitude
+ * @returns The center of the grid cell the coordinates fall in
+ */
+export function toCoarseLocation(latitude: number, longitude: number): CoarseLocation {
+  return {
+    latitude: Math.round(latitude * COARSE_LOCATION_PRECISION) / COARSE_LOCATION_PRECISION,
+    longitude: Math.round(longitude * COARSE_LOCATION_PRECISION) / COARSE_LOCATION_PRECISION,
+  };
+}
+
+/**
+ * Ask for location permission and read the device's approximate position
+ * @returns The coarse location, or null if permission was denied
+ */
+export async function getCoarseDeviceLocation(): Promise<CoarseLocation | null> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  const position = await Location.getCurrentPositionAsync({
+    accuracy: Location.Accuracy.Low,
+  });
+
+  return toCoarseLocation(position.coords.latitude, position.coords.longitude);
+}
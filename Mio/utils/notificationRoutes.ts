@@ -0,0 +1,28 @@
+import { Href } from 'expo-router';
+
+/**
+ * Works out where a notification should take the user, shared by push taps
+ * and the activity feed
+ * @param data - The data sent with the notification
+ * @returns The screen to open, or null if the notification has no destination
+ */
+export function getNotificationHref(data: Record<string, any> | null | undefined): Href | null {
+  if ((data?.type === 'match' || data?.type === 'matchExpiring') && data.matchId) {
+    return { pathname: '/(tabs)/match' };
+  }
+
+  if (data?.type === 'message' && data.conversationId) {
+    // Open the conversation the message was sent in
+    return {
+      pathname: '/(conversations)/chat',
+      params: { conversationId: data.conversationId, fromInbox: 'true' }
+    };
+  }
+
+  if (data?.type === 'activity') {
+    // Summary of notifications held back during quiet hours
+    return { pathname: '/(tabs)/activity' };
+  }
+
+  return null;
+}
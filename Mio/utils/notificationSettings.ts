@@ -0,0 +1,88 @@
+/**
+ * Helpers for the notification preferences screen
+ * Mirrors the settings structure read by the Cloud Functions; settings are only
+ * saved through the updateNotificationSettings function, which validates them
+ */
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // Local time as "HH:MM"
+  end: string; // Local time as "HH:MM"; earlier than start means quiet hours span midnight
+  timeZone: string; // IANA time zone of the device that last saved the settings
+}
+
+export interface NotificationSettings {
+  matchNotifications: boolean;
+  superMatchNotifications: boolean;
+  messageNotifications: boolean;
+  matchExpiryNotifications: boolean;
+  announcementNotifications: boolean;
+  quietHours: QuietHours;
+}
+
+export type NotificationToggle = keyof Omit<NotificationSettings, 'quietHours'>;
+
+/**
+ * Get the device's time zone, which quiet hours are evaluated in
+ * @returns The IANA time zone name, or UTC if it can't be determined
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  matchNotifications: true,
+  superMatchNotifications: true,
+  messageNotifications: true,
+  matchExpiryNotifications: true,
+  announcementNotifications: true,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '08:00',
+    timeZone: 'UTC',
+  },
+};
+
+/**
+ * Fill in defaults for settings that were never saved
+ * @param stored - The profile's notificationSettings value, if any
+ * @returns Complete settings
+ */
+export function normalizeNotificationSettings(stored: Partial<NotificationSettings> | undefined): NotificationSettings {
+  return {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    ...stored,
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+      ...stored?.quietHours,
+    },
+  };
+}
+
+/**
+ * Move a quiet hours boundary by whole hours, wrapping around midnight
+ * @param time - The current time as "HH:MM"
+ * @param hours - How many hours to move it by
+ * @returns The new time as "HH:MM"
+ */
+export function shiftQuietHour(time: string, hours: number): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const shifted = (hour + hours + 24) % 24;
+  return `${String(shifted).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Format a quiet hours boundary for display
+ * @param time - The time as "HH:MM"
+ * @returns The time in 12-hour format, e.g. "10:00 PM"
+ */
+export function formatQuietHour(time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const period = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${period}`;
+}
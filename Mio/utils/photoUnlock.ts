@@ -0,0 +1,60 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebaseConfig';
+import { MatchData } from '../types/match';
+
+/**
+ * Whether a match's photo is still locked. The server decides when photos
+ * unlock; entries from before photos were locked count as unlocked.
+ * @param match - The match entry
+ * @returns True while the entry only holds a blurred photo
+ */
+export function isPhotoLocked(match: Pick<MatchData, 'photoUnlocked'> | undefined): boolean {
+  return match?.photoUnlocked === false;
+}
+
+/**
+ * Describes how long until a locked photo unlocks by time
+ * @param match - The match entry
+ * @param now - The current time in milliseconds
+ * @returns Text such as "Unlocks in 5h", or a hint about the other ways to unlock
+ */
+export function getPhotoUnlockLabel(match: Pick<MatchData, 'photoUnlockAt'>, now: number = Date.now()): string {
+  if (!match.photoUnlockAt) return 'Unlocks when you both chat or reveal';
+
+  const minutesLeft = Math.ceil((match.photoUnlockAt.toMillis() - now) / (60 * 1000));
+  if (minutesLeft <= 0) return 'Unlocking soon';
+  if (minutesLeft < 60) return `Unlocks in ${minutesLeft}m`;
+  return `Unlocks in ${Math.ceil(minutesLeft / 60)}h`;
+}
+
+// The owner's real photos, kept on their private photo doc
+export interface ProfilePhotos {
+  profilePic: string;
+  additionalPics: string[];
+}
+
+/**
+ * Reads the owner's real photos. Only the owner can read them; everyone else
+ * sees blurred copies on the profile until their pair unlocks.
+ * @param userId - The signed-in user's ID
+ * @returns The photos, or null if they haven't been moved off the profile yet
+ */
+export async function getProfilePhotos(userId: string): Promise<ProfilePhotos | null> {
+  const photoDoc = await getDoc(doc(db, 'users', userId, 'private', 'photo'));
+  if (!photoDoc.exists()) return null;
+  return {
+    profilePic: photoDoc.data().profilePic || '',
+    additionalPics: photoDoc.data().additionalPics || []
+  };
+}
+
+/**
+ * Saves the owner's real photos, which have to be the app's own profile
+ * uploads. The server then writes blurred copies to the profile and the real
+ * photos to unlocked matches.
+ * @param userId - The signed-in user's ID
+ * @param photos - The photo URLs
+ */
+export async function saveProfilePhotos(userId: string, photos: ProfilePhotos): Promise<void> {
+  await setDoc(doc(db, 'users', userId, 'private', 'photo'), photos);
+}
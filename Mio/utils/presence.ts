@@ -0,0 +1,92 @@
+/**
+ * Helpers for online presence and typing indicators
+ * Presence lives in presence/{uid} and typing in conversations/{id}/typing/{uid}.
+ * Both are refreshed by the app while it's in use and go stale on their own,
+ * so an app that was killed without clearing them stops showing up after a
+ * while
+ */
+import { doc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebaseConfig';
+
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000; // How often an open app refreshes its presence
+export const PRESENCE_TTL_MS = 2 * PRESENCE_HEARTBEAT_MS; // Online until a refresh is this late
+export const TYPING_THROTTLE_MS = 3 * 1000; // At most one typing write this often
+export const TYPING_TTL_MS = 6 * 1000; // Typing shows until a refresh is this late
+export const TYPING_IDLE_MS = 4 * 1000; // Typing stops after a pause this long
+
+// Presence as stored on presence/{uid}. Users who hide their last seen only
+// store the flag, since an online status would give it away as well
+export interface StoredPresence {
+  hideLastSeen?: boolean;
+  online?: boolean;
+  lastSeenAt?: Timestamp | null;
+}
+
+// Typing state as stored on conversations/{id}/typing/{uid}
+export interface StoredTyping {
+  isTyping: boolean;
+  updatedAt: Timestamp | null; // Null until the server time is filled in
+}
+
+export interface PresenceStatus {
+  online: boolean;
+  lastSeenAt: Date | null; // Null when unknown or hidden
+}
+
+/**
+ * Work out whether a user is online from their stored presence
+ * @param presence - The stored presence, if any
+ * @param now - The current time in milliseconds
+ * @returns Whether they're online, and when they were last seen
+ */
+export function getPresenceStatus(presence: StoredPresence | undefined, now: number = Date.now()): PresenceStatus {
+  if (!presence || presence.hideLastSeen || !presence.lastSeenAt) {
+    return { online: false, lastSeenAt: null };
+  }
+  const lastSeenAt = presence.lastSeenAt.toDate();
+  return {
+    online: !!presence.online && now - lastSeenAt.getTime() < PRESENCE_TTL_MS,
+    lastSeenAt,
+  };
+}
+
+/**
+ * Describe a user's presence for the chat header
+ * @param status - The user's presence status
+ * @param now - The current time in milliseconds
+ * @returns Text such as "Online" or "Last seen 5m ago", or null when there's nothing to show
+ */
+export function formatPresence(status: PresenceStatus, now: number = Date.now()): string | null {
+  if (status.online) return 'Online';
+  if (!status.lastSeenAt) return null;
+
+  const minutes = Math.floor((now - status.lastSeenAt.getTime()) / (60 * 1000));
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours}h ago`;
+  return `Last seen ${status.lastSeenAt.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+}
+
+/**
+ * Whether a stored typing state means the user is typing right now
+ * @param typing - The stored typing state, if any
+ * @param now - The current time in milliseconds
+ * @returns True while the state is set and fresh
+ */
+export function isTypingNow(typing: StoredTyping | undefined, now: number = Date.now()): boolean {
+  if (!typing?.isTyping || !typing.updatedAt) return false;
+  return now - typing.updatedAt.toMillis() < TYPING_TTL_MS;
+}
+
+/**
+ * Save whether the user hides their last seen. Hiding replaces the stored
+ * presence with just the flag; showing it again marks them online right away
+ * @param userId - The current user's ID
+ * @param hideLastSeen - Whether to hide it
+ */
+export async function setHideLastSeen(userId: string, hideLastSeen: boolean): Promise<void> {
+  await setDoc(doc(db, 'presence', userId), hideLastSeen
+    ? { hideLastSeen: true }
+    : { hideLastSeen: false, online: true, lastSeenAt: serverTimestamp() });
+}
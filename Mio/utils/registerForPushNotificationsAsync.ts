@@ -1,15 +1,43 @@
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
+import * as Application from 'expo-application';
 import { Platform } from 'react-native';
-import { doc, updateDoc } from 'firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deleteDoc, deleteField, doc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../config/firebaseConfig';
 import Constants from 'expo-constants'; // Import Constants
 import { getApps, initializeApp } from 'firebase/app';
 import { firebaseConfig } from '../config/firebaseConfig'; // Import your Firebase config
 
+const DEVICE_ID_KEY = 'pushDeviceId';
+
+/**
+ * Returns a stable ID for this install, used as the key of its push token doc
+ * Falls back to a random ID stored locally when the platform doesn't provide one
+ */
+async function getDeviceId(): Promise<string> {
+  try {
+    const nativeId = Platform.OS === 'android'
+      ? Application.getAndroidId()
+      : Platform.OS === 'ios'
+        ? await Application.getIosIdForVendorAsync()
+        : null;
+    if (nativeId) return nativeId;
+  } catch (error) {
+    console.warn('Unable to read native device ID:', error);
+  }
+
+  const storedId = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (storedId) return storedId;
+
+  const generatedId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  await AsyncStorage.setItem(DEVICE_ID_KEY, generatedId);
+  return generatedId;
+}
+
 /**
  * Registers device for push notifications and returns the token
- * Also saves the token to the user's profile in Firestore
+ * Also saves the token under the user's pushTokens subcollection, one doc per device
  */
 export async function registerForPushNotificationsAsync(userId: string): Promise<string | null> {
   let token;
@@ -71,11 +99,18 @@ export async function registerForPushNotificationsAsync(userId: string): Promise
 
   // Save the token to Firestore
   try {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      'profile.pushToken': token
+    const deviceId = await getDeviceId();
+    await setDoc(doc(db, 'users', userId, 'pushTokens', deviceId), {
+      token,
+      platform: Platform.OS,
+      appVersion: Application.nativeApplicationVersion || null,
+      lastSeenAt: serverTimestamp()
+    });
+
+    // Drop the single token stored before devices were tracked separately
+    await updateDoc(doc(db, 'users', userId), {
+      'profile.pushToken': deleteField()
     });
-  
   } catch (error) {
     console.error('Error saving push token to Firestore:', error);
   }
@@ -84,15 +119,13 @@ export async function registerForPushNotificationsAsync(userId: string): Promise
 }
 
 /**
- * Unregisters the device from push notifications
- * Removes the token from the user's profile in Firestore
+ * Unregisters this device from push notifications
+ * Only this device's token is removed; the user's other devices keep receiving pushes
  */
 export async function unregisterFromPushNotifications(userId: string): Promise<void> {
   try {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      'profile.pushToken': null
-    });
+    const deviceId = await getDeviceId();
+    await deleteDoc(doc(db, 'users', userId, 'pushTokens', deviceId));
     
   } catch (error) {
     console.error('Error removing push token from Firestore:', error);